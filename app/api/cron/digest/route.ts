@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { getMailTransport } from "@/lib/notifications";
+import { sendDigestIfDue, type DigestResult } from "@/lib/notifications/digest";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+function getEnv(name: string): string {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+// Users not reached stay queued for the next tick.
+const DEFAULT_MAX_USERS = 50;
+
+// Under PostgREST's default max-rows (1000).
+const DUE_PAGE_SIZE = 500;
+
+/**
+ * Every user with queued jobs whose digest is due, longest-waiting first.
+ */
+async function listDueUsers(admin: SupabaseClient, now: Date): Promise<string[]> {
+  const userIds: string[] = [];
+
+  for (let from = 0; ; from += DUE_PAGE_SIZE) {
+    const { data, error } = await admin
+      .rpc("digest_due_users", { p_now: now.toISOString() })
+      .range(from, from + DUE_PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    const rows = (data ?? []) as Array<{ user_id: string }>;
+    userIds.push(...rows.map((r) => r.user_id));
+    if (rows.length < DUE_PAGE_SIZE) return userIds;
+  }
+}
+
+/**
+ * Send due email digests to users with jobs queued by sync. Run it
+ * hourly; each user's daily or weekly frequency decides who gets mail.
+ *
+ * Protected by CRON_SECRET (Vercel Cron sends it as a bearer token):
+ *   GET /api/cron/digest
+ *   Authorization: Bearer $CRON_SECRET
+ *
+ * Links in the email point at APP_URL, or this request's origin.
+ * Optional: ?max_users=N to override CRON_DIGEST_MAX_USERS for a run.
+ */
+export async function GET(req: Request) {
+  try {
+    const secret = getEnv("CRON_SECRET");
+    if (req.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const url = new URL(req.url);
+    const maxUsersParam = Number(url.searchParams.get("max_users") ?? process.env.CRON_DIGEST_MAX_USERS ?? "");
+    const maxUsers =
+      Number.isFinite(maxUsersParam) && maxUsersParam > 0 ? Math.floor(maxUsersParam) : DEFAULT_MAX_USERS;
+    const appUrl = (process.env.APP_URL || url.origin).replace(/\/+$/, "");
+
+    const admin = createSupabaseAdmin();
+    const transport = getMailTransport();
+
+    const now = new Date();
+    const userIds = await listDueUsers(admin, now);
+    const batch = userIds.slice(0, maxUsers);
+    const results: Array<DigestResult | { user_id: string; status: "failed"; error: string }> = [];
+
+    // One bad address or SMTP hiccup shouldn't stop everyone else's digest.
+    for (const userId of batch) {
+      try {
+        results.push(await sendDigestIfDue(admin, transport, userId, { appUrl, now }));
+      } catch (err: unknown) {
+        results.push({ user_id: userId, status: "failed", error: getErrorMessage(err) });
+      }
+    }
+
+    return NextResponse.json({
+      ok: true,
+      transport: transport.name,
+      users_due: userIds.length,
+      sent: results.filter((r) => r.status === "sent").length,
+      remaining: userIds.length - batch.length,
+      results,
+    });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
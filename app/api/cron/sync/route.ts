@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { syncJobsForUser } from "@/lib/jobs/sync";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+function getEnv(name: string): string {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+// Cap per invocation so one run stays inside the function time limit;
+// users not reached are still due on the next tick.
+const DEFAULT_MAX_USERS = 25;
+
+// Under PostgREST's default max-rows (1000).
+const DUE_PAGE_SIZE = 500;
+
+/**
+ * Every user whose scheduled sync is due, never-synced first, then oldest
+ * watermark first.
+ */
+async function listDueUsers(admin: SupabaseClient, now: Date): Promise<string[]> {
+  const userIds: string[] = [];
+
+  for (let from = 0; ; from += DUE_PAGE_SIZE) {
+    const { data, error } = await admin
+      .rpc("sync_due_users", { p_now: now.toISOString() })
+      .range(from, from + DUE_PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    const rows = (data ?? []) as Array<{ user_id: string }>;
+    userIds.push(...rows.map((r) => r.user_id));
+    if (rows.length < DUE_PAGE_SIZE) return userIds;
+  }
+}
+
+/**
+ * Headless sync for every user with a resume profile or an enabled saved
+ * search whose job_sync_settings.interval_hours has elapsed since
+ * last_synced_at.
+ *
+ * Protected by CRON_SECRET (Vercel Cron sends it as a bearer token):
+ *   GET /api/cron/sync
+ *   Authorization: Bearer $CRON_SECRET
+ *
+ * Optional: ?max_users=N to override CRON_SYNC_MAX_USERS for a run.
+ */
+export async function GET(req: Request) {
+  try {
+    const secret = getEnv("CRON_SECRET");
+    if (req.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const url = new URL(req.url);
+    const maxUsersParam = Number(url.searchParams.get("max_users") ?? process.env.CRON_SYNC_MAX_USERS ?? "");
+    const maxUsers =
+      Number.isFinite(maxUsersParam) && maxUsersParam > 0 ? Math.floor(maxUsersParam) : DEFAULT_MAX_USERS;
+
+    const admin = createSupabaseAdmin();
+    const due = await listDueUsers(admin, new Date());
+    const batch = due.slice(0, maxUsers);
+    const results: Array<{ user_id: string; ok: boolean; inserted?: number; error?: string }> = [];
+
+    for (const userId of batch) {
+      const outcome = await syncJobsForUser(admin, userId);
+      results.push(
+        outcome.ok
+          ? { user_id: userId, ok: true, inserted: outcome.inserted }
+          : { user_id: userId, ok: false, error: outcome.error }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      users_due: due.length,
+      users_synced: results.length,
+      remaining: due.length - batch.length,
+      results,
+    });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { retryDueWebhookDeliveries } from "@/lib/webhooks/deliver";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+function getEnv(name: string): string {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+// Deliveries not reached stay due for the next tick.
+const DEFAULT_MAX_DELIVERIES = 100;
+
+/**
+ * Retry failed webhook deliveries whose backoff has elapsed. Run it every
+ * few minutes; the backoff schedule goes from 1 minute to 12 hours.
+ *
+ * Protected by CRON_SECRET (Vercel Cron sends it as a bearer token):
+ *   GET /api/cron/webhooks
+ *   Authorization: Bearer $CRON_SECRET
+ *
+ * Optional: ?max_deliveries=N to override CRON_WEBHOOK_MAX_DELIVERIES for a run.
+ */
+export async function GET(req: Request) {
+  try {
+    const secret = getEnv("CRON_SECRET");
+    if (req.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const url = new URL(req.url);
+    const maxParam = Number(
+      url.searchParams.get("max_deliveries") ?? process.env.CRON_WEBHOOK_MAX_DELIVERIES ?? ""
+    );
+    const max = Number.isFinite(maxParam) && maxParam > 0 ? Math.floor(maxParam) : DEFAULT_MAX_DELIVERIES;
+
+    const stats = await retryDueWebhookDeliveries(createSupabaseAdmin(), max);
+    return NextResponse.json({ ok: true, ...stats });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+
+import { APPLICATION_STATUSES, isApplicationStatus } from "@/lib/applications/status";
+import { loadApplicationHistory, transitionApplication } from "@/lib/applications/transition";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+import { emitWebhookEvents, loadWebhookJobs } from "@/lib/webhooks/deliver";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function userOwnsJob(admin: ReturnType<typeof createSupabaseAdmin>, userId: string, jobId: string) {
+  const { data, error } = await admin
+    .from("jobs")
+    .select("id")
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return Boolean(data);
+}
+
+/**
+ * Application status for one job.
+ *
+ *   GET  /api/jobs/:id/application            -> { application, events }
+ *   POST /api/jobs/:id/application { status, note? }
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: jobId } = await params;
+    const admin = createSupabaseAdmin();
+
+    if (!(await userOwnsJob(admin, user.id, jobId))) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const history = await loadApplicationHistory(admin, user.id, jobId);
+    return NextResponse.json(history);
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await req.json()) as { status?: unknown; note?: unknown };
+    if (!isApplicationStatus(body.status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${APPLICATION_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const note = typeof body.note === "string" && body.note.trim() ? body.note.trim() : null;
+
+    const { id: jobId } = await params;
+    const admin = createSupabaseAdmin();
+
+    if (!(await userOwnsJob(admin, user.id, jobId))) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const result = await transitionApplication(admin, user.id, jobId, body.status, note);
+
+    const { event } = result;
+    if (event) {
+      // The status change is saved; a webhook failure shouldn't undo the response.
+      try {
+        const [job] = await loadWebhookJobs(admin, user.id, [jobId]);
+        if (job) {
+          await emitWebhookEvents(admin, user.id, [
+            {
+              type: "application.status_changed",
+              data: { job, from_status: event.from_status, to_status: event.to_status, note: event.note },
+            },
+          ]);
+        }
+      } catch (err: unknown) {
+        console.error(`webhooks failed for ${user.id}: ${getErrorMessage(err)}`);
+      }
+    }
+
+    return NextResponse.json({
+      application: result.application,
+      event: result.event,
+      changed: result.event !== null,
+    });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
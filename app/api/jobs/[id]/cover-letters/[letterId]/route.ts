@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+
+import {
+  deleteCoverLetterDraft,
+  loadCoverLetterHistory,
+  updateCoverLetterDraft,
+} from "@/lib/coverLetters/drafts";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+type RouteContext = { params: Promise<{ id: string; letterId: string }> };
+
+const MAX_BODY_LENGTH = 20000;
+
+/**
+ * One cover letter draft.
+ *
+ *   GET    /api/jobs/:id/cover-letters/:letterId          -> { draft, revisions }
+ *   PATCH  /api/jobs/:id/cover-letters/:letterId { body } -> { draft }
+ *   DELETE /api/jobs/:id/cover-letters/:letterId          -> { ok }
+ *
+ * Every saved edit is kept as a revision.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: jobId, letterId } = await params;
+    const history = await loadCoverLetterHistory(createSupabaseAdmin(), user.id, jobId, letterId);
+    if (!history) {
+      return NextResponse.json({ error: "Cover letter not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(history);
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await req.json().catch(() => null)) as { body?: unknown } | null;
+    const text = typeof body?.body === "string" ? body.body.trim() : "";
+    if (!text) {
+      return NextResponse.json({ error: "body must be a non-empty string" }, { status: 400 });
+    }
+    if (text.length > MAX_BODY_LENGTH) {
+      return NextResponse.json({ error: `body must be at most ${MAX_BODY_LENGTH} characters` }, { status: 400 });
+    }
+
+    const { id: jobId, letterId } = await params;
+    const draft = await updateCoverLetterDraft(createSupabaseAdmin(), user.id, jobId, letterId, text);
+    if (!draft) {
+      return NextResponse.json({ error: "Cover letter not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ draft });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: jobId, letterId } = await params;
+    if (!(await deleteCoverLetterDraft(createSupabaseAdmin(), user.id, jobId, letterId))) {
+      return NextResponse.json({ error: "Cover letter not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
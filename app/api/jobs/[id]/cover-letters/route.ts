@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+
+import { createCoverLetterDraft, listCoverLetterDrafts } from "@/lib/coverLetters/drafts";
+import { generateCoverLetter, type CoverLetterJob } from "@/lib/coverLetters/generate";
+import {
+  COVER_LETTER_LENGTHS,
+  COVER_LETTER_TONES,
+  isCoverLetterLength,
+  isCoverLetterTone,
+} from "@/lib/coverLetters/options";
+import { getLlmProvider } from "@/lib/llm";
+import { loadResumeForJob } from "@/lib/resumes/forJob";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function loadJob(admin: ReturnType<typeof createSupabaseAdmin>, userId: string, jobId: string) {
+  const { data, error } = await admin
+    .from("jobs")
+    .select("title, company_name, location_text, description")
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle<CoverLetterJob>();
+
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+/**
+ * Cover letter drafts for one job.
+ *
+ *   GET  /api/jobs/:id/cover-letters                        -> { drafts }
+ *   POST /api/jobs/:id/cover-letters { tone?, length? }     -> { draft, provider }
+ *
+ * POST writes a new draft from the resume variant the job is matched
+ * against: its parsed profile, its text and the job description.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: jobId } = await params;
+    const admin = createSupabaseAdmin();
+
+    if (!(await loadJob(admin, user.id, jobId))) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const drafts = await listCoverLetterDrafts(admin, user.id, jobId);
+    return NextResponse.json({ drafts });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await req.json().catch(() => ({}))) as { tone?: unknown; length?: unknown };
+    const tone = body.tone ?? "professional";
+    const length = body.length ?? "medium";
+
+    if (!isCoverLetterTone(tone)) {
+      return NextResponse.json({ error: `tone must be one of: ${COVER_LETTER_TONES.join(", ")}` }, { status: 400 });
+    }
+    if (!isCoverLetterLength(length)) {
+      return NextResponse.json(
+        { error: `length must be one of: ${COVER_LETTER_LENGTHS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const { id: jobId } = await params;
+    const admin = createSupabaseAdmin();
+
+    const job = await loadJob(admin, user.id, jobId);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const resume = await loadResumeForJob(admin, user.id, job.title);
+    if (!resume) {
+      return NextResponse.json({ error: "No resume profile found for user" }, { status: 404 });
+    }
+
+    const provider = getLlmProvider();
+    const result = await generateCoverLetter(
+      provider,
+      { job, profile: resume.profile, resumeText: resume.resumeText },
+      { tone, length }
+    );
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: "Generated cover letter failed validation", fields: result.errors },
+        { status: 422 }
+      );
+    }
+
+    const draft = await createCoverLetterDraft(admin, user.id, {
+      job_id: jobId,
+      resume_id: resume.resume_id,
+      tone,
+      length,
+      body: result.body,
+      provider: provider.name,
+      model: provider.model,
+    });
+
+    return NextResponse.json({ draft, provider: provider.name });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
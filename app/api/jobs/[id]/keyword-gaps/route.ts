@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+
+import { analyzeKeywordGaps } from "@/lib/jobs/gaps";
+import { extractJobKeywords } from "@/lib/jobs/keywords";
+import { getLlmProvider } from "@/lib/llm";
+import { loadResumeForJob } from "@/lib/resumes/forJob";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Which of a posting's required and nice-to-have keywords the resume
+ * covers, compared against the resume variant the job is matched with.
+ *
+ *   POST /api/jobs/:id/keyword-gaps -> { analysis, resume_id, provider }
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: jobId } = await params;
+    const admin = createSupabaseAdmin();
+
+    const { data: job, error: jobErr } = await admin
+      .from("jobs")
+      .select("title, description")
+      .eq("id", jobId)
+      .eq("user_id", user.id)
+      .maybeSingle<{ title: string; description: string | null }>();
+
+    if (jobErr) {
+      return NextResponse.json({ error: jobErr.message }, { status: 500 });
+    }
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    if (!job.description?.trim()) {
+      return NextResponse.json({ error: "Job has no description to analyze" }, { status: 400 });
+    }
+
+    const resume = await loadResumeForJob(admin, user.id, job.title);
+    if (!resume) {
+      return NextResponse.json({ error: "No resume profile found for user" }, { status: 404 });
+    }
+
+    const skills = resume.profile.skills ?? [];
+    const provider = getLlmProvider();
+    const result = await extractJobKeywords(provider, job.description, skills);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: "Extracted keywords failed validation", fields: result.errors },
+        { status: 422 }
+      );
+    }
+
+    const analysis = analyzeKeywordGaps(job, result.keywords, { text: resume.resumeText, skills });
+
+    return NextResponse.json({ analysis, resume_id: resume.resume_id, provider: provider.name });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
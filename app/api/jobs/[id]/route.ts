@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+
+import { loadJobDetail } from "@/lib/jobs/detail";
+import { findAdjacentJobIds, parseJobListQuery } from "@/lib/jobs/list";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * One job with its full description, salary, location and source payload,
+ * plus its neighbours in the job list.
+ *
+ *   GET /api/jobs/:id?<GET /api/jobs filters and sort> -> { job, previous_id, next_id }
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = parseJobListQuery(new URL(req.url).searchParams);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { id: jobId } = await params;
+    const admin = createSupabaseAdmin();
+
+    const job = await loadJobDetail(admin, user.id, jobId);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const adjacent = await findAdjacentJobIds(admin, user.id, parsed.query, job);
+
+    return NextResponse.json({ job, ...adjacent });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
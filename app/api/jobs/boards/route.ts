@@ -0,0 +1,166 @@
+import { NextResponse } from "next/server";
+
+import { BOARD_SOURCES, isBoardSource } from "@/lib/jobs/sources";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+const BOARD_COLUMNS = "id, source, board_token, company_name, enabled, created_at";
+
+/**
+ * Company job boards (Greenhouse / Lever / Ashby) the user follows.
+ *
+ *   GET    /api/jobs/boards
+ *   POST   /api/jobs/boards   { source, board_token, company_name? }
+ *   PATCH  /api/jobs/boards   { id, enabled }
+ *   DELETE /api/jobs/boards?id=<uuid>
+ */
+export async function GET(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const admin = createSupabaseAdmin();
+    const { data, error } = await admin
+      .from("job_boards")
+      .select(BOARD_COLUMNS)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ boards: data ?? [] });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await req.json()) as {
+      source?: unknown;
+      board_token?: unknown;
+      company_name?: unknown;
+    };
+
+    if (!isBoardSource(body.source)) {
+      return NextResponse.json(
+        { error: `source must be one of: ${BOARD_SOURCES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const boardToken = typeof body.board_token === "string" ? body.board_token.trim() : "";
+    if (!boardToken || !/^[A-Za-z0-9._-]+$/.test(boardToken)) {
+      return NextResponse.json({ error: "Invalid board_token" }, { status: 400 });
+    }
+
+    const companyName =
+      typeof body.company_name === "string" && body.company_name.trim()
+        ? body.company_name.trim()
+        : null;
+
+    const admin = createSupabaseAdmin();
+    const { data, error } = await admin
+      .from("job_boards")
+      .upsert(
+        {
+          user_id: user.id,
+          source: body.source,
+          board_token: boardToken,
+          company_name: companyName,
+          enabled: true,
+        },
+        { onConflict: "user_id,source,board_token" }
+      )
+      .select(BOARD_COLUMNS)
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ board: data });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await req.json()) as { id?: unknown; enabled?: unknown };
+    if (typeof body.id !== "string" || typeof body.enabled !== "boolean") {
+      return NextResponse.json({ error: "Expected { id, enabled }" }, { status: 400 });
+    }
+
+    const admin = createSupabaseAdmin();
+    const { data, error } = await admin
+      .from("job_boards")
+      .update({ enabled: body.enabled })
+      .eq("id", body.id)
+      .eq("user_id", user.id)
+      .select(BOARD_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Board not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ board: data });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) {
+      return NextResponse.json({ error: "Missing required param: id" }, { status: 400 });
+    }
+
+    const admin = createSupabaseAdmin();
+    const { error } = await admin
+      .from("job_boards")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", user.id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -1,12 +1,11 @@
 import { NextResponse } from "next/server";
 
-export const runtime = "nodejs";
+import { loadJSearchBudget } from "@/lib/jobs/quota";
+import { parseJSearchFilters, searchJSearch } from "@/lib/jobs/sources";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
 
-function getEnv(name: string): string {
-  const v = process.env[name];
-  if (!v) throw new Error(`Missing env var: ${name}`);
-  return v;
-}
+export const runtime = "nodejs";
 
 function getErrorMessage(err: unknown): string {
   if (err instanceof Error) return err.message;
@@ -14,13 +13,23 @@ function getErrorMessage(err: unknown): string {
 }
 
 /**
- * Test endpoint to verify JSearch integration.
+ * Test endpoint to verify JSearch integration. Requires sign-in; every
+ * call, retries included, counts against the user's daily JSearch budget.
  *
  * Usage:
  *   GET /api/jobs/jsearch?query=software%20engineer&location=Austin%2C%20TX&page=1&num_pages=1
+ *
+ * Optional JSearch filters: country (2-letter code), date_posted
+ * (all|today|3days|week|month), employment_types and job_requirements
+ * (comma-separated), remote_jobs_only (true|false), radius (km).
  */
 export async function GET(req: Request) {
   try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
     const url = new URL(req.url);
 
     const query = (url.searchParams.get("query") ?? "").trim();
@@ -36,44 +45,37 @@ export async function GET(req: Request) {
       );
     }
 
-    const RAPIDAPI_KEY = getEnv("RAPIDAPI_KEY");
-    const RAPIDAPI_HOST = getEnv("RAPIDAPI_HOST");
-
-    const upstream = new URL("https://jsearch.p.rapidapi.com/search");
-    upstream.searchParams.set("query", location ? `${query} in ${location}` : query);
-    upstream.searchParams.set(
-      "page",
-      String(Number.isFinite(page) && page > 0 ? page : 1)
-    );
-    upstream.searchParams.set(
-      "num_pages",
-      String(Number.isFinite(numPages) && numPages > 0 ? Math.min(numPages, 5) : 1)
-    );
+    const parsed = parseJSearchFilters(url.searchParams);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
 
-    const r = await fetch(upstream.toString(), {
-      method: "GET",
-      headers: {
-        "x-rapidapi-key": RAPIDAPI_KEY,
-        "x-rapidapi-host": RAPIDAPI_HOST,
-      },
-      cache: "no-store",
-    });
+    const budget = await loadJSearchBudget(createSupabaseAdmin(), user.id);
+    if (budget.remaining() <= 0) {
+      return NextResponse.json({ error: "JSearch daily request budget exhausted" }, { status: 429 });
+    }
 
-    const text = await r.text();
+    const result = await searchJSearch(
+      { query: location ? `${query} in ${location}` : query, ...parsed.filters },
+      {
+        page: Number.isFinite(page) && page > 0 ? page : 1,
+        numPages: Number.isFinite(numPages) && numPages > 0 ? Math.min(numPages, 5) : 1,
+        budget,
+      }
+    );
 
-    if (!r.ok) {
+    if (!result.ok) {
       return NextResponse.json(
         {
           error: "JSearch request failed",
-          status: r.status,
-          body: text.slice(0, 2000),
+          status: result.status,
+          body: result.body.slice(0, 2000),
         },
         { status: 502 }
       );
     }
 
-    const data: unknown = JSON.parse(text);
-    return NextResponse.json({ ok: true, data });
+    return NextResponse.json({ ok: true, data: result.payload });
   } catch (err: unknown) {
     return NextResponse.json(
       { error: getErrorMessage(err) },
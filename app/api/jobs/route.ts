@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+
+import { listJobs, parseJobListQuery } from "@/lib/jobs/list";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+/**
+ * The user's saved jobs, a page at a time.
+ *
+ *   GET /api/jobs?q=&remote=&employment_types=&min_salary=&max_salary=&posted_within_days=
+ *                &source=&company=&min_score=&sort=&limit=&cursor= -> { jobs, next_cursor }
+ *
+ * `q` matches every word against title, company and description.
+ * `sort` is recent (default), posted, salary or match. Pass `next_cursor`
+ * back as `cursor`, with the same filters and sort, for the next page.
+ */
+export async function GET(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = parseJobListQuery(new URL(req.url).searchParams);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const page = await listJobs(createSupabaseAdmin(), user.id, parsed.query);
+    return NextResponse.json(page);
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server";
+
+import { scoreJobMatch, type MatchableJob } from "@/lib/jobs/match";
+import { defaultVariant, loadResumeVariants, variantForJob } from "@/lib/resumes/variants";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+import { emitWebhookEvents, type WebhookEvent } from "@/lib/webhooks/deliver";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+type JobScoreRow = MatchableJob & {
+  id: string;
+  company_name: string | null;
+  apply_url: string | null;
+  match_score: number | null;
+};
+
+const PAGE_SIZE = 500;
+
+/**
+ * Re-score every saved job against the resume variant whose target roles
+ * match its title, or the active profile. Sync scores new jobs as they're
+ * inserted; this is for after a re-parse, an edit to a variant's target
+ * roles, or switching the active profile.
+ *
+ *   POST /api/jobs/score
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const admin = createSupabaseAdmin();
+
+    const variants = await loadResumeVariants(admin, user.id);
+    if (!defaultVariant(variants)) {
+      return NextResponse.json({ error: "No resume profile found for user" }, { status: 404 });
+    }
+
+    let scored = 0;
+    let failed = 0;
+    // Jobs whose score went up; each webhook endpoint only hears about
+    // the ones that crossed its own threshold.
+    const raised: WebhookEvent[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: jobs, error: jobsErr } = await admin
+        .from("jobs")
+        .select(
+          "id, title, company_name, apply_url, description, location_text, city, region, country, is_remote, remote_type, match_score"
+        )
+        .eq("user_id", user.id)
+        .order("id", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+        .returns<JobScoreRow[]>();
+
+      if (jobsErr) {
+        return NextResponse.json({ error: jobsErr.message }, { status: 500 });
+      }
+
+      for (const job of jobs ?? []) {
+        const variant = variantForJob(variants, job.title);
+        if (!variant?.profile) continue;
+
+        const match = scoreJobMatch(job, variant.profile);
+        const { error } = await admin
+          .from("jobs")
+          .update({ match_score: match.score, match_breakdown: match.breakdown, match_resume_id: variant.resume_id })
+          .eq("id", job.id);
+
+        if (error) {
+          failed += 1;
+          continue;
+        }
+
+        scored += 1;
+        if (job.match_score === null || match.score > job.match_score) {
+          raised.push({
+            type: "job.matched",
+            data: {
+              job: {
+                id: job.id,
+                title: job.title,
+                company_name: job.company_name,
+                location_text: job.location_text,
+                is_remote: job.is_remote,
+                apply_url: job.apply_url,
+                match_score: match.score,
+              },
+              previous_match_score: job.match_score,
+            },
+          });
+        }
+      }
+
+      if (!jobs || jobs.length < PAGE_SIZE) break;
+    }
+
+    try {
+      await emitWebhookEvents(admin, user.id, raised);
+    } catch (err: unknown) {
+      console.error(`webhooks failed for ${user.id}: ${getErrorMessage(err)}`);
+    }
+
+    return NextResponse.json({ ok: true, scored, failed });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+
+import { SAVED_SEARCH_COLUMNS, parseSavedSearchInput, type SavedSearch } from "@/lib/jobs/savedSearches";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * One saved search. Deleting it removes its tags from jobs, not the jobs.
+ *
+ *   PATCH  /api/jobs/searches/:id { any field of POST /api/jobs/searches, enabled? } -> { search }
+ *   DELETE /api/jobs/searches/:id -> { ok }
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = parseSavedSearchInput(body, true);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const admin = createSupabaseAdmin();
+    const { data, error } = await admin
+      .from("saved_searches")
+      .update({ ...parsed.input, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .select(SAVED_SEARCH_COLUMNS)
+      .maybeSingle<SavedSearch>();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Saved search not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ search: data });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const admin = createSupabaseAdmin();
+    const { error } = await admin.from("saved_searches").delete().eq("id", id).eq("user_id", user.id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
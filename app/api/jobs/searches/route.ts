@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+
+import {
+  SAVED_SEARCH_COLUMNS,
+  listSavedSearches,
+  parseSavedSearchInput,
+  type SavedSearch,
+} from "@/lib/jobs/savedSearches";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+/**
+ * Saved job searches. Sync runs every enabled one alongside the profile's
+ * role queries; see POST /api/jobs/sync to run them on their own.
+ *
+ *   GET  /api/jobs/searches -> { searches }
+ *   POST /api/jobs/searches { query, name?, location?, remote_only?, employment_types?,
+ *                             posted_within_days?, excluded_keywords? } -> { search }
+ */
+export async function GET(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const searches = await listSavedSearches(createSupabaseAdmin(), user.id);
+    return NextResponse.json({ searches });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = parseSavedSearchInput(body, false);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const admin = createSupabaseAdmin();
+    const { data, error } = await admin
+      .from("saved_searches")
+      .insert({ user_id: user.id, ...parsed.input })
+      .select(SAVED_SEARCH_COLUMNS)
+      .single<SavedSearch>();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ search: data });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
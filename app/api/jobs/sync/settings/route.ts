@@ -0,0 +1,139 @@
+import { NextResponse } from "next/server";
+
+import {
+  DEFAULT_FRESHNESS_SETTINGS,
+  FRESHNESS_SETTINGS_COLUMNS,
+  type FreshnessSettings,
+} from "@/lib/jobs/freshness";
+import { DEFAULT_SYNC_INTERVAL_HOURS, type SyncSettingsRow } from "@/lib/jobs/sync";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+const SETTINGS_COLUMNS =
+  `user_id, interval_hours, last_synced_at, last_sync_ok, last_sync_error, ${FRESHNESS_SETTINGS_COLUMNS}`;
+
+type SettingsRow = SyncSettingsRow & FreshnessSettings;
+
+// One week; anything longer is effectively "off".
+const MAX_INTERVAL_HOURS = 168;
+
+const MAX_CLOSE_AFTER_DAYS = 365;
+
+/**
+ * Scheduled sync settings for the signed-in user.
+ *
+ *   GET   /api/jobs/sync/settings
+ *   PATCH /api/jobs/sync/settings { interval_hours?: number | null,    (null = off)
+ *                                   close_after_days?: number | null,  (null = never close unseen jobs)
+ *                                   probe_apply_urls?: boolean }
+ */
+export async function GET(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const admin = createSupabaseAdmin();
+    const { data, error } = await admin
+      .from("job_sync_settings")
+      .select(SETTINGS_COLUMNS)
+      .eq("user_id", user.id)
+      .maybeSingle<SettingsRow>();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const settings: SettingsRow = data ?? {
+      user_id: user.id,
+      interval_hours: DEFAULT_SYNC_INTERVAL_HOURS,
+      last_synced_at: null,
+      last_sync_ok: null,
+      last_sync_error: null,
+      ...DEFAULT_FRESHNESS_SETTINGS,
+    };
+
+    return NextResponse.json({ settings });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await req.json()) as {
+      interval_hours?: unknown;
+      close_after_days?: unknown;
+      probe_apply_urls?: unknown;
+    };
+    const update: Partial<Pick<SettingsRow, "interval_hours" | "close_after_days" | "probe_apply_urls">> = {};
+
+    const isIntIn = (v: unknown, max: number): v is number =>
+      typeof v === "number" && Number.isInteger(v) && v >= 1 && v <= max;
+
+    if (body.interval_hours !== undefined) {
+      const interval = body.interval_hours;
+      if (interval !== null && !isIntIn(interval, MAX_INTERVAL_HOURS)) {
+        return NextResponse.json(
+          { error: `interval_hours must be null or an integer between 1 and ${MAX_INTERVAL_HOURS}` },
+          { status: 400 }
+        );
+      }
+      update.interval_hours = interval;
+    }
+
+    if (body.close_after_days !== undefined) {
+      const days = body.close_after_days;
+      if (days !== null && !isIntIn(days, MAX_CLOSE_AFTER_DAYS)) {
+        return NextResponse.json(
+          { error: `close_after_days must be null or an integer between 1 and ${MAX_CLOSE_AFTER_DAYS}` },
+          { status: 400 }
+        );
+      }
+      update.close_after_days = days;
+    }
+
+    if (body.probe_apply_urls !== undefined) {
+      if (typeof body.probe_apply_urls !== "boolean") {
+        return NextResponse.json({ error: "probe_apply_urls must be a boolean" }, { status: 400 });
+      }
+      update.probe_apply_urls = body.probe_apply_urls;
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json(
+        { error: "Provide interval_hours, close_after_days or probe_apply_urls" },
+        { status: 400 }
+      );
+    }
+
+    const admin = createSupabaseAdmin();
+    const { data, error } = await admin
+      .from("job_sync_settings")
+      .upsert({ user_id: user.id, ...update }, { onConflict: "user_id" })
+      .select(SETTINGS_COLUMNS)
+      .single<SettingsRow>();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ settings: data });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
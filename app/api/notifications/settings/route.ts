@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+
+import {
+  NOTIFICATION_SETTINGS_COLUMNS,
+  clearDigestQueue,
+  type NotificationSettingsRow,
+} from "@/lib/notifications/digest";
+import { DEFAULT_NOTIFICATION_SETTINGS, isDigestFrequency, type NotificationSettings } from "@/lib/notifications/settings";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+function toSettings(row: NotificationSettingsRow | null): NotificationSettings {
+  if (!row) return DEFAULT_NOTIFICATION_SETTINGS;
+  return {
+    digest_frequency: row.digest_frequency,
+    digest_min_score: row.digest_min_score,
+    last_digest_sent_at: row.last_digest_sent_at,
+  };
+}
+
+/**
+ * Email digest settings for the signed-in user.
+ *
+ *   GET   /api/notifications/settings
+ *   PATCH /api/notifications/settings { digest_frequency?: "off" | "daily" | "weekly", digest_min_score?: 0-100 }
+ */
+export async function GET(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const admin = createSupabaseAdmin();
+    const { data, error } = await admin
+      .from("notification_settings")
+      .select(NOTIFICATION_SETTINGS_COLUMNS)
+      .eq("user_id", user.id)
+      .maybeSingle<NotificationSettingsRow>();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ settings: toSettings(data) });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await req.json().catch(() => null)) as {
+      digest_frequency?: unknown;
+      digest_min_score?: unknown;
+    } | null;
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const patch: Partial<Pick<NotificationSettings, "digest_frequency" | "digest_min_score">> = {};
+
+    if (body.digest_frequency !== undefined) {
+      if (!isDigestFrequency(body.digest_frequency)) {
+        return NextResponse.json({ error: "digest_frequency must be off, daily or weekly" }, { status: 400 });
+      }
+      patch.digest_frequency = body.digest_frequency;
+    }
+
+    if (body.digest_min_score !== undefined) {
+      const score = body.digest_min_score;
+      if (!(typeof score === "number" && Number.isInteger(score) && score >= 0 && score <= 100)) {
+        return NextResponse.json({ error: "digest_min_score must be an integer between 0 and 100" }, { status: 400 });
+      }
+      patch.digest_min_score = score;
+    }
+
+    const admin = createSupabaseAdmin();
+    const { data, error } = await admin
+      .from("notification_settings")
+      .upsert({ user_id: user.id, ...patch, updated_at: new Date().toISOString() }, { onConflict: "user_id" })
+      .select(NOTIFICATION_SETTINGS_COLUMNS)
+      .single<NotificationSettingsRow>();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (patch.digest_frequency === "off") await clearDigestQueue(admin, user.id);
+
+    return NextResponse.json({ settings: toSettings(data) });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
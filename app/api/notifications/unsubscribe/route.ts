@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+
+import { clearDigestQueue } from "@/lib/notifications/digest";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isToken(token: string | null): token is string {
+  return Boolean(token && UUID_RE.test(token));
+}
+
+async function tokenExists(token: string): Promise<boolean> {
+  const admin = createSupabaseAdmin();
+  const { data, error } = await admin
+    .from("notification_settings")
+    .select("user_id")
+    .eq("unsubscribe_token", token)
+    .maybeSingle<{ user_id: string }>();
+
+  if (error) throw new Error(error.message);
+  return Boolean(data);
+}
+
+/**
+ * Turn digests off for the user owning `token`. Returns whether a user
+ * matched.
+ */
+async function unsubscribe(token: string | null): Promise<boolean> {
+  if (!isToken(token)) return false;
+
+  const admin = createSupabaseAdmin();
+  const { data, error } = await admin
+    .from("notification_settings")
+    .update({ digest_frequency: "off", updated_at: new Date().toISOString() })
+    .eq("unsubscribe_token", token)
+    .select("user_id")
+    .returns<Array<{ user_id: string }>>();
+
+  if (error) throw new Error(error.message);
+  for (const row of data ?? []) await clearDigestQueue(admin, row.user_id);
+  return (data ?? []).length > 0;
+}
+
+function page(title: string, body: string, status: number) {
+  return new NextResponse(
+    `<!doctype html><html><head><meta charset="utf-8"><title>${title}</title></head>` +
+      `<body style="font-family:Arial,Helvetica,sans-serif;padding:48px;text-align:center">` +
+      `<h1 style="font-size:20px">${title}</h1>${body}</body></html>`,
+    { status, headers: { "Content-Type": "text/html; charset=utf-8" } }
+  );
+}
+
+function confirmForm(token: string) {
+  return (
+    `<p>Stop getting job digest emails?</p>` +
+    `<form method="post" action="/api/notifications/unsubscribe?token=${token}">` +
+    `<button type="submit" style="padding:8px 16px;font-size:14px">Unsubscribe</button></form>`
+  );
+}
+
+/**
+ * Unsubscribe link from digest emails. No sign-in needed; the token is the
+ * per-user secret from notification_settings. GET only asks for
+ * confirmation: mail scanners and link prefetchers open links in emails.
+ *
+ *   GET  /api/notifications/unsubscribe?token=<uuid>   link in the email body; shows a confirm form
+ *   POST /api/notifications/unsubscribe?token=<uuid>   the confirm form, or one-click (RFC 8058)
+ *                                                      from the List-Unsubscribe header
+ */
+export async function GET(req: Request) {
+  try {
+    const token = new URL(req.url).searchParams.get("token");
+    if (!isToken(token) || !(await tokenExists(token))) {
+      return page("Link not recognized", "<p>This unsubscribe link is invalid or has expired.</p>", 404);
+    }
+    return page("Unsubscribe from job digests", confirmForm(token), 200);
+  } catch (err: unknown) {
+    console.error(`unsubscribe failed: ${getErrorMessage(err)}`);
+    return page("Something went wrong", "<p>We couldn't load your email settings. Please try again later.</p>", 500);
+  }
+}
+
+export async function POST(req: Request) {
+  // Mail clients send `List-Unsubscribe=One-Click`; the confirm form sends nothing.
+  const form = await req.formData().catch(() => null);
+  const oneClick = form?.get("List-Unsubscribe") === "One-Click";
+
+  try {
+    const ok = await unsubscribe(new URL(req.url).searchParams.get("token"));
+    if (oneClick) {
+      return ok
+        ? NextResponse.json({ ok: true })
+        : NextResponse.json({ error: "Unknown unsubscribe token" }, { status: 404 });
+    }
+    return ok
+      ? page(
+          "You're unsubscribed",
+          "<p>You won't get job digest emails anymore. Turn them back on from your dashboard.</p>",
+          200
+        )
+      : page("Link not recognized", "<p>This unsubscribe link is invalid or has expired.</p>", 404);
+  } catch (err: unknown) {
+    if (oneClick) return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+    console.error(`unsubscribe failed: ${getErrorMessage(err)}`);
+    return page("Something went wrong", "<p>We couldn't update your email settings. Please try again later.</p>", 500);
+  }
+}
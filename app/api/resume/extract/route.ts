@@ -3,7 +3,12 @@ import { headers, cookies } from "next/headers";
 import { createClient } from "@supabase/supabase-js";
 
 import { createSupabaseAdmin } from "@/lib/supabase/admin";
-import { extractPdfTextFromBuffer } from "@/lib/resume/extractPdfText";
+import {
+  UNSUPPORTED_RESUME_MESSAGE,
+  detectResumeFormat,
+  extractResumeTextFromBuffer,
+} from "@/lib/resume/extractResumeText";
+import { segmentResume } from "@/lib/resume/sections";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -39,7 +44,14 @@ function getAccessTokenFromCookies(all: Array<{ name: string; value: string }>)
   }
 }
 
-export async function GET() {
+/**
+ * Extract text and sections from one of the user's resumes.
+ *
+ *   GET /api/resume/extract?resumeId=<uuid>
+ *
+ * Without `resumeId`, the default resume (or the newest upload).
+ */
+export async function GET(req: Request) {
   try {
     const h = await headers();
     const bearer = getBearerTokenFromHeader(h.get("authorization"));
@@ -72,10 +84,13 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { data: resume, error: resumeErr } = await supabase
-      .from("resumes")
-      .select("id, file_path, file_name, created_at")
-      .eq("user_id", user.id)
+    const resumeId = new URL(req.url).searchParams.get("resumeId");
+
+    let query = supabase.from("resumes").select("id, file_path, file_name, created_at").eq("user_id", user.id);
+    if (resumeId) query = query.eq("id", resumeId);
+
+    const { data: resume, error: resumeErr } = await query
+      .order("is_default", { ascending: false })
       .order("created_at", { ascending: false })
       .limit(1)
       .maybeSingle();
@@ -103,13 +118,21 @@ export async function GET() {
     }
 
     const buffer = Buffer.from(await file.arrayBuffer());
-    const { text, pageCount } = await extractPdfTextFromBuffer(buffer);
+    if (!detectResumeFormat(buffer, resume.file_name)) {
+      return NextResponse.json({ error: UNSUPPORTED_RESUME_MESSAGE }, { status: 415 });
+    }
+
+    const { text, pageCount, format } = await extractResumeTextFromBuffer(buffer, resume.file_name);
+    const { sections, experience } = segmentResume(text);
 
     return NextResponse.json({
       resumeId: resume.id,
       fileName: resume.file_name,
+      format,
       pageCount,
       text,
+      sections,
+      experience,
     });
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
@@ -1,38 +1,16 @@
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
 import { createClient } from "@supabase/supabase-js";
-import type { ChatCompletionMessage } from "openai/resources/chat/completions";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!,
-});
+import { getLlmProvider } from "@/lib/llm";
+import { createProfileVersion } from "@/lib/profiles/versions";
+import { loadResume } from "@/lib/resumes/library";
+import { extractProfile } from "@/lib/resume/extractProfile";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
 
 const admin = createClient(supabaseUrl, serviceRoleKey);
 
-const PROFILE_SCHEMA = {
-  type: "object",
-  additionalProperties: false,
-  required: [
-    "roles",
-    "skills",
-    "seniority",
-    "location_preference",
-    "visa_or_work_auth",
-    "remote_intent",
-  ],
-  properties: {
-    roles: { type: "array", items: { type: "string" } },
-    skills: { type: "array", items: { type: "string" } },
-    seniority: { type: "string" },
-    location_preference: { type: "string" },
-    visa_or_work_auth: { type: "string" },
-    remote_intent: { type: "string" },
-  },
-};
-
 export async function POST(req: Request) {
   try {
     const authHeader = req.headers.get("authorization");
@@ -57,72 +35,28 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Missing input" }, { status: 400 });
     }
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      temperature: 0,
-      messages: [
-        {
-          role: "system",
-          content:
-            "You extract structured job candidate data. Return ONLY valid JSON.",
-        },
-        {
-          role: "user",
-          content: `
-Parse this resume text into JSON with this schema:
-${JSON.stringify(PROFILE_SCHEMA)}
-
-Resume text:
-"""
-${text}
-"""
-`,
-        },
-      ],
-    });
-
-    const message = completion.choices[0]?.message as ChatCompletionMessage | undefined;
-    const raw = message?.content;
-
-    if (!raw) {
-      return NextResponse.json({ error: "AI failed" }, { status: 500 });
+    const resume = await loadResume(admin, user.id, resumeId);
+    if (!resume) {
+      return NextResponse.json({ error: "Resume not found" }, { status: 404 });
     }
 
-    let parsed;
-    try {
-      parsed = JSON.parse(raw);
-    } catch {
-      return NextResponse.json({ error: "Invalid JSON from AI" }, { status: 500 });
-    }
-
-    // Basic schema validation
-    for (const key of PROFILE_SCHEMA.required) {
-      if (!(key in parsed)) {
-        return NextResponse.json(
-          { error: `Missing field ${key}` },
-          { status: 500 }
-        );
-      }
-    }
-
-    const { error: insertError } = await admin
-      .from("resume_profiles")
-      .insert({
-        user_id: user.id,
-        resume_id: resumeId,
-        ...parsed,
-      });
-
-    if (insertError) {
+    const provider = getLlmProvider();
+    const result = await extractProfile(provider, text);
+    if (!result.ok) {
       return NextResponse.json(
-        { error: insertError.message },
-        { status: 500 }
+        { error: "Parsed profile failed validation", fields: result.errors },
+        { status: 422 }
       );
     }
 
+    const saved = await createProfileVersion(admin, user.id, resumeId, result.profile);
+
     return NextResponse.json({
       resumeId,
-      profile: parsed,
+      profileId: saved.id,
+      version: saved.version,
+      profile: saved,
+      provider: provider.name,
     });
   } catch (e: unknown) {
   const message =
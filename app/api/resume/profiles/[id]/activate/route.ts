@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+
+import { activateProfileVersion } from "@/lib/profiles/versions";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Make a profile version the one sync and scoring use.
+ *
+ *   POST /api/resume/profiles/:id/activate
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const activated = await activateProfileVersion(createSupabaseAdmin(), user.id, id);
+    if (!activated) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true, active_profile_id: id });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
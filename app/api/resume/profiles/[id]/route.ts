@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+
+import { validateProfileEdit } from "@/lib/profiles/edit";
+import { loadProfileVersion, updateProfileVersion } from "@/lib/profiles/versions";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * One profile version.
+ *
+ *   GET   /api/resume/profiles/:id -> { profile }
+ *   PATCH /api/resume/profiles/:id { roles?, skills?, seniority?, location_preference?, remote_intent?, reset? }
+ *
+ * Patched fields become user overrides and survive re-parsing the same
+ * resume; `reset` lists fields to hand back to the parser.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const profile = await loadProfileVersion(createSupabaseAdmin(), user.id, id);
+    if (!profile) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ profile });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const validated = validateProfileEdit(await req.json());
+    if (!validated.ok) {
+      return NextResponse.json({ error: "Invalid profile edit", fields: validated.errors }, { status: 422 });
+    }
+
+    const { id } = await params;
+    const profile = await updateProfileVersion(createSupabaseAdmin(), user.id, id, validated.edit);
+    if (!profile) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ profile });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+
+import { diffProfiles } from "@/lib/profiles/diff";
+import { loadProfileVersion } from "@/lib/profiles/versions";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+/**
+ * Field-level changes between two of the user's profile versions.
+ *
+ *   GET /api/resume/profiles/diff?from=<id>&to=<id> -> { from, to, changes }
+ */
+export async function GET(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const url = new URL(req.url);
+    const fromId = url.searchParams.get("from");
+    const toId = url.searchParams.get("to");
+    if (!fromId || !toId) {
+      return NextResponse.json({ error: "from and to profile ids are required" }, { status: 400 });
+    }
+
+    const admin = createSupabaseAdmin();
+    const [from, to] = await Promise.all([
+      loadProfileVersion(admin, user.id, fromId),
+      loadProfileVersion(admin, user.id, toId),
+    ]);
+
+    if (!from || !to) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      from: { id: from.id, version: from.version, resume_id: from.resume_id, created_at: from.created_at },
+      to: { id: to.id, version: to.version, resume_id: to.resume_id, created_at: to.created_at },
+      changes: diffProfiles(from, to),
+    });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
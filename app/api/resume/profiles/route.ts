@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+
+import { listProfileVersions } from "@/lib/profiles/versions";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+/**
+ * Parsed profile versions, newest first. One is marked `is_active`.
+ *
+ *   GET /api/resume/profiles -> { profiles }
+ */
+export async function GET(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const profiles = await listProfileVersions(createSupabaseAdmin(), user.id);
+    return NextResponse.json({ profiles });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+
+import { deleteResume, listResumes, loadResume, setDefaultResume, updateResume } from "@/lib/resumes/library";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+type ResumePatchBody = {
+  label?: unknown;
+  target_roles?: unknown;
+  is_default?: unknown;
+};
+
+const MAX_LABEL_LENGTH = 80;
+const MAX_TARGET_ROLES = 10;
+
+function parseTargetRoles(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every((r) => typeof r === "string")) return null;
+
+  const seen = new Set<string>();
+  const roles: string[] = [];
+  for (const raw of value as string[]) {
+    const role = raw.trim();
+    if (!role || seen.has(role.toLowerCase())) continue;
+    seen.add(role.toLowerCase());
+    roles.push(role);
+  }
+  return roles.length <= MAX_TARGET_ROLES ? roles : null;
+}
+
+/**
+ * One resume in the library.
+ *
+ *   PATCH  /api/resumes/:id { label?, target_roles?, is_default?: true } -> { resumes }
+ *   DELETE /api/resumes/:id -> { resumes }
+ *
+ * Both answer with the updated library, since a change to one resume can
+ * move the default.
+ *
+ * Making a resume the default also activates its latest profile version.
+ * Deleting the default hands it to the newest remaining resume.
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await req.json().catch(() => null)) as ResumePatchBody | null;
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const patch: { label?: string | null; target_roles?: string[] } = {};
+
+    if (body.label !== undefined) {
+      if (body.label !== null && typeof body.label !== "string") {
+        return NextResponse.json({ error: "label must be a string" }, { status: 400 });
+      }
+      const label = body.label?.trim() ?? "";
+      if (label.length > MAX_LABEL_LENGTH) {
+        return NextResponse.json({ error: `label must be at most ${MAX_LABEL_LENGTH} characters` }, { status: 400 });
+      }
+      patch.label = label || null;
+    }
+
+    if (body.target_roles !== undefined) {
+      const roles = parseTargetRoles(body.target_roles);
+      if (!roles) {
+        return NextResponse.json(
+          { error: `target_roles must be an array of at most ${MAX_TARGET_ROLES} strings` },
+          { status: 400 }
+        );
+      }
+      patch.target_roles = roles;
+    }
+
+    if (body.is_default !== undefined && body.is_default !== true) {
+      return NextResponse.json({ error: "is_default can only be set to true" }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const admin = createSupabaseAdmin();
+
+    if (body.is_default === true && !(await setDefaultResume(admin, user.id, id))) {
+      return NextResponse.json({ error: "Resume not found" }, { status: 404 });
+    }
+
+    const resume =
+      Object.keys(patch).length > 0 ? await updateResume(admin, user.id, id, patch) : await loadResume(admin, user.id, id);
+    if (!resume) {
+      return NextResponse.json({ error: "Resume not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ resumes: await listResumes(admin, user.id) });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const admin = createSupabaseAdmin();
+
+    if (!(await deleteResume(admin, user.id, id))) {
+      return NextResponse.json({ error: "Resume not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ resumes: await listResumes(admin, user.id) });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+
+import { listResumes } from "@/lib/resumes/library";
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+/**
+ * The user's resume library, default first.
+ *
+ *   GET /api/resumes -> { resumes }
+ */
+export async function GET(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const resumes = await listResumes(createSupabaseAdmin(), user.id);
+    return NextResponse.json({ resumes });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+import { listWebhookDeliveries, loadWebhookEndpointRow } from "@/lib/webhooks/endpoints";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Delivery log for one webhook endpoint, newest first.
+ *
+ *   GET /api/webhooks/:id/deliveries -> { deliveries }
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const admin = createSupabaseAdmin();
+
+    if (!(await loadWebhookEndpointRow(admin, user.id, id))) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const deliveries = await listWebhookDeliveries(admin, user.id, id);
+    return NextResponse.json({ deliveries });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
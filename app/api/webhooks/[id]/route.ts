@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+import { deleteWebhookEndpoint, parseWebhookEndpointInput, updateWebhookEndpoint } from "@/lib/webhooks/endpoints";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * One webhook endpoint. Deleting it drops its delivery log too.
+ *
+ *   PATCH  /api/webhooks/:id { any field of POST /api/webhooks, rotate_secret?: true } -> { endpoint, secret }
+ *          (secret is null unless rotated)
+ *   DELETE /api/webhooks/:id -> { ok }
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = parseWebhookEndpointInput(body, true);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const updated = await updateWebhookEndpoint(
+      createSupabaseAdmin(),
+      user.id,
+      id,
+      parsed.input,
+      body.rotate_secret === true
+    );
+    if (!updated) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(updated);
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await deleteWebhookEndpoint(createSupabaseAdmin(), user.id, id))) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
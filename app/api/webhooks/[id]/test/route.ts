@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+import { sendTestWebhook } from "@/lib/webhooks/deliver";
+import { loadWebhookEndpointRow } from "@/lib/webhooks/endpoints";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Send a signed `webhook.test` event to one endpoint, even if it's
+ * disabled, and return the logged delivery.
+ *
+ *   POST /api/webhooks/:id/test -> { delivery }
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const admin = createSupabaseAdmin();
+
+    const endpoint = await loadWebhookEndpointRow(admin, user.id, id);
+    if (!endpoint) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const delivery = await sendTestWebhook(admin, endpoint);
+    return NextResponse.json({ delivery });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+import { getUserFromRequest } from "@/lib/supabase/auth";
+import { createWebhookEndpoint, listWebhookEndpoints, parseWebhookEndpointInput } from "@/lib/webhooks/endpoints";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+/**
+ * Outbound webhook endpoints. Deliveries are POSTed as JSON and signed
+ * with the endpoint's secret in X-Joblio-Signature; the secret is only
+ * returned here on create.
+ *
+ *   GET  /api/webhooks -> { endpoints }
+ *   POST /api/webhooks { url, events, description?, min_match_score?, enabled? } -> { endpoint, secret }
+ */
+export async function GET(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const endpoints = await listWebhookEndpoints(createSupabaseAdmin(), user.id);
+    return NextResponse.json({ endpoints });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = parseWebhookEndpointInput(body, false);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const created = await createWebhookEndpoint(createSupabaseAdmin(), user.id, parsed.input);
+    return NextResponse.json(created);
+  } catch (err: unknown) {
+    return NextResponse.json({ error: getErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+
+import {
+  APPLICATION_STATUSES,
+  APPLICATION_STATUS_LABELS,
+  type ApplicationEvent,
+  type ApplicationStatus,
+} from "@/lib/applications/status";
+
+import { apiRequest } from "./api";
+
+export type BoardJob = {
+  id: string;
+  title: string;
+  company_name: string | null;
+  status: ApplicationStatus;
+  updated_at: string;
+};
+
+type Props = {
+  jobs: BoardJob[];
+  onMove: (jobId: string, status: ApplicationStatus) => Promise<void>;
+};
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+/**
+ * Kanban view of tracked jobs, one column per application status.
+ * Cards can be dragged between columns or moved with the select.
+ */
+export default function ApplicationBoard({ jobs, onMove }: Props) {
+  const [dragJobId, setDragJobId] = useState<string | null>(null);
+  const [historyJobId, setHistoryJobId] = useState<string | null>(null);
+  const [history, setHistory] = useState<ApplicationEvent[]>([]);
+  const [historyErr, setHistoryErr] = useState<string>("");
+
+  async function toggleHistory(jobId: string) {
+    if (historyJobId === jobId) {
+      setHistoryJobId(null);
+      return;
+    }
+
+    setHistoryJobId(jobId);
+    setHistory([]);
+    setHistoryErr("");
+
+    try {
+      const json = await apiRequest<{ events: ApplicationEvent[] }>(`/api/jobs/${jobId}/application`);
+      setHistory(json.events);
+    } catch (err) {
+      setHistoryErr(err instanceof Error ? err.message : "Failed to load history.");
+    }
+  }
+
+  async function drop(status: ApplicationStatus) {
+    const jobId = dragJobId;
+    setDragJobId(null);
+    if (!jobId) return;
+
+    const job = jobs.find((j) => j.id === jobId);
+    if (!job || job.status === status) return;
+
+    await onMove(jobId, status);
+  }
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2">
+      {APPLICATION_STATUSES.map((status) => {
+        const column = jobs.filter((j) => j.status === status);
+
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => drop(status)}
+            className="w-56 shrink-0 rounded bg-gray-50 p-2"
+          >
+            <div className="mb-2 text-sm font-medium text-gray-800">
+              {APPLICATION_STATUS_LABELS[status]}{" "}
+              <span className="text-gray-500">({column.length})</span>
+            </div>
+
+            <div className="space-y-2">
+              {column.map((j) => (
+                <div
+                  key={j.id}
+                  draggable
+                  onDragStart={() => setDragJobId(j.id)}
+                  className="cursor-grab rounded border bg-white p-2 text-sm"
+                >
+                  <div className="font-medium">{j.title}</div>
+                  <div className="text-gray-600">{j.company_name ?? "Unknown company"}</div>
+                  <div className="text-xs text-gray-500">Updated {formatDate(j.updated_at)}</div>
+
+                  <div className="mt-2 flex items-center justify-between gap-2">
+                    <select
+                      value={j.status}
+                      onChange={(e) => onMove(j.id, e.target.value as ApplicationStatus)}
+                      className="rounded border px-1 py-0.5 text-xs"
+                    >
+                      {APPLICATION_STATUSES.map((s) => (
+                        <option key={s} value={s}>
+                          {APPLICATION_STATUS_LABELS[s]}
+                        </option>
+                      ))}
+                    </select>
+
+                    <button
+                      type="button"
+                      onClick={() => toggleHistory(j.id)}
+                      className="text-xs underline"
+                    >
+                      {historyJobId === j.id ? "Hide" : "History"}
+                    </button>
+                  </div>
+
+                  {historyJobId === j.id && (
+                    <ul className="mt-2 space-y-0.5 text-xs text-gray-600">
+                      {historyErr && <li className="text-red-600">{historyErr}</li>}
+                      {history.map((ev) => (
+                        <li key={ev.id}>
+                          {formatDate(ev.created_at)}:{" "}
+                          {ev.from_status ? `${APPLICATION_STATUS_LABELS[ev.from_status]} → ` : ""}
+                          {APPLICATION_STATUS_LABELS[ev.to_status]}
+                          {ev.note ? ` (${ev.note})` : ""}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
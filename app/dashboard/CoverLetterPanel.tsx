@@ -0,0 +1,293 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import {
+  COVER_LETTER_LENGTHS,
+  COVER_LETTER_LENGTH_WORDS,
+  COVER_LETTER_TONES,
+  COVER_LETTER_TONE_LABELS,
+  coverLetterToMarkdown,
+  coverLetterToPlainText,
+  type CoverLetterDraft,
+  type CoverLetterLength,
+  type CoverLetterRevision,
+  type CoverLetterTone,
+} from "@/lib/coverLetters/options";
+
+import { apiRequest } from "./api";
+
+type Props = {
+  job: { id: string; title: string; company_name: string | null };
+  onClose: () => void;
+};
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function slugify(s: string) {
+  return s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+function download(fileName: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Generate, edit and export cover letters for one job. Each generation is
+ * a separate draft; saved edits are kept as revisions of the draft.
+ */
+export default function CoverLetterPanel({ job, onClose }: Props) {
+  const [drafts, setDrafts] = useState<CoverLetterDraft[]>([]);
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [text, setText] = useState("");
+  const [revisions, setRevisions] = useState<CoverLetterRevision[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const [tone, setTone] = useState<CoverLetterTone>("professional");
+  const [length, setLength] = useState<CoverLetterLength>("medium");
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiRequest<{ drafts: CoverLetterDraft[] }>(`/api/jobs/${job.id}/cover-letters`)
+      .then((json) => {
+        if (cancelled) return;
+        setDrafts(json.drafts);
+        setDraftId(json.drafts[0]?.id ?? null);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setMsg(err instanceof Error ? err.message : "Failed to load cover letters.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [job.id]);
+
+  const draft = drafts.find((d) => d.id === draftId) ?? null;
+
+  useEffect(() => {
+    setText(draft?.body ?? "");
+    setRevisions([]);
+    setShowHistory(false);
+  }, [draft?.id, draft?.body]);
+
+  async function generate() {
+    setBusy(true);
+    setMsg("");
+    try {
+      const json = await apiRequest<{ draft: CoverLetterDraft }>(`/api/jobs/${job.id}/cover-letters`, {
+        method: "POST",
+        body: JSON.stringify({ tone, length }),
+      });
+      setDrafts((ds) => [json.draft, ...ds]);
+      setDraftId(json.draft.id);
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to generate cover letter.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function save() {
+    if (!draft) return;
+    setBusy(true);
+    setMsg("");
+    try {
+      const json = await apiRequest<{ draft: CoverLetterDraft }>(`/api/jobs/${job.id}/cover-letters/${draft.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ body: text }),
+      });
+      setDrafts((ds) => ds.map((d) => (d.id === json.draft.id ? json.draft : d)));
+      setMsg("Saved.");
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to save cover letter.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove() {
+    if (!draft || !confirm("Delete this draft and its history?")) return;
+    setBusy(true);
+    setMsg("");
+    try {
+      await apiRequest(`/api/jobs/${job.id}/cover-letters/${draft.id}`, { method: "DELETE" });
+      const rest = drafts.filter((d) => d.id !== draft.id);
+      setDrafts(rest);
+      setDraftId(rest[0]?.id ?? null);
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to delete cover letter.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function toggleHistory() {
+    if (!draft) return;
+    if (showHistory) {
+      setShowHistory(false);
+      return;
+    }
+
+    setShowHistory(true);
+    try {
+      const json = await apiRequest<{ revisions: CoverLetterRevision[] }>(
+        `/api/jobs/${job.id}/cover-letters/${draft.id}`
+      );
+      setRevisions(json.revisions);
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to load history.");
+    }
+  }
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(coverLetterToPlainText(text));
+      setMsg("Copied.");
+    } catch {
+      setMsg("Copy failed; select the text and copy it manually.");
+    }
+  }
+
+  const baseName = `cover-letter-${slugify([job.company_name, job.title].filter(Boolean).join(" "))}`;
+  const dirty = draft !== null && text.trim() !== draft.body;
+
+  return (
+    <div className="mt-3 rounded-lg border border-gray-200 bg-white p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={tone}
+          onChange={(e) => setTone(e.target.value as CoverLetterTone)}
+          className="rounded-md border px-2 py-1"
+        >
+          {COVER_LETTER_TONES.map((t) => (
+            <option key={t} value={t}>
+              {COVER_LETTER_TONE_LABELS[t]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={length}
+          onChange={(e) => setLength(e.target.value as CoverLetterLength)}
+          className="rounded-md border px-2 py-1"
+        >
+          {COVER_LETTER_LENGTHS.map((l) => (
+            <option key={l} value={l}>
+              {l[0].toUpperCase() + l.slice(1)} (~{COVER_LETTER_LENGTH_WORDS[l]} words)
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className="rounded-md bg-black text-white px-3 py-1 disabled:opacity-60"
+          disabled={busy}
+          onClick={generate}
+        >
+          {busy ? "Working..." : drafts.length > 0 ? "Generate another" : "Generate cover letter"}
+        </button>
+
+        {drafts.length > 1 && (
+          <select
+            value={draftId ?? ""}
+            onChange={(e) => setDraftId(e.target.value)}
+            className="rounded-md border px-2 py-1"
+          >
+            {drafts.map((d) => (
+              <option key={d.id} value={d.id}>
+                {formatDateTime(d.created_at)} · {COVER_LETTER_TONE_LABELS[d.tone]}, {d.length}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <button type="button" className="ml-auto text-gray-600 underline" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      {draft && (
+        <>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={14}
+            className="mt-3 w-full rounded-md border px-2 py-1 font-serif"
+          />
+
+          <div className="mt-2 flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              className="rounded-md border px-3 py-1 disabled:opacity-60"
+              disabled={!dirty || busy}
+              onClick={save}
+            >
+              Save edits
+            </button>
+            <button type="button" className="text-black underline" onClick={copy}>
+              Copy
+            </button>
+            <button
+              type="button"
+              className="text-black underline"
+              onClick={() => download(`${baseName}.md`, coverLetterToMarkdown(text, job), "text/markdown")}
+            >
+              Download .md
+            </button>
+            <button
+              type="button"
+              className="text-black underline"
+              onClick={() => download(`${baseName}.txt`, coverLetterToPlainText(text), "text/plain")}
+            >
+              Download .txt
+            </button>
+            <button type="button" className="text-black underline" onClick={toggleHistory}>
+              {showHistory ? "Hide history" : "History"}
+            </button>
+            <button type="button" className="text-red-700 underline" disabled={busy} onClick={remove}>
+              Delete draft
+            </button>
+            <span className="text-xs text-gray-500">
+              {draft.provider}
+              {draft.model ? ` · ${draft.model}` : ""}
+            </span>
+          </div>
+
+          {showHistory && (
+            <ul className="mt-2 space-y-1">
+              {revisions.map((r) => (
+                <li key={r.id} className="flex items-center gap-2">
+                  <span className="text-gray-600">
+                    {formatDateTime(r.created_at)} · {r.source === "generated" ? "Generated" : "Edited"}
+                  </span>
+                  <button type="button" className="text-black underline" onClick={() => setText(r.body)}>
+                    Restore
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      {msg && <p className="mt-2 text-gray-700">{msg}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import {
+  DIGEST_FREQUENCIES,
+  DIGEST_FREQUENCY_LABELS,
+  type DigestFrequency,
+  type NotificationSettings,
+} from "@/lib/notifications/settings";
+
+import { apiRequest } from "./api";
+
+const MIN_SCORE_OPTIONS = [0, 50, 60, 70, 80, 90];
+
+/**
+ * Email digest of new jobs sync found: how often, and how good a match a
+ * job must be to make it in.
+ */
+export default function DigestSettings() {
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [msg, setMsg] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiRequest<{ settings: NotificationSettings }>("/api/notifications/settings")
+      .then((json) => {
+        if (!cancelled) setSettings(json.settings);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setMsg(err instanceof Error ? err.message : "Failed to load email settings.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function update(patch: Partial<Pick<NotificationSettings, "digest_frequency" | "digest_min_score">>) {
+    setMsg("");
+    try {
+      const json = await apiRequest<{ settings: NotificationSettings }>("/api/notifications/settings", {
+        method: "PATCH",
+        body: JSON.stringify(patch),
+      });
+      setSettings(json.settings);
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to update email settings.");
+    }
+  }
+
+  if (!settings) {
+    return msg ? <p className="mt-3 text-sm text-red-600">{msg}</p> : null;
+  }
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-gray-700">
+      <label className="flex items-center gap-2">
+        Email digest
+        <select
+          value={settings.digest_frequency}
+          onChange={(e) => update({ digest_frequency: e.target.value as DigestFrequency })}
+          className="rounded-md border px-2 py-1"
+        >
+          {DIGEST_FREQUENCIES.map((f) => (
+            <option key={f} value={f}>
+              {DIGEST_FREQUENCY_LABELS[f]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {settings.digest_frequency !== "off" && (
+        <label className="flex items-center gap-2">
+          for jobs matching
+          <select
+            value={settings.digest_min_score}
+            onChange={(e) => update({ digest_min_score: Number(e.target.value) })}
+            className="rounded-md border px-2 py-1"
+          >
+            {/* Keep a custom threshold selectable even if it isn't a preset. */}
+            {Array.from(new Set([...MIN_SCORE_OPTIONS, settings.digest_min_score]))
+              .sort((a, b) => a - b)
+              .map((s) => (
+                <option key={s} value={s}>
+                  {s === 0 ? "any score" : `${s}%+`}
+                </option>
+              ))}
+          </select>
+        </label>
+      )}
+
+      {settings.last_digest_sent_at && (
+        <span>Last sent {new Date(settings.last_digest_sent_at).toLocaleString()}</span>
+      )}
+
+      {msg && <span className="text-red-600">{msg}</span>}
+    </div>
+  );
+}
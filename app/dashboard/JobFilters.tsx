@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+
+import {
+  JOB_LIST_SORTS,
+  JOB_LIST_SORT_LABELS,
+  JOB_SOURCES,
+  JOB_SOURCE_LABELS,
+  type JobListFilters,
+  type JobListSort,
+} from "@/lib/jobs/list";
+import type { JobSource } from "@/lib/jobs/normalize";
+import { EMPLOYMENT_TYPES, EMPLOYMENT_TYPE_LABELS, POSTED_WITHIN_DAYS, type EmploymentType } from "@/lib/jobs/savedSearches";
+
+type Props = {
+  filters: JobListFilters;
+  onChange: (filters: JobListFilters) => void;
+};
+
+const SALARY_STEPS = [50000, 75000, 100000, 150000, 200000, 300000];
+
+function formatSalaryStep(n: number) {
+  return `${n / 1000}k/yr`;
+}
+
+/**
+ * Search box and filters for the jobs list. Selects apply at once; the
+ * text fields apply on Enter or "Search".
+ */
+export default function JobFilters({ filters, onChange }: Props) {
+  const [q, setQ] = useState(filters.q ?? "");
+  const [company, setCompany] = useState(filters.company ?? "");
+
+  const set = (patch: Partial<JobListFilters>) => onChange({ ...filters, ...patch });
+  const types = filters.employment_types ?? [];
+
+  function toggleType(t: EmploymentType) {
+    const next = types.includes(t) ? types.filter((x) => x !== t) : [...types, t];
+    set({ employment_types: next.length > 0 ? next : undefined });
+  }
+
+  function reset() {
+    setQ("");
+    setCompany("");
+    onChange({ sort: filters.sort });
+  }
+
+  return (
+    <div className="mt-3 space-y-2 text-sm">
+      <form
+        className="flex flex-wrap gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          set({ q: q.trim() || undefined, company: company.trim() || undefined });
+        }}
+      >
+        <input
+          value={q}
+          onChange={(e) => setQ(e.target.value)}
+          placeholder="Search title, company or description"
+          className="min-w-[16rem] flex-1 rounded-md border px-2 py-1"
+        />
+        <input
+          value={company}
+          onChange={(e) => setCompany(e.target.value)}
+          placeholder="Company"
+          className="rounded-md border px-2 py-1"
+        />
+        <button type="submit" className="rounded-md border px-3 py-1">
+          Search
+        </button>
+        <button type="button" className="text-black underline" onClick={reset}>
+          Clear filters
+        </button>
+      </form>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2">
+          Sort
+          <select
+            value={filters.sort ?? "recent"}
+            onChange={(e) => set({ sort: e.target.value as JobListSort })}
+            className="rounded-md border px-2 py-1"
+          >
+            {JOB_LIST_SORTS.map((s) => (
+              <option key={s} value={s}>
+                {JOB_LIST_SORT_LABELS[s]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2">
+          Min match
+          <select
+            value={filters.min_score ?? 0}
+            onChange={(e) => set({ min_score: Number(e.target.value) || undefined })}
+            className="rounded-md border px-2 py-1"
+          >
+            <option value={0}>Any</option>
+            <option value={40}>40+</option>
+            <option value={60}>60+</option>
+            <option value={80}>80+</option>
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2">
+          Salary
+          <select
+            value={filters.min_salary ?? 0}
+            onChange={(e) => set({ min_salary: Number(e.target.value) || undefined })}
+            className="rounded-md border px-2 py-1"
+          >
+            <option value={0}>Any min</option>
+            {SALARY_STEPS.map((n) => (
+              <option key={n} value={n} disabled={filters.max_salary !== undefined && n > filters.max_salary}>
+                {formatSalaryStep(n)}+
+              </option>
+            ))}
+          </select>
+          to
+          <select
+            value={filters.max_salary ?? ""}
+            onChange={(e) => set({ max_salary: e.target.value ? Number(e.target.value) : undefined })}
+            className="rounded-md border px-2 py-1"
+          >
+            <option value="">Any max</option>
+            {SALARY_STEPS.map((n) => (
+              <option key={n} value={n} disabled={n < (filters.min_salary ?? 0)}>
+                {formatSalaryStep(n)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <select
+          value={filters.remote === undefined ? "" : String(filters.remote)}
+          onChange={(e) => set({ remote: e.target.value ? e.target.value === "true" : undefined })}
+          className="rounded-md border px-2 py-1"
+        >
+          <option value="">Remote or on-site</option>
+          <option value="true">Remote only</option>
+          <option value="false">On-site only</option>
+        </select>
+
+        <select
+          value={filters.posted_within_days ?? ""}
+          onChange={(e) => set({ posted_within_days: e.target.value ? Number(e.target.value) : undefined })}
+          className="rounded-md border px-2 py-1"
+        >
+          <option value="">Any date</option>
+          {POSTED_WITHIN_DAYS.map((d) => (
+            <option key={d} value={d}>
+              {d === 1 ? "Past day" : `Past ${d} days`}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={filters.source ?? ""}
+          onChange={(e) => set({ source: (e.target.value || undefined) as JobSource | undefined })}
+          className="rounded-md border px-2 py-1"
+        >
+          <option value="">All sources</option>
+          {JOB_SOURCES.map((s) => (
+            <option key={s} value={s}>
+              {JOB_SOURCE_LABELS[s]}
+            </option>
+          ))}
+        </select>
+
+        {EMPLOYMENT_TYPES.map((t) => (
+          <label key={t} className="flex items-center gap-1">
+            <input type="checkbox" checked={types.includes(t)} onChange={() => toggleType(t)} />
+            {EMPLOYMENT_TYPE_LABELS[t]}
+          </label>
+        ))}
+
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={filters.include_closed ?? false}
+            onChange={(e) => set({ include_closed: e.target.checked || undefined })}
+          />
+          Show closed
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import type { KeywordCoverage, KeywordGapAnalysis, KeywordImportance } from "@/lib/jobs/gaps";
+
+import { apiRequest } from "./api";
+
+type Props = {
+  jobId: string;
+};
+
+const COVERAGE_STYLES: Record<KeywordCoverage, string> = {
+  matched: "bg-green-100 text-green-800",
+  partial: "bg-yellow-100 text-yellow-800",
+  missing: "bg-red-100 text-red-800",
+};
+
+const IMPORTANCE_LABELS: Record<KeywordImportance, string> = {
+  required: "Required",
+  nice_to_have: "Nice to have",
+};
+
+/**
+ * The posting's keywords, marked by whether the resume covers them.
+ * Hover a term for where it appears in the posting and the resume.
+ */
+export default function KeywordGaps({ jobId }: Props) {
+  const [analysis, setAnalysis] = useState<KeywordGapAnalysis | null>(null);
+  const [msg, setMsg] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiRequest<{ analysis: KeywordGapAnalysis }>(`/api/jobs/${jobId}/keyword-gaps`, { method: "POST" })
+      .then((json) => {
+        if (!cancelled) setAnalysis(json.analysis);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setMsg(err instanceof Error ? err.message : "Failed to analyze keywords.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId]);
+
+  if (!analysis) {
+    return <p className="mt-2 text-sm text-gray-600">{msg || "Analyzing keywords..."}</p>;
+  }
+
+  if (analysis.keywords.length === 0) {
+    return <p className="mt-2 text-sm text-gray-600">No skills or keywords found in this posting.</p>;
+  }
+
+  return (
+    <div className="mt-2 space-y-2 text-sm">
+      {(["required", "nice_to_have"] as const).map((importance) => {
+        const terms = analysis.keywords.filter((k) => k.importance === importance);
+        if (terms.length === 0) return null;
+        const c = analysis.counts[importance];
+
+        return (
+          <div key={importance}>
+            <p className="text-gray-700">
+              <span className="font-medium">{IMPORTANCE_LABELS[importance]}</span> · {c.matched} covered
+              {c.partial > 0 ? `, ${c.partial} partly` : ""}
+              {c.missing > 0 ? `, ${c.missing} missing` : ""}
+            </p>
+            <ul className="mt-1 flex flex-wrap gap-1">
+              {terms.map((k) => (
+                <li
+                  key={k.term}
+                  className={`rounded px-2 py-0.5 ${COVERAGE_STYLES[k.coverage]}`}
+                  title={[
+                    k.job_excerpt ? `Posting: ${k.job_excerpt}` : "",
+                    k.matched_as ? `Resume says: ${k.matched_as}` : "",
+                    k.resume_locations.length > 0 ? `Found in: ${k.resume_locations.join(", ")}` : "Not on your resume",
+                  ]
+                    .filter(Boolean)
+                    .join("\n")}
+                >
+                  {k.term}
+                  {k.matched_as ? ` (~${k.matched_as})` : ""}
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
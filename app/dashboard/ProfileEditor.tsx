@@ -0,0 +1,258 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { seniorityLevel } from "@/lib/jobs/match";
+import type { EditableProfileField, ProfileEdit } from "@/lib/profiles/edit";
+import type { ProfileVersion } from "@/lib/profiles/versions";
+import { REMOTE_INTENT_OPTIONS, SENIORITY_OPTIONS } from "@/lib/resume/profileOptions";
+
+import { apiRequest } from "./api";
+
+type Props = {
+  profileId: string;
+  onSaved: (profile: ProfileVersion) => void;
+  onClose: () => void;
+};
+
+type Draft = Required<Omit<ProfileEdit, "reset">>;
+
+const REMOTE_INTENT_LABELS: Record<(typeof REMOTE_INTENT_OPTIONS)[number], string> = {
+  remote: "Remote only",
+  hybrid: "Hybrid",
+  onsite: "On-site",
+  flexible: "Flexible",
+};
+
+function toDraft(p: ProfileVersion): Draft {
+  // Parsed seniority is free text ("Senior-level"); map it onto the options.
+  const level = seniorityLevel(p.seniority);
+  const seniority = level === null ? "" : SENIORITY_OPTIONS[level];
+  const remote = REMOTE_INTENT_OPTIONS.find((r) => (p.remote_intent ?? "").toLowerCase().includes(r)) ?? "";
+  return {
+    roles: p.roles ?? [],
+    skills: p.skills ?? [],
+    seniority,
+    location_preference: p.location_preference ?? "",
+    remote_intent: remote,
+  };
+}
+
+function changedFields(before: Draft, after: Draft): Partial<Draft> {
+  const out: Partial<Draft> = {};
+  for (const key of Object.keys(after) as Array<keyof Draft>) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) Object.assign(out, { [key]: after[key] });
+  }
+  return out;
+}
+
+function ListEditor({
+  label,
+  items,
+  edited,
+  onChange,
+}: {
+  label: string;
+  items: string[];
+  edited: boolean;
+  onChange: (items: string[]) => void;
+}) {
+  const [input, setInput] = useState("");
+
+  function add() {
+    const v = input.trim();
+    if (!v) return;
+    if (!items.some((x) => x.toLowerCase() === v.toLowerCase())) onChange([...items, v]);
+    setInput("");
+  }
+
+  return (
+    <div>
+      <p className="text-sm font-medium text-gray-800">
+        {label} {edited && <span className="text-xs font-normal text-gray-500">(edited)</span>}
+      </p>
+      <div className="mt-1 flex flex-wrap gap-1">
+        {items.map((item) => (
+          <span key={item} className="inline-flex items-center gap-1 rounded bg-gray-100 px-2 py-0.5 text-sm">
+            {item}
+            <button
+              type="button"
+              aria-label={`Remove ${item}`}
+              className="text-gray-500 hover:text-black"
+              onClick={() => onChange(items.filter((x) => x !== item))}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+      </div>
+      <div className="mt-2 flex gap-2">
+        <input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              add();
+            }
+          }}
+          placeholder={`Add ${label.toLowerCase().replace(/s$/, "")}`}
+          className="rounded-md border px-2 py-1 text-sm"
+        />
+        <button type="button" className="rounded-md border px-3 py-1 text-sm" onClick={add}>
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Edit the fields sync and matching rely on. Saved fields are marked as
+ * overrides, so re-parsing the same resume keeps them.
+ */
+export default function ProfileEditor({ profileId, onSaved, onClose }: Props) {
+  const [profile, setProfile] = useState<ProfileVersion | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiRequest<{ profile: ProfileVersion }>(`/api/resume/profiles/${profileId}`)
+      .then((json) => {
+        if (cancelled) return;
+        setProfile(json.profile);
+        setDraft(toDraft(json.profile));
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setMsg(err instanceof Error ? err.message : "Failed to load profile.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId]);
+
+  async function save(edit: ProfileEdit) {
+    setSaving(true);
+    setMsg("");
+
+    try {
+      const json = await apiRequest<{ profile: ProfileVersion }>(`/api/resume/profiles/${profileId}`, {
+        method: "PATCH",
+        body: JSON.stringify(edit),
+      });
+      setProfile(json.profile);
+      setDraft(toDraft(json.profile));
+      setMsg("Saved.");
+      onSaved(json.profile);
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to save profile.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!profile || !draft) {
+    return <p className="px-4 py-3 text-sm text-gray-600">{msg || "Loading profile..."}</p>;
+  }
+
+  const edited = (f: EditableProfileField) => profile.overridden_fields?.includes(f) ?? false;
+  const changes = changedFields(toDraft(profile), draft);
+  const dirty = Object.keys(changes).length > 0;
+
+  return (
+    <div className="space-y-4 px-4 py-3">
+      <ListEditor
+        label="Roles"
+        items={draft.roles}
+        edited={edited("roles")}
+        onChange={(roles) => setDraft({ ...draft, roles })}
+      />
+      <ListEditor
+        label="Skills"
+        items={draft.skills}
+        edited={edited("skills")}
+        onChange={(skills) => setDraft({ ...draft, skills })}
+      />
+
+      <div className="flex flex-wrap gap-4">
+        <label className="text-sm">
+          <span className="block font-medium text-gray-800">
+            Seniority {edited("seniority") && <span className="text-xs font-normal text-gray-500">(edited)</span>}
+          </span>
+          <select
+            value={draft.seniority}
+            onChange={(e) => setDraft({ ...draft, seniority: e.target.value as Draft["seniority"] })}
+            className="mt-1 rounded-md border px-2 py-1"
+          >
+            <option value="">Not set</option>
+            {SENIORITY_OPTIONS.map((s) => (
+              <option key={s} value={s}>
+                {s[0].toUpperCase() + s.slice(1)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="text-sm">
+          <span className="block font-medium text-gray-800">
+            Location{" "}
+            {edited("location_preference") && <span className="text-xs font-normal text-gray-500">(edited)</span>}
+          </span>
+          <input
+            value={draft.location_preference}
+            onChange={(e) => setDraft({ ...draft, location_preference: e.target.value })}
+            placeholder="e.g. Austin, TX"
+            className="mt-1 rounded-md border px-2 py-1"
+          />
+        </label>
+
+        <label className="text-sm">
+          <span className="block font-medium text-gray-800">
+            Remote {edited("remote_intent") && <span className="text-xs font-normal text-gray-500">(edited)</span>}
+          </span>
+          <select
+            value={draft.remote_intent}
+            onChange={(e) => setDraft({ ...draft, remote_intent: e.target.value as Draft["remote_intent"] })}
+            className="mt-1 rounded-md border px-2 py-1"
+          >
+            <option value="">Not set</option>
+            {REMOTE_INTENT_OPTIONS.map((r) => (
+              <option key={r} value={r}>
+                {REMOTE_INTENT_LABELS[r]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          className="rounded-md bg-black text-white px-4 py-2 disabled:opacity-60"
+          disabled={!dirty || saving}
+          onClick={() => save(changes)}
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+        {profile.overridden_fields?.length > 0 && (
+          <button
+            type="button"
+            className="text-sm text-black underline"
+            disabled={saving}
+            onClick={() => save({ reset: profile.overridden_fields })}
+          >
+            Use parsed values on next re-parse
+          </button>
+        )}
+        <button type="button" className="text-sm text-gray-600 underline" onClick={onClose}>
+          Close
+        </button>
+        {msg && <span className="text-sm text-gray-700">{msg}</span>}
+      </div>
+    </div>
+  );
+}
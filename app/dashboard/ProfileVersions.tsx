@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+import type { ProfileFieldDiff } from "@/lib/profiles/diff";
+import type { ProfileVersionSummary } from "@/lib/profiles/versions";
+
+import { apiRequest } from "./api";
+import ProfileEditor from "./ProfileEditor";
+
+type Props = {
+  /** Bump after a new parse: reloads the list and opens the newest version. */
+  refreshKey: number;
+  /** Bump to reload without opening the editor, e.g. after the default resume changed. */
+  reloadKey?: number;
+  /** The active profile was switched or edited. */
+  onActiveChanged?: () => void;
+};
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatValue(v: unknown): string {
+  if (v === null || v === undefined || v === "") return "—";
+  if (typeof v === "string" || typeof v === "number") return String(v);
+  return Object.values(v as Record<string, unknown>)
+    .filter((x) => x !== null && x !== "")
+    .join(" · ");
+}
+
+function versionLabel(p: ProfileVersionSummary) {
+  return `${p.file_name ?? "Resume"} v${p.version}`;
+}
+
+/**
+ * Parsed profile versions with the active one marked. Any version can be
+ * edited or activated, and two can be compared field by field. After a
+ * new parse the editor opens on the new version.
+ */
+export default function ProfileVersions({ refreshKey, reloadKey = 0, onActiveChanged }: Props) {
+  const [profiles, setProfiles] = useState<ProfileVersionSummary[]>([]);
+  const [msg, setMsg] = useState("");
+  const [reloads, setReloads] = useState(0);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const openedForKey = useRef(0);
+
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const [changes, setChanges] = useState<ProfileFieldDiff[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiRequest<{ profiles: ProfileVersionSummary[] }>("/api/resume/profiles")
+      .then((json) => {
+        if (cancelled) return;
+        setProfiles(json.profiles);
+        setFromId((id) => id || json.profiles[1]?.id || "");
+        setToId((id) => id || json.profiles[0]?.id || "");
+        if (refreshKey > openedForKey.current) {
+          openedForKey.current = refreshKey;
+          setEditingId(json.profiles[0]?.id ?? null);
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setMsg(err instanceof Error ? err.message : "Failed to load profiles.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey, reloadKey, reloads]);
+
+  async function activate(id: string) {
+    setMsg("");
+    try {
+      await apiRequest(`/api/resume/profiles/${id}/activate`, { method: "POST" });
+      setReloads((n) => n + 1);
+      onActiveChanged?.();
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to activate profile.");
+    }
+  }
+
+  async function compare() {
+    setMsg("");
+    setChanges(null);
+    if (!fromId || !toId) return;
+
+    try {
+      const params = new URLSearchParams({ from: fromId, to: toId });
+      const json = await apiRequest<{ changes: ProfileFieldDiff[] }>(`/api/resume/profiles/diff?${params}`);
+      setChanges(json.changes);
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to compare profiles.");
+    }
+  }
+
+  if (profiles.length === 0) {
+    return msg ? <p className="mt-3 text-sm text-red-600">{msg}</p> : null;
+  }
+
+  return (
+    <div className="mt-4 rounded-lg border border-gray-200 bg-white">
+      <div className="px-4 py-3 border-b border-gray-100">
+        <p className="text-sm font-medium text-gray-800">Profile versions</p>
+        <p className="text-xs text-gray-600">
+          Sync and match scores use the active version; resumes with target roles use their latest version for those.
+        </p>
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {profiles.map((p) => (
+          <li key={p.id} className="flex items-center justify-between gap-3 px-4 py-2">
+            <div className="text-sm">
+              <span className="font-medium text-gray-900">{versionLabel(p)}</span>
+              <span className="text-gray-600">
+                {" "}
+                · {formatDateTime(p.created_at)}
+                {p.roles?.length ? ` · ${p.roles.slice(0, 2).join(", ")}` : ""}
+              </span>
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                className="text-sm text-black underline"
+                onClick={() => setEditingId((id) => (id === p.id ? null : p.id))}
+              >
+                {editingId === p.id ? "Close editor" : "Edit"}
+              </button>
+              {p.is_active ? (
+                <span className="rounded bg-green-100 px-2 py-0.5 text-xs text-green-800">Active</span>
+              ) : (
+                <button type="button" className="text-sm text-black underline" onClick={() => activate(p.id)}>
+                  Make active
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {editingId && (
+        <div className="border-t border-gray-100">
+          <ProfileEditor
+            key={editingId}
+            profileId={editingId}
+            onClose={() => setEditingId(null)}
+            onSaved={(saved) => {
+              setReloads((n) => n + 1);
+              if (saved.is_active) onActiveChanged?.();
+            }}
+          />
+        </div>
+      )}
+
+      {profiles.length > 1 && (
+        <div className="px-4 py-3 border-t border-gray-100">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span>Compare</span>
+            <select value={fromId} onChange={(e) => setFromId(e.target.value)} className="rounded-md border px-2 py-1">
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {versionLabel(p)}
+                </option>
+              ))}
+            </select>
+            <span>→</span>
+            <select value={toId} onChange={(e) => setToId(e.target.value)} className="rounded-md border px-2 py-1">
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {versionLabel(p)}
+                </option>
+              ))}
+            </select>
+            <button type="button" className="rounded-md border px-3 py-1" onClick={compare}>
+              Diff
+            </button>
+          </div>
+
+          {changes && changes.length === 0 && <p className="mt-2 text-sm text-gray-600">No differences.</p>}
+
+          {changes && changes.length > 0 && (
+            <ul className="mt-2 space-y-1 text-sm">
+              {changes.map((c) => (
+                <li key={c.field}>
+                  <span className="font-medium">{c.field}</span>:{" "}
+                  {c.kind === "value" ? (
+                    <>
+                      <span className="text-red-700 line-through">{formatValue(c.from)}</span> →{" "}
+                      <span className="text-green-700">{formatValue(c.to)}</span>
+                    </>
+                  ) : (
+                    <>
+                      {c.added.map((x, i) => (
+                        <span key={`a${i}`} className="mr-2 text-green-700">
+                          +{formatValue(x)}
+                        </span>
+                      ))}
+                      {c.removed.map((x, i) => (
+                        <span key={`r${i}`} className="mr-2 text-red-700">
+                          −{formatValue(x)}
+                        </span>
+                      ))}
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {msg && <p className="px-4 pb-3 text-sm text-red-600">{msg}</p>}
+    </div>
+  );
+}
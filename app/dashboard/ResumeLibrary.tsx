@@ -0,0 +1,197 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import type { ResumeSummary } from "@/lib/resumes/library";
+
+import { apiRequest } from "./api";
+
+type Props = {
+  /** Bump to reload the list, e.g. after an upload. */
+  refreshKey: number;
+  /** The resume "Extract text" works on. */
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  /** The default resume or a resume's target roles changed. */
+  onChanged?: () => void;
+};
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+function ResumeItem({
+  resume,
+  selected,
+  busy,
+  onSelect,
+  onPatch,
+  onDelete,
+}: {
+  resume: ResumeSummary;
+  selected: boolean;
+  busy: boolean;
+  onSelect: () => void;
+  onPatch: (patch: { label?: string | null; target_roles?: string[]; is_default?: true }) => void;
+  onDelete: () => void;
+}) {
+  const [label, setLabel] = useState(resume.label ?? "");
+  const [roles, setRoles] = useState(resume.target_roles.join(", "));
+
+  const parsedRoles = roles
+    .split(",")
+    .map((r) => r.trim())
+    .filter(Boolean);
+  const dirty = label.trim() !== (resume.label ?? "") || parsedRoles.join("|") !== resume.target_roles.join("|");
+
+  return (
+    <li className={`px-4 py-3 ${selected ? "bg-gray-50" : ""}`}>
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm">
+          <input type="radio" name="resume" checked={selected} onChange={onSelect} />
+          <span className="font-medium text-gray-900">{resume.label || resume.file_name}</span>
+          <span className="text-gray-600">
+            {resume.label ? `${resume.file_name} · ` : ""}
+            {formatDate(resume.created_at)}
+            {resume.latest_version ? ` · v${resume.latest_version}` : " · not parsed"}
+          </span>
+        </label>
+        <div className="flex items-center gap-3">
+          {resume.is_default ? (
+            <span className="rounded bg-green-100 px-2 py-0.5 text-xs text-green-800">Default</span>
+          ) : (
+            <button
+              type="button"
+              className="text-sm text-black underline"
+              disabled={busy}
+              onClick={() => onPatch({ is_default: true })}
+            >
+              Make default
+            </button>
+          )}
+          <button type="button" className="text-sm text-red-700 underline" disabled={busy} onClick={onDelete}>
+            Delete
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Name, e.g. Backend"
+          className="rounded-md border px-2 py-1"
+        />
+        <input
+          value={roles}
+          onChange={(e) => setRoles(e.target.value)}
+          placeholder="Target roles, comma separated"
+          className="min-w-[16rem] flex-1 rounded-md border px-2 py-1"
+        />
+        <button
+          type="button"
+          className="rounded-md border px-3 py-1 disabled:opacity-60"
+          disabled={!dirty || busy}
+          onClick={() => onPatch({ label: label.trim() || null, target_roles: parsedRoles })}
+        >
+          Save
+        </button>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * The user's resumes. One is the default (its profile is the active one);
+ * others can be bound to target roles so sync searches and scores those
+ * roles with that resume.
+ */
+export default function ResumeLibrary({ refreshKey, selectedId, onSelect, onChanged }: Props) {
+  const [resumes, setResumes] = useState<ResumeSummary[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [msg, setMsg] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiRequest<{ resumes: ResumeSummary[] }>("/api/resumes")
+      .then((json) => {
+        if (!cancelled) setResumes(json.resumes);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setMsg(err instanceof Error ? err.message : "Failed to load resumes.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  useEffect(() => {
+    if (resumes.length > 0 && !resumes.some((r) => r.id === selectedId)) onSelect(resumes[0].id);
+  }, [resumes, selectedId, onSelect]);
+
+  async function patch(id: string, body: { label?: string | null; target_roles?: string[]; is_default?: true }) {
+    setBusyId(id);
+    setMsg("");
+    try {
+      const json = await apiRequest<{ resumes: ResumeSummary[] }>(`/api/resumes/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(body),
+      });
+      setResumes(json.resumes);
+      if (body.is_default || body.target_roles) onChanged?.();
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to update resume.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function remove(resume: ResumeSummary) {
+    if (!confirm(`Delete ${resume.label || resume.file_name} and its parsed profiles?`)) return;
+
+    setBusyId(resume.id);
+    setMsg("");
+    try {
+      const json = await apiRequest<{ resumes: ResumeSummary[] }>(`/api/resumes/${resume.id}`, { method: "DELETE" });
+      setResumes(json.resumes);
+      onChanged?.();
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to delete resume.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  if (resumes.length === 0) {
+    return msg ? <p className="mt-3 text-sm text-red-600">{msg}</p> : null;
+  }
+
+  return (
+    <div className="mt-4 rounded-lg border border-gray-200 bg-white">
+      <div className="px-4 py-3 border-b border-gray-100">
+        <p className="text-sm font-medium text-gray-800">Your resumes</p>
+        <p className="text-xs text-gray-600">
+          Roles without a bound resume use the default. Pick a resume to extract and parse it.
+        </p>
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {resumes.map((r) => (
+          <ResumeItem
+            key={`${r.id}:${r.label ?? ""}:${r.target_roles.join("|")}`}
+            resume={r}
+            selected={r.id === selectedId}
+            busy={busyId === r.id}
+            onSelect={() => onSelect(r.id)}
+            onPatch={(body) => patch(r.id, body)}
+            onDelete={() => remove(r)}
+          />
+        ))}
+      </ul>
+
+      {msg && <p className="px-4 pb-3 text-sm text-red-600">{msg}</p>}
+    </div>
+  );
+}
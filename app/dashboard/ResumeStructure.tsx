@@ -0,0 +1,82 @@
+"use client";
+
+import type { ExperienceEntry, ResumeSection, ResumeSectionKind } from "@/lib/resume/sections";
+
+type Props = {
+  sections: ResumeSection[];
+  experience: ExperienceEntry[];
+};
+
+const SECTION_LABELS: Record<ResumeSectionKind, string> = {
+  contact: "Contact",
+  summary: "Summary",
+  experience: "Experience",
+  education: "Education",
+  skills: "Skills",
+  projects: "Projects",
+  certifications: "Certifications",
+  other: "Other",
+};
+
+function formatDate(d: string | null) {
+  if (!d) return "?";
+  const [year, month] = d.split("-");
+  if (!month) return year;
+  return new Date(Number(year), Number(month) - 1).toLocaleDateString(undefined, { month: "short", year: "numeric" });
+}
+
+function formatRange(e: ExperienceEntry) {
+  return `${formatDate(e.start_date)} – ${e.is_current ? "Present" : formatDate(e.end_date)}`;
+}
+
+/**
+ * Sectioned view of an extracted resume. Experience sections list the
+ * parsed entries; other sections show their text as-is.
+ */
+export default function ResumeStructure({ sections, experience }: Props) {
+  if (sections.length === 0) {
+    return <p className="p-4 text-sm text-gray-600">No sections detected.</p>;
+  }
+
+  // Entries are parsed across all experience sections; list them under the first.
+  const experienceAt = sections.findIndex((s) => s.kind === "experience");
+
+  return (
+    <div className="divide-y divide-gray-100">
+      {sections.map((s, i) => (
+        <section key={`${s.kind}-${i}`} className="p-4">
+          <div className="flex items-baseline gap-2">
+            <h3 className="text-sm font-semibold text-gray-900">{s.heading ?? SECTION_LABELS[s.kind]}</h3>
+            {s.heading && s.kind !== "other" && (
+              <span className="text-xs text-gray-500">{SECTION_LABELS[s.kind]}</span>
+            )}
+          </div>
+
+          {i === experienceAt && experience.length > 0 ? (
+            <ul className="mt-2 space-y-3">
+              {experience.map((e, j) => (
+                <li key={j} className="rounded border border-gray-100 p-3">
+                  <div className="flex flex-wrap items-baseline justify-between gap-2">
+                    <p className="text-sm font-medium text-gray-900">
+                      {e.title ?? "Untitled role"}
+                      {e.company && <span className="font-normal text-gray-700"> · {e.company}</span>}
+                    </p>
+                    <p className="text-xs text-gray-600">
+                      {formatRange(e)}
+                      {e.location && ` · ${e.location}`}
+                    </p>
+                  </div>
+                  {e.description && (
+                    <pre className="mt-2 whitespace-pre-wrap text-sm text-gray-700">{e.description}</pre>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <pre className="mt-2 whitespace-pre-wrap text-sm text-gray-800">{s.text}</pre>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
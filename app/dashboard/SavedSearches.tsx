@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from "react";
+
+import {
+  EMPLOYMENT_TYPES,
+  EMPLOYMENT_TYPE_LABELS,
+  POSTED_WITHIN_DAYS,
+  type EmploymentType,
+  type SavedSearch,
+} from "@/lib/jobs/savedSearches";
+
+import { apiRequest } from "./api";
+
+type Props = {
+  searches: SavedSearch[];
+  onChange: (searches: SavedSearch[]) => void;
+  /** Run saved searches through job sync. */
+  onRun: (searches: "all" | string[]) => void;
+  running: boolean;
+};
+
+type Draft = {
+  name: string;
+  query: string;
+  location: string;
+  remote_only: boolean;
+  employment_types: EmploymentType[];
+  posted_within_days: number | null;
+  excluded_keywords: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  name: "",
+  query: "",
+  location: "",
+  remote_only: false,
+  employment_types: [],
+  posted_within_days: null,
+  excluded_keywords: "",
+};
+
+function describe(s: SavedSearch): string {
+  const parts = [s.location, s.remote_only ? "remote only" : null];
+  if (s.employment_types.length > 0) {
+    parts.push(s.employment_types.map((t) => EMPLOYMENT_TYPE_LABELS[t]).join("/"));
+  }
+  if (s.posted_within_days) parts.push(`last ${s.posted_within_days}d`);
+  if (s.excluded_keywords.length > 0) parts.push(`excluding ${s.excluded_keywords.join(", ")}`);
+  return parts.filter(Boolean).join(" · ");
+}
+
+/**
+ * User-defined JSearch queries. Enabled searches run with every sync;
+ * each can also be run on its own.
+ */
+export default function SavedSearches({ searches, onChange, onRun, running }: Props) {
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [msg, setMsg] = useState("");
+
+  async function create() {
+    setBusyId("new");
+    setMsg("");
+    try {
+      const json = await apiRequest<{ search: SavedSearch }>("/api/jobs/searches", {
+        method: "POST",
+        body: JSON.stringify({
+          ...draft,
+          location: draft.location.trim() || null,
+          excluded_keywords: draft.excluded_keywords
+            .split(",")
+            .map((k) => k.trim())
+            .filter(Boolean),
+        }),
+      });
+      onChange([...searches, json.search]);
+      setDraft(EMPTY_DRAFT);
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to save search.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function toggle(search: SavedSearch) {
+    setBusyId(search.id);
+    setMsg("");
+    try {
+      const json = await apiRequest<{ search: SavedSearch }>(`/api/jobs/searches/${search.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ enabled: !search.enabled }),
+      });
+      onChange(searches.map((s) => (s.id === json.search.id ? json.search : s)));
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to update search.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function remove(search: SavedSearch) {
+    if (!confirm(`Delete the saved search "${search.name}"?`)) return;
+
+    setBusyId(search.id);
+    setMsg("");
+    try {
+      await apiRequest(`/api/jobs/searches/${search.id}`, { method: "DELETE" });
+      onChange(searches.filter((s) => s.id !== search.id));
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to delete search.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function toggleType(t: EmploymentType) {
+    const types = draft.employment_types.includes(t)
+      ? draft.employment_types.filter((x) => x !== t)
+      : [...draft.employment_types, t];
+    setDraft({ ...draft, employment_types: types });
+  }
+
+  return (
+    <div className="mt-6 rounded-lg border border-gray-200 bg-white">
+      <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-gray-100">
+        <div>
+          <p className="text-sm font-medium text-gray-800">Saved searches</p>
+          <p className="text-xs text-gray-600">Searches beyond your resume&apos;s roles. Enabled ones run with every sync.</p>
+        </div>
+        {searches.some((s) => s.enabled) && (
+          <button
+            type="button"
+            className="rounded-md border px-3 py-1 text-sm disabled:opacity-60"
+            disabled={running}
+            onClick={() => onRun("all")}
+          >
+            Run all
+          </button>
+        )}
+      </div>
+
+      {searches.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {searches.map((s) => (
+            <li key={s.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+              <div className={s.enabled ? "" : "opacity-60"}>
+                <span className="font-medium text-gray-900">{s.name}</span>
+                {s.name !== s.query && <span className="text-gray-600"> · “{s.query}”</span>}
+                <div className="text-xs text-gray-600">
+                  {describe(s) || "No filters"}
+                  {s.last_run_at ? ` · last run ${new Date(s.last_run_at).toLocaleString()}` : " · never run"}
+                </div>
+              </div>
+              <div className="flex shrink-0 items-center gap-3">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={s.enabled}
+                    disabled={busyId === s.id}
+                    onChange={() => toggle(s)}
+                  />
+                  Enabled
+                </label>
+                <button
+                  type="button"
+                  className="text-black underline disabled:opacity-60"
+                  disabled={running}
+                  onClick={() => onRun([s.id])}
+                >
+                  Run
+                </button>
+                <button
+                  type="button"
+                  className="text-red-700 underline"
+                  disabled={busyId === s.id}
+                  onClick={() => remove(s)}
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2 px-4 py-3 text-sm border-t border-gray-100">
+        <div className="flex flex-wrap gap-2">
+          <input
+            value={draft.query}
+            onChange={(e) => setDraft({ ...draft, query: e.target.value })}
+            placeholder="Query, e.g. platform engineer kubernetes"
+            className="min-w-[16rem] flex-1 rounded-md border px-2 py-1"
+          />
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Name (optional)"
+            className="rounded-md border px-2 py-1"
+          />
+          <input
+            value={draft.location}
+            onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+            placeholder="Location"
+            className="rounded-md border px-2 py-1"
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={draft.remote_only}
+              onChange={(e) => setDraft({ ...draft, remote_only: e.target.checked })}
+            />
+            Remote only
+          </label>
+          {EMPLOYMENT_TYPES.map((t) => (
+            <label key={t} className="flex items-center gap-1">
+              <input type="checkbox" checked={draft.employment_types.includes(t)} onChange={() => toggleType(t)} />
+              {EMPLOYMENT_TYPE_LABELS[t]}
+            </label>
+          ))}
+          <select
+            value={draft.posted_within_days ?? ""}
+            onChange={(e) => setDraft({ ...draft, posted_within_days: e.target.value ? Number(e.target.value) : null })}
+            className="rounded-md border px-2 py-1"
+          >
+            <option value="">Any date</option>
+            {POSTED_WITHIN_DAYS.map((d) => (
+              <option key={d} value={d}>
+                {d === 1 ? "Past day" : `Past ${d} days`}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <input
+            value={draft.excluded_keywords}
+            onChange={(e) => setDraft({ ...draft, excluded_keywords: e.target.value })}
+            placeholder="Exclude keywords, comma separated"
+            className="min-w-[16rem] flex-1 rounded-md border px-2 py-1"
+          />
+          <button
+            type="button"
+            className="rounded-md bg-black text-white px-3 py-1 disabled:opacity-60"
+            disabled={!draft.query.trim() || busyId === "new"}
+            onClick={create}
+          >
+            Save search
+          </button>
+        </div>
+      </div>
+
+      {msg && <p className="px-4 pb-3 text-sm text-red-600">{msg}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_LABELS,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+} from "@/lib/webhooks/events";
+
+import { apiRequest } from "./api";
+
+type SubscribableEvent = (typeof WEBHOOK_EVENTS)[number];
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function DeliveryLog({ endpointId, refreshKey }: { endpointId: string; refreshKey: number }) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+  const [msg, setMsg] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiRequest<{ deliveries: WebhookDelivery[] }>(`/api/webhooks/${endpointId}/deliveries`)
+      .then((json) => {
+        if (!cancelled) setDeliveries(json.deliveries);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setMsg(err instanceof Error ? err.message : "Failed to load deliveries.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [endpointId, refreshKey]);
+
+  if (msg) return <p className="mt-2 text-sm text-red-600">{msg}</p>;
+  if (!deliveries) return <p className="mt-2 text-sm text-gray-600">Loading deliveries...</p>;
+  if (deliveries.length === 0) return <p className="mt-2 text-sm text-gray-600">No deliveries yet.</p>;
+
+  return (
+    <ul className="mt-2 space-y-1 text-xs">
+      {deliveries.map((d) => (
+        <li key={d.id} className="flex flex-wrap items-center gap-2">
+          <span
+            className={`rounded px-1.5 py-0.5 ${
+              d.status === "succeeded"
+                ? "bg-green-100 text-green-800"
+                : d.status === "failed"
+                  ? "bg-red-100 text-red-800"
+                  : "bg-yellow-100 text-yellow-800"
+            }`}
+          >
+            {d.status}
+          </span>
+          <span className="font-mono">{d.event_type}</span>
+          <span className="text-gray-600">
+            {formatDateTime(d.created_at)} · {d.attempts} {d.attempts === 1 ? "attempt" : "attempts"}
+            {d.last_status_code ? ` · HTTP ${d.last_status_code}` : ""}
+            {d.status === "pending" && d.next_attempt_at ? ` · retry ${formatDateTime(d.next_attempt_at)}` : ""}
+          </span>
+          {d.last_error && d.status !== "succeeded" && <span className="text-red-700">{d.last_error}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Outbound webhook endpoints: subscribe URLs to job and application
+ * events, see each delivery, and send a test event.
+ */
+export default function Webhooks() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<SubscribableEvent[]>([...WEBHOOK_EVENTS]);
+  const [minScore, setMinScore] = useState(70);
+  const [secret, setSecret] = useState<{ endpointId: string; value: string } | null>(null);
+  const [logId, setLogId] = useState<string | null>(null);
+  const [logKey, setLogKey] = useState(0);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [msg, setMsg] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiRequest<{ endpoints: WebhookEndpoint[] }>("/api/webhooks")
+      .then((json) => {
+        if (!cancelled) setEndpoints(json.endpoints);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setMsg(err instanceof Error ? err.message : "Failed to load webhooks.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function create() {
+    setBusyId("new");
+    setMsg("");
+    try {
+      const json = await apiRequest<{ endpoint: WebhookEndpoint; secret: string }>("/api/webhooks", {
+        method: "POST",
+        body: JSON.stringify({ url, description: description || null, events, min_match_score: minScore }),
+      });
+      setEndpoints((es) => [...es, json.endpoint]);
+      setSecret({ endpointId: json.endpoint.id, value: json.secret });
+      setUrl("");
+      setDescription("");
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to add webhook.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function patch(endpoint: WebhookEndpoint, body: { enabled?: boolean; rotate_secret?: true }) {
+    setBusyId(endpoint.id);
+    setMsg("");
+    try {
+      const json = await apiRequest<{ endpoint: WebhookEndpoint; secret: string | null }>(
+        `/api/webhooks/${endpoint.id}`,
+        { method: "PATCH", body: JSON.stringify(body) }
+      );
+      setEndpoints((es) => es.map((e) => (e.id === json.endpoint.id ? json.endpoint : e)));
+      if (json.secret) setSecret({ endpointId: json.endpoint.id, value: json.secret });
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to update webhook.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function remove(endpoint: WebhookEndpoint) {
+    if (!confirm(`Delete the webhook to ${endpoint.url} and its delivery log?`)) return;
+
+    setBusyId(endpoint.id);
+    setMsg("");
+    try {
+      await apiRequest(`/api/webhooks/${endpoint.id}`, { method: "DELETE" });
+      setEndpoints((es) => es.filter((e) => e.id !== endpoint.id));
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to delete webhook.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function sendTest(endpoint: WebhookEndpoint) {
+    setBusyId(endpoint.id);
+    setMsg("");
+    try {
+      const json = await apiRequest<{ delivery: WebhookDelivery }>(`/api/webhooks/${endpoint.id}/test`, {
+        method: "POST",
+      });
+      const d = json.delivery;
+      setMsg(
+        d.status === "succeeded"
+          ? `Test event delivered (HTTP ${d.last_status_code}).`
+          : `Test event failed: ${d.last_error ?? "unknown error"}`
+      );
+      setLogId(endpoint.id);
+      setLogKey((k) => k + 1);
+    } catch (err) {
+      setMsg(err instanceof Error ? err.message : "Failed to send test event.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function toggleEvent(e: SubscribableEvent) {
+    setEvents((es) => (es.includes(e) ? es.filter((x) => x !== e) : [...es, e]));
+  }
+
+  return (
+    <div className="mt-4">
+      <div className="space-y-2 text-sm">
+        <div className="flex flex-wrap gap-2">
+          <input
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/hooks/joblio"
+            className="min-w-[18rem] flex-1 rounded-md border px-3 py-2"
+          />
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            className="rounded-md border px-3 py-2"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {WEBHOOK_EVENTS.map((e) => (
+            <label key={e} className="flex items-center gap-1">
+              <input type="checkbox" checked={events.includes(e)} onChange={() => toggleEvent(e)} />
+              {WEBHOOK_EVENT_LABELS[e]}
+            </label>
+          ))}
+          {events.includes("job.matched") && (
+            <label className="flex items-center gap-1">
+              at
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={minScore}
+                onChange={(e) => setMinScore(Number(e.target.value))}
+                className="w-16 rounded-md border px-2 py-1"
+              />
+              % match
+            </label>
+          )}
+          <button
+            type="button"
+            className="rounded-md bg-black text-white px-4 py-2 disabled:opacity-60"
+            disabled={!url.trim() || events.length === 0 || busyId === "new"}
+            onClick={create}
+          >
+            Add webhook
+          </button>
+        </div>
+      </div>
+
+      {msg && <p className="mt-3 text-sm text-gray-700">{msg}</p>}
+
+      <div className="mt-4 space-y-2">
+        {endpoints.map((e) => (
+          <div key={e.id} className="rounded border p-3 text-sm">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="truncate font-medium">{e.description || e.url}</div>
+                {e.description && <div className="truncate text-gray-600">{e.url}</div>}
+                <div className="text-xs text-gray-600">
+                  {e.events
+                    .map((ev) => (ev === "job.matched" ? `${ev} (${e.min_match_score}%+)` : ev))
+                    .join(", ")}
+                </div>
+              </div>
+              <label className="flex shrink-0 items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={e.enabled}
+                  disabled={busyId === e.id}
+                  onChange={() => patch(e, { enabled: !e.enabled })}
+                />
+                Enabled
+              </label>
+            </div>
+
+            {secret?.endpointId === e.id && (
+              <div className="mt-2 rounded bg-yellow-50 p-2 text-xs">
+                Signing secret (shown once, copy it now): <code className="break-all">{secret.value}</code>
+              </div>
+            )}
+
+            <div className="mt-2 flex flex-wrap gap-3">
+              <button
+                type="button"
+                className="text-black underline disabled:opacity-60"
+                disabled={busyId === e.id}
+                onClick={() => sendTest(e)}
+              >
+                Send test event
+              </button>
+              <button
+                type="button"
+                className="text-black underline"
+                onClick={() => setLogId((id) => (id === e.id ? null : e.id))}
+              >
+                {logId === e.id ? "Hide deliveries" : "Deliveries"}
+              </button>
+              <button
+                type="button"
+                className="text-black underline disabled:opacity-60"
+                disabled={busyId === e.id}
+                onClick={() => {
+                  if (confirm("Replace the signing secret? The old one stops working.")) {
+                    patch(e, { rotate_secret: true });
+                  }
+                }}
+              >
+                Rotate secret
+              </button>
+              <button
+                type="button"
+                className="text-red-600 underline disabled:opacity-60"
+                disabled={busyId === e.id}
+                onClick={() => remove(e)}
+              >
+                Delete
+              </button>
+            </div>
+
+            {logId === e.id && <DeliveryLog endpointId={e.id} refreshKey={logKey} />}
+          </div>
+        ))}
+
+        {endpoints.length === 0 && <p className="text-sm text-gray-600">No webhooks yet.</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { supabase } from "@/lib/supabase/client";
+
+/**
+ * Call one of our API routes with the current session's bearer token.
+ * Throws with the route's `error` message on non-2xx.
+ */
+export async function apiRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Not logged in.");
+
+  const r = await fetch(path, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  const json = (await r.json()) as T & { error?: string };
+  if (!r.ok) throw new Error(json.error ?? "Request failed");
+  return json;
+}
@@ -0,0 +1,49 @@
+type SalaryDisplay = {
+  salary_min: number | null;
+  salary_max: number | null;
+  salary_currency: string | null;
+  salary_period: string | null;
+  salary_annual_min: number | null;
+  salary_annual_max: number | null;
+};
+
+export function formatMoney(amount: number, currency: string | null) {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency: currency ?? "USD",
+      maximumFractionDigits: amount < 1000 ? 2 : 0,
+    }).format(amount);
+  } catch {
+    return `${currency ?? ""} ${Math.round(amount).toLocaleString()}`.trim();
+  }
+}
+
+export function formatSalary(j: SalaryDisplay): string | null {
+  const lo = j.salary_min ?? j.salary_max;
+  const hi = j.salary_max ?? j.salary_min;
+  if (lo === null || hi === null) return null;
+
+  const range =
+    lo === hi ? formatMoney(lo, j.salary_currency) : `${formatMoney(lo, j.salary_currency)}–${formatMoney(hi, j.salary_currency)}`;
+  const stated = j.salary_period ? `${range} / ${j.salary_period.toLowerCase()}` : range;
+
+  // Show the yearly equivalent when the posting used another period.
+  const annual = j.salary_annual_max ?? j.salary_annual_min;
+  const isYearly = j.salary_annual_max === j.salary_max && j.salary_annual_min === j.salary_min;
+  if (annual === null || isYearly) return stated;
+  return `${stated} (~${formatMoney(annual, j.salary_currency)}/yr)`;
+}
+
+/**
+ * "today", "yesterday", "5 days ago", "3 weeks ago", ...
+ */
+export function formatAge(iso: string, now = new Date()): string {
+  const days = Math.floor((now.getTime() - new Date(iso).getTime()) / (24 * 60 * 60 * 1000));
+  if (days <= 0) return "today";
+  if (days === 1) return "yesterday";
+  if (days < 14) return `${days} days ago`;
+  if (days < 60) return `${Math.floor(days / 7)} weeks ago`;
+  if (days < 730) return `${Math.floor(days / 30)} months ago`;
+  return `${Math.floor(days / 365)} years ago`;
+}
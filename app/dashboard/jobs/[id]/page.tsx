@@ -0,0 +1,235 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { supabase } from "@/lib/supabase/client";
+import { APPLICATION_STATUS_LABELS } from "@/lib/applications/status";
+import type { JobDetail } from "@/lib/jobs/detail";
+import { JOB_CLOSED_REASON_LABELS, JOB_SOURCE_LABELS } from "@/lib/jobs/list";
+import { EMPLOYMENT_TYPE_LABELS, normalizeEmploymentType } from "@/lib/jobs/savedSearches";
+
+import { apiRequest } from "../../api";
+import { formatAge, formatSalary } from "../../format";
+
+type JobResponse = {
+  job: JobDetail;
+  previous_id: string | null;
+  next_id: string | null;
+};
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="text-gray-600">{label}</dt>
+      <dd>{children}</dd>
+    </div>
+  );
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+}
+
+function JobDetailView() {
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+  // The dashboard's list filters and sort, carried along for previous/next.
+  const listQuery = useSearchParams().toString();
+
+  const [data, setData] = useState<JobResponse | null>(null);
+  const [msg, setMsg] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const run = async () => {
+      const { data: session } = await supabase.auth.getSession();
+      if (!session.session) {
+        router.replace("/login");
+        return;
+      }
+
+      try {
+        const json = await apiRequest<JobResponse>(`/api/jobs/${id}${listQuery ? `?${listQuery}` : ""}`);
+        if (!cancelled) {
+          setData(json);
+          setMsg("");
+        }
+      } catch (err) {
+        if (!cancelled) setMsg(err instanceof Error ? err.message : "Failed to load job.");
+      }
+    };
+
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, listQuery, router]);
+
+  const hrefFor = (jobId: string) => `/dashboard/jobs/${jobId}${listQuery ? `?${listQuery}` : ""}`;
+
+  const nav = (
+    <div className="flex items-center gap-4 text-sm">
+      <Link href="/dashboard" className="text-black underline">
+        Back to jobs
+      </Link>
+      {data?.previous_id ? (
+        <Link href={hrefFor(data.previous_id)} className="text-black underline">
+          ← Previous
+        </Link>
+      ) : (
+        <span className="text-gray-400">← Previous</span>
+      )}
+      {data?.next_id ? (
+        <Link href={hrefFor(data.next_id)} className="text-black underline">
+          Next →
+        </Link>
+      ) : (
+        <span className="text-gray-400">Next →</span>
+      )}
+    </div>
+  );
+
+  if (msg) {
+    return (
+      <main className="min-h-screen p-6">
+        {nav}
+        <p className="mt-6 text-sm text-red-600">{msg}</p>
+      </main>
+    );
+  }
+
+  if (!data || data.job.id !== id) {
+    return (
+      <main className="min-h-screen flex items-center justify-center p-6">
+        <p className="text-gray-700">Loading...</p>
+      </main>
+    );
+  }
+
+  const j = data.job;
+  const salary = formatSalary(j);
+  const employmentType = normalizeEmploymentType(j.employment_type);
+  const locationParts = [j.city, j.region, j.country].filter(Boolean);
+  const status = j.applications?.[0]?.status;
+
+  return (
+    <main className="min-h-screen p-6">
+      {nav}
+
+      <div className="mt-6 max-w-3xl">
+        <div className="flex items-start justify-between gap-3">
+          <h1 className="text-2xl font-bold">{j.title}</h1>
+          {j.match_score !== null && (
+            <span className="shrink-0 rounded bg-gray-100 px-2 py-0.5 text-sm font-medium text-gray-800">
+              {j.match_score}% match
+            </span>
+          )}
+        </div>
+        <p className="mt-1 text-gray-700">
+          {j.company_website ? (
+            <a href={j.company_website} target="_blank" rel="noreferrer" className="underline">
+              {j.company_name ?? j.company_website}
+            </a>
+          ) : (
+            (j.company_name ?? "Unknown company")
+          )}
+          {status ? ` · ${APPLICATION_STATUS_LABELS[status]}` : ""}
+        </p>
+
+        {j.closed_at && (
+          <p className="mt-3 rounded bg-red-50 px-3 py-2 text-sm text-red-800">
+            Likely closed since {formatDate(j.closed_at)}
+            {j.closed_reason ? `: ${JOB_CLOSED_REASON_LABELS[j.closed_reason]}.` : "."}
+          </p>
+        )}
+
+        <dl className="mt-4 grid grid-cols-1 gap-3 text-sm sm:grid-cols-2">
+          <Field label="Salary">{salary ?? "Not stated"}</Field>
+          <Field label="Location">
+            {j.location_text ?? "Unknown"}
+            {locationParts.length > 0 && <span className="text-gray-600"> ({locationParts.join(", ")})</span>}
+          </Field>
+          <Field label="Remote">
+            {j.remote_type ? j.remote_type.charAt(0).toUpperCase() + j.remote_type.slice(1) : j.is_remote ? "Remote" : "Not stated"}
+          </Field>
+          <Field label="Employment type">
+            {employmentType ? EMPLOYMENT_TYPE_LABELS[employmentType] : (j.employment_type ?? "Not stated")}
+          </Field>
+          <Field label="Posted">
+            {j.posted_at ? `${formatDate(j.posted_at)} (${formatAge(j.posted_at)})` : "Unknown"}
+          </Field>
+          <Field label="Source">{JOB_SOURCE_LABELS[j.source] ?? j.source}</Field>
+          <Field label="Seen by sync">
+            {formatDate(j.first_seen_at)} – {formatDate(j.last_seen_at)}
+            <span className="text-gray-600"> (last {formatAge(j.last_seen_at)})</span>
+          </Field>
+          {j.apply_url_checked_at && (
+            <Field label="Apply link checked">{formatDate(j.apply_url_checked_at)}</Field>
+          )}
+        </dl>
+
+        <div className="mt-4 flex flex-wrap gap-3 text-sm">
+          {j.apply_url && (
+            <a href={j.apply_url} target="_blank" rel="noreferrer" className="rounded-md bg-black text-white px-4 py-2">
+              Apply
+            </a>
+          )}
+          {j.alternate_apply_urls?.map((url, i) => (
+            <a key={url} href={url} target="_blank" rel="noreferrer" className="self-center text-blue-600 underline">
+              Also at {i + 1}
+            </a>
+          ))}
+        </div>
+
+        {j.match_breakdown && (
+          <details className="mt-4 text-sm">
+            <summary className="cursor-pointer text-gray-700">Why this matched</summary>
+            <ul className="mt-1 space-y-0.5 text-gray-600">
+              {Object.entries(j.match_breakdown).map(([name, f]) => (
+                <li key={name}>
+                  <span className="capitalize">{name}</span> ({Math.round(f.score * 100)}%): {f.detail}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        <h2 className="mt-6 text-xl font-semibold">Description</h2>
+        {j.description ? (
+          <div className="mt-2 whitespace-pre-wrap text-sm leading-6 text-gray-800">{j.description}</div>
+        ) : (
+          <p className="mt-2 text-sm text-gray-600">No description was provided.</p>
+        )}
+
+        {j.raw && (
+          <details className="mt-6 text-sm">
+            <summary className="cursor-pointer text-gray-700">Source data</summary>
+            <pre className="mt-2 max-h-96 overflow-auto rounded bg-gray-50 p-3 text-xs">
+              {JSON.stringify(j.raw, null, 2)}
+            </pre>
+          </details>
+        )}
+      </div>
+    </main>
+  );
+}
+
+/**
+ * One saved job in full. Previous/next step through the dashboard list
+ * with the filters and sort it was opened from.
+ */
+export default function JobDetailPage() {
+  return (
+    <Suspense
+      fallback={
+        <main className="min-h-screen flex items-center justify-center p-6">
+          <p className="text-gray-700">Loading...</p>
+        </main>
+      }
+    >
+      <JobDetailView />
+    </Suspense>
+  );
+}
@@ -1,23 +1,57 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabase/client";
+import {
+  JOB_CLOSED_REASON_LABELS,
+  toJobListParams,
+  type JobClosedReason,
+  type JobListFilters,
+} from "@/lib/jobs/list";
+import type { MatchBreakdown } from "@/lib/jobs/match";
+import type { SavedSearch } from "@/lib/jobs/savedSearches";
+import type { ProfileFieldError } from "@/lib/resume/profile";
+import type { ExperienceEntry, ResumeSection } from "@/lib/resume/sections";
+import { RESUME_ACCEPT } from "@/lib/resume/accept";
+import {
+  APPLICATION_STATUSES,
+  APPLICATION_STATUS_LABELS,
+  type ApplicationStatus,
+} from "@/lib/applications/status";
+
+import { apiRequest } from "./api";
+import ApplicationBoard, { type BoardJob } from "./ApplicationBoard";
+import CoverLetterPanel from "./CoverLetterPanel";
+import DigestSettings from "./DigestSettings";
+import { formatSalary } from "./format";
+import JobFilters from "./JobFilters";
+import KeywordGaps from "./KeywordGaps";
+import ProfileVersions from "./ProfileVersions";
+import ResumeLibrary from "./ResumeLibrary";
+import ResumeStructure from "./ResumeStructure";
+import SavedSearches from "./SavedSearches";
+import Webhooks from "./Webhooks";
 
 type ExtractResponse = {
   resumeId: string;
   fileName: string;
+  format: string;
   pageCount: number;
   text: string;
+  sections: ResumeSection[];
+  experience: ExperienceEntry[];
 };
 
-type ResumeProfile = {
-  roles: string[];
-  skills: string[];
-  seniority: string;
-  location_preference: string;
-  visa_or_work_auth: string;
-  remote_intent: string;
+type BoardSource = "greenhouse" | "lever" | "ashby";
+
+type JobBoardRow = {
+  id: string;
+  source: BoardSource;
+  board_token: string;
+  company_name: string | null;
+  enabled: boolean;
 };
 
 type JobRow = {
@@ -26,10 +60,45 @@ type JobRow = {
   company_name: string | null;
   location_text: string | null;
   is_remote: boolean;
+  employment_type: string | null;
+  source: string;
+  posted_at: string | null;
   created_at: string;
+  last_seen_at: string;
+  closed_at: string | null;
+  closed_reason: JobClosedReason | null;
   apply_url: string | null;
+  alternate_apply_urls: string[] | null;
+  salary_min: number | null;
+  salary_max: number | null;
+  salary_currency: string | null;
+  salary_period: string | null;
+  salary_annual_min: number | null;
+  salary_annual_max: number | null;
+  match_score: number | null;
+  match_breakdown: MatchBreakdown | null;
+  applications: Array<{ status: ApplicationStatus; updated_at: string }> | null;
+  saved_search_jobs: Array<{ saved_search_id: string }> | null;
+};
+
+type SyncSettings = {
+  interval_hours: number | null;
+  last_synced_at: string | null;
+  last_sync_ok: boolean | null;
+  last_sync_error: string | null;
+  close_after_days: number | null;
+  probe_apply_urls: boolean;
+};
+
+type TrackedJobRow = {
+  job_id: string;
+  status: ApplicationStatus;
+  updated_at: string;
+  jobs: { title: string; company_name: string | null } | null;
 };
 
+const DEFAULT_JOB_FILTERS: JobListFilters = { sort: "recent" };
+
 export default function DashboardPage() {
   const router = useRouter();
 
@@ -41,19 +110,41 @@ export default function DashboardPage() {
   const [uploadMsg, setUploadMsg] = useState<string>("");
   const [lastUploaded, setLastUploaded] = useState<string>("");
 
-  const [profile, setProfile] = useState<ResumeProfile | null>(null);
   const [parsing, setParsing] = useState(false);
 
   // Jobs (Day 5)
   const [syncing, setSyncing] = useState(false);
   const [jobs, setJobs] = useState<JobRow[]>([]);
   const [jobsMsg, setJobsMsg] = useState<string>("");
+  const [jobFilters, setJobFilters] = useState<JobListFilters>(DEFAULT_JOB_FILTERS);
+  const [jobsCursor, setJobsCursor] = useState<string | null>(null);
+  const [loadingMoreJobs, setLoadingMoreJobs] = useState(false);
+  const [trackedJobs, setTrackedJobs] = useState<BoardJob[]>([]);
+  const [scoring, setScoring] = useState(false);
+  const [syncSettings, setSyncSettings] = useState<SyncSettings | null>(null);
+  const [coverLetterJobId, setCoverLetterJobId] = useState<string | null>(null);
+  const [gapsJobId, setGapsJobId] = useState<string | null>(null);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+
+  // Company boards followed (Greenhouse / Lever / Ashby)
+  const [boards, setBoards] = useState<JobBoardRow[]>([]);
+  const [boardSource, setBoardSource] = useState<BoardSource>("greenhouse");
+  const [boardToken, setBoardToken] = useState("");
+  const [boardCompany, setBoardCompany] = useState("");
+  const [boardsMsg, setBoardsMsg] = useState<string>("");
 
   // Extract preview state
   const [extracting, setExtracting] = useState(false);
   const [extractErr, setExtractErr] = useState<string>("");
   const [extractData, setExtractData] = useState<ExtractResponse | null>(null);
   const [expanded, setExpanded] = useState(false);
+  const [showRaw, setShowRaw] = useState(false);
+  const [profileVersionsKey, setProfileVersionsKey] = useState(0);
+  const [profileReloadKey, setProfileReloadKey] = useState(0);
+
+  // Resume library
+  const [resumeLibraryKey, setResumeLibraryKey] = useState(0);
+  const [selectedResumeId, setSelectedResumeId] = useState<string | null>(null);
 
   useEffect(() => {
     const run = async () => {
@@ -69,7 +160,11 @@ export default function DashboardPage() {
       setLoading(false);
 
       // Load jobs list on dashboard open
-      await loadJobs();
+      await loadJobs(DEFAULT_JOB_FILTERS);
+      await loadTrackedJobs();
+      await loadBoards();
+      await loadSyncSettings();
+      await loadSavedSearches();
     };
 
     run();
@@ -80,30 +175,121 @@ export default function DashboardPage() {
     router.replace("/login");
   }
 
-  async function loadJobs() {
+  // Bumped per first-page load so a slow, superseded response is dropped.
+  const jobsRequestRef = useRef(0);
+
+  async function loadJobs(filters: JobListFilters) {
+    const requestId = ++jobsRequestRef.current;
+
+    try {
+      const json = await apiRequest<{ jobs: JobRow[]; next_cursor: string | null }>(
+        `/api/jobs?${toJobListParams(filters)}`
+      );
+      if (requestId !== jobsRequestRef.current) return;
+
+      setJobsMsg("");
+      setJobs(json.jobs);
+      setJobsCursor(json.next_cursor);
+    } catch (err) {
+      if (requestId !== jobsRequestRef.current) return;
+
+      setJobsMsg(err instanceof Error ? err.message : "Failed to load jobs.");
+      setJobs([]);
+      setJobsCursor(null);
+    }
+  }
+
+  const loadMoreJobs = useCallback(async () => {
+    if (!jobsCursor || loadingMoreJobs) return;
+
+    const requestId = jobsRequestRef.current;
+    setLoadingMoreJobs(true);
+
+    try {
+      const json = await apiRequest<{ jobs: JobRow[]; next_cursor: string | null }>(
+        `/api/jobs?${toJobListParams({ ...jobFilters, cursor: jobsCursor })}`
+      );
+      if (requestId !== jobsRequestRef.current) return;
+
+      setJobs((prev) => {
+        const seen = new Set(prev.map((j) => j.id));
+        return [...prev, ...json.jobs.filter((j) => !seen.has(j.id))];
+      });
+      setJobsCursor(json.next_cursor);
+    } catch (err) {
+      if (requestId !== jobsRequestRef.current) return;
+      setJobsMsg(err instanceof Error ? err.message : "Failed to load more jobs.");
+      setJobsCursor(null);
+    } finally {
+      setLoadingMoreJobs(false);
+    }
+  }, [jobFilters, jobsCursor, loadingMoreJobs]);
+
+  function applyJobFilters(filters: JobListFilters) {
+    setJobFilters(filters);
+    setJobsCursor(null);
+    loadJobs(filters);
+  }
+
+  // Load the next page when the end of the list scrolls into view.
+  const jobsEndRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const el = jobsEndRef.current;
+    if (!el || !jobsCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) loadMoreJobs();
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [jobsCursor, loadMoreJobs]);
+
+  // The pipeline shows every tracked job, whatever the list is filtered to.
+  async function loadTrackedJobs() {
     const { data, error } = await supabase
-      .from("jobs")
-      .select("id,title,company_name,location_text,is_remote,created_at,apply_url")
-      .order("created_at", { ascending: false })
-      .limit(50);
+      .from("applications")
+      .select("job_id,status,updated_at,jobs(title,company_name)")
+      .order("updated_at", { ascending: false })
+      .returns<TrackedJobRow[]>();
 
     if (error) {
       setJobsMsg(error.message);
-      setJobs([]);
       return;
     }
 
-    setJobsMsg("");
-    setJobs((data ?? []) as JobRow[]);
+    setTrackedJobs(
+      (data ?? []).flatMap((a) =>
+        a.jobs
+          ? [{ id: a.job_id, title: a.jobs.title, company_name: a.jobs.company_name, status: a.status, updated_at: a.updated_at }]
+          : []
+      )
+    );
   }
 
-  async function syncJobs() {
+  async function syncJobs(searches?: "all" | string[]) {
     setJobsMsg("");
     setSyncing(true);
 
     try {
-      const r = await fetch("/api/jobs/sync", { method: "POST" });
-      const json = (await r.json()) as { error?: string; inserted?: number };
+      const r = await fetch("/api/jobs/sync", {
+        method: "POST",
+        ...(searches ? { headers: { "Content-Type": "application/json" }, body: JSON.stringify({ searches }) } : {}),
+      });
+      const json = (await r.json()) as {
+        error?: string;
+        inserted?: number;
+        updated?: number;
+        failed_jobs?: Array<{ title: string; error: string }>;
+        role_errors?: Array<{ role: string }>;
+        roles_skipped?: string[];
+        saved_search_errors?: Array<{ name: string }>;
+        saved_searches_skipped?: string[];
+        closed?: number;
+      };
 
       if (!r.ok) {
         setJobsMsg(json.error ?? "Job sync failed.");
@@ -111,21 +297,167 @@ export default function DashboardPage() {
       }
 
       const inserted = typeof json.inserted === "number" ? json.inserted : 0;
-      setJobsMsg(inserted > 0 ? `Synced ${inserted} new jobs.` : "No new jobs found.");
+      const updated = typeof json.updated === "number" ? json.updated : 0;
+      const notes: string[] = [];
+      if (json.role_errors?.length) {
+        notes.push(`failed for ${json.role_errors.map((e) => e.role).join(", ")}`);
+      }
+      if (json.roles_skipped?.length) {
+        notes.push(`daily search budget used up before ${json.roles_skipped.join(", ")}`);
+      }
+      if (json.saved_search_errors?.length) {
+        notes.push(`failed for saved ${json.saved_search_errors.map((e) => e.name).join(", ")}`);
+      }
+      if (json.saved_searches_skipped?.length) {
+        const skipped = json.saved_searches_skipped.map((id) => searchNames.get(id) ?? id);
+        notes.push(`daily search budget used up before saved ${skipped.join(", ")}`);
+      }
 
-      await loadJobs();
+      const failedJobs = json.failed_jobs ?? [];
+
+      setJobsMsg(
+        (inserted > 0 ? `Synced ${inserted} new jobs.` : "No new jobs found.") +
+          (updated > 0 ? ` Refreshed ${updated} existing jobs.` : "") +
+          (json.closed ? ` Marked ${json.closed} jobs as likely closed.` : "") +
+          (notes.length ? ` Search ${notes.join("; ")}.` : "") +
+          (failedJobs.length
+            ? ` ${failedJobs.length} failed to save (${failedJobs[0].title}: ${failedJobs[0].error}${failedJobs.length > 1 ? ", …" : ""}).`
+            : "")
+      );
+
+      await loadJobs(jobFilters);
+      await loadSyncSettings();
+      if (searches) await loadSavedSearches();
     } finally {
       setSyncing(false);
     }
   }
 
+  async function loadSavedSearches() {
+    try {
+      const json = await apiRequest<{ searches: SavedSearch[] }>("/api/jobs/searches");
+      setSavedSearches(json.searches);
+    } catch {
+      setSavedSearches([]);
+    }
+  }
+
+  async function loadSyncSettings() {
+    try {
+      const json = await apiRequest<{ settings: SyncSettings }>("/api/jobs/sync/settings");
+      setSyncSettings(json.settings);
+    } catch {
+      setSyncSettings(null);
+    }
+  }
+
+  async function updateSyncSettings(
+    patch: Partial<Pick<SyncSettings, "interval_hours" | "close_after_days" | "probe_apply_urls">>
+  ) {
+    setJobsMsg("");
+    try {
+      const json = await apiRequest<{ settings: SyncSettings }>("/api/jobs/sync/settings", {
+        method: "PATCH",
+        body: JSON.stringify(patch),
+      });
+      setSyncSettings(json.settings);
+    } catch (err) {
+      setJobsMsg(err instanceof Error ? err.message : "Failed to update auto-sync.");
+    }
+  }
+
+  async function rescoreJobs() {
+    setJobsMsg("");
+    setScoring(true);
+
+    try {
+      const json = await apiRequest<{ scored: number }>("/api/jobs/score", { method: "POST" });
+      setJobsMsg(`Re-scored ${json.scored} jobs.`);
+      await loadJobs(jobFilters);
+    } catch (err) {
+      setJobsMsg(err instanceof Error ? err.message : "Scoring failed.");
+    } finally {
+      setScoring(false);
+    }
+  }
+
+  async function loadBoards() {
+    try {
+      const json = await apiRequest<{ boards: JobBoardRow[] }>("/api/jobs/boards");
+      setBoards(json.boards ?? []);
+    } catch (err) {
+      setBoardsMsg(err instanceof Error ? err.message : "Failed to load boards.");
+    }
+  }
+
+  async function addBoard() {
+    setBoardsMsg("");
+    if (!boardToken.trim()) {
+      setBoardsMsg("Enter the board slug, e.g. \"stripe\".");
+      return;
+    }
+
+    try {
+      await apiRequest("/api/jobs/boards", {
+        method: "POST",
+        body: JSON.stringify({
+          source: boardSource,
+          board_token: boardToken.trim(),
+          company_name: boardCompany.trim() || null,
+        }),
+      });
+      setBoardToken("");
+      setBoardCompany("");
+      await loadBoards();
+    } catch (err) {
+      setBoardsMsg(err instanceof Error ? err.message : "Failed to add board.");
+    }
+  }
+
+  async function toggleBoard(board: JobBoardRow) {
+    setBoardsMsg("");
+    try {
+      await apiRequest("/api/jobs/boards", {
+        method: "PATCH",
+        body: JSON.stringify({ id: board.id, enabled: !board.enabled }),
+      });
+      await loadBoards();
+    } catch (err) {
+      setBoardsMsg(err instanceof Error ? err.message : "Failed to update board.");
+    }
+  }
+
+  async function removeBoard(board: JobBoardRow) {
+    setBoardsMsg("");
+    try {
+      await apiRequest(`/api/jobs/boards?id=${encodeURIComponent(board.id)}`, { method: "DELETE" });
+      await loadBoards();
+    } catch (err) {
+      setBoardsMsg(err instanceof Error ? err.message : "Failed to remove board.");
+    }
+  }
+
+  async function moveJob(jobId: string, status: ApplicationStatus) {
+    setJobsMsg("");
+    try {
+      const json = await apiRequest<{ application: { status: ApplicationStatus; updated_at: string } }>(
+        `/api/jobs/${jobId}/application`,
+        { method: "POST", body: JSON.stringify({ status }) }
+      );
+      const { updated_at } = json.application;
+      setJobs((prev) => prev.map((j) => (j.id === jobId ? { ...j, applications: [{ status, updated_at }] } : j)));
+      await loadTrackedJobs();
+    } catch (err) {
+      setJobsMsg(err instanceof Error ? err.message : "Failed to update status.");
+    }
+  }
+
   async function uploadResume() {
     setUploadMsg("");
     setLastUploaded("");
     setExtractErr("");
     setExtractData(null);
     setExpanded(false);
-    setProfile(null);
 
     if (!userId) {
       setUploadMsg("Not logged in.");
@@ -133,12 +465,15 @@ export default function DashboardPage() {
     }
 
     if (!file) {
-      setUploadMsg("Please pick a PDF first.");
+      setUploadMsg("Please pick a resume file first.");
       return;
     }
 
-    if (file.type !== "application/pdf") {
-      setUploadMsg("PDF only.");
+    // The server detects the real format from the file contents; this just
+    // catches obvious mistakes before uploading.
+    const ext = file.name.toLowerCase().split(".").pop() ?? "";
+    if (!RESUME_ACCEPT.split(",").includes(`.${ext}`)) {
+      setUploadMsg("Upload a PDF, DOCX, RTF, TXT or Markdown file.");
       return;
     }
 
@@ -148,7 +483,7 @@ export default function DashboardPage() {
     const { error: uploadError } = await supabase.storage
       .from("resumes")
       .upload(filePath, file, {
-        contentType: "application/pdf",
+        contentType: file.type || "application/octet-stream",
         upsert: false,
       });
 
@@ -171,6 +506,7 @@ export default function DashboardPage() {
     setLastUploaded(file.name);
     setUploadMsg("Uploaded!");
     setFile(null);
+    setResumeLibraryKey((k) => k + 1);
   }
 
   async function extractResumeText() {
@@ -178,7 +514,6 @@ export default function DashboardPage() {
     setExtractData(null);
     setExpanded(false);
     setExtracting(true);
-    setProfile(null);
 
     try {
       const { data } = await supabase.auth.getSession();
@@ -189,7 +524,8 @@ export default function DashboardPage() {
         return;
       }
 
-      const res = await fetch("/api/resume/extract", {
+      const query = selectedResumeId ? `?${new URLSearchParams({ resumeId: selectedResumeId })}` : "";
+      const res = await fetch(`/api/resume/extract${query}`, {
         headers: { Authorization: `Bearer ${token}` },
       });
 
@@ -216,7 +552,6 @@ export default function DashboardPage() {
     if (!extractData) return;
 
     setParsing(true);
-    setProfile(null);
 
     try {
       const { data } = await supabase.auth.getSession();
@@ -239,19 +574,28 @@ export default function DashboardPage() {
         }),
       });
 
-      const json = (await res.json()) as { error?: string; profile?: ResumeProfile };
+      const json = (await res.json()) as { error?: string; fields?: ProfileFieldError[] };
 
       if (!res.ok) {
-        alert(json.error ?? "Parse failed");
+        const fields = (json.fields ?? []).map((f) => `${f.path}: ${f.message}`);
+        alert([json.error ?? "Parse failed", ...fields].join("\n"));
         return;
       }
 
-      setProfile((json.profile ?? null) as ResumeProfile | null);
+      setProfileVersionsKey((k) => k + 1);
+      setResumeLibraryKey((k) => k + 1);
     } finally {
       setParsing(false);
     }
   }
 
+  const jobFiltersActive = toJobListParams({ ...jobFilters, sort: undefined }).toString() !== "";
+
+  // Opening a job keeps the list's filters and sort for previous/next there.
+  const jobListQuery = toJobListParams(jobFilters).toString();
+
+  const searchNames = useMemo(() => new Map(savedSearches.map((s) => [s.id, s.name])), [savedSearches]);
+
   const previewText = useMemo(() => {
     const t = extractData?.text ?? "";
     if (expanded) return t;
@@ -282,12 +626,13 @@ export default function DashboardPage() {
       <div className="mt-10 max-w-3xl">
         <h2 className="text-xl font-semibold">Jobs</h2>
         <p className="text-gray-600 mt-1">
-          Pull jobs from JSearch using your parsed profile.
+          Pull jobs from JSearch using your parsed profile, plus any company
+          boards you follow.
         </p>
 
         <div className="mt-4 flex items-center gap-3">
           <button
-            onClick={syncJobs}
+            onClick={() => syncJobs()}
             disabled={syncing}
             className="rounded-md bg-black text-white px-4 py-2 disabled:opacity-60"
           >
@@ -295,25 +640,142 @@ export default function DashboardPage() {
           </button>
 
           <button
-            onClick={loadJobs}
+            onClick={() => {
+              loadJobs(jobFilters);
+              loadTrackedJobs();
+            }}
             className="rounded-md border px-4 py-2"
           >
             Refresh list
           </button>
+
+          <button
+            onClick={rescoreJobs}
+            disabled={scoring}
+            className="rounded-md border px-4 py-2 disabled:opacity-60"
+          >
+            {scoring ? "Scoring..." : "Re-score"}
+          </button>
         </div>
 
+        {syncSettings && (
+          <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              Auto-sync
+              <select
+                value={syncSettings.interval_hours ?? ""}
+                onChange={(e) =>
+                  updateSyncSettings({ interval_hours: e.target.value ? Number(e.target.value) : null })
+                }
+                className="rounded-md border px-2 py-1"
+              >
+                <option value="">Off</option>
+                <option value={6}>Every 6 hours</option>
+                <option value={12}>Every 12 hours</option>
+                <option value={24}>Daily</option>
+                <option value={168}>Weekly</option>
+              </select>
+            </label>
+
+            <label
+              className="flex items-center gap-2"
+              title="Company board jobs a full sync no longer returns. JSearch jobs are only closed by apply link checks."
+            >
+              Close board jobs unseen for
+              <select
+                value={syncSettings.close_after_days ?? ""}
+                onChange={(e) =>
+                  updateSyncSettings({ close_after_days: e.target.value ? Number(e.target.value) : null })
+                }
+                className="rounded-md border px-2 py-1"
+              >
+                <option value="">Never</option>
+                <option value={7}>7 days</option>
+                <option value={14}>14 days</option>
+                <option value={30}>30 days</option>
+                <option value={60}>60 days</option>
+              </select>
+            </label>
+
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={syncSettings.probe_apply_urls}
+                onChange={(e) => updateSyncSettings({ probe_apply_urls: e.target.checked })}
+              />
+              Check apply links
+            </label>
+
+            {syncSettings.last_synced_at && (
+              <span className={syncSettings.last_sync_ok === false ? "text-red-600" : ""}>
+                Last synced {new Date(syncSettings.last_synced_at).toLocaleString()}
+                {syncSettings.last_sync_ok === false && syncSettings.last_sync_error
+                  ? ` (failed: ${syncSettings.last_sync_error})`
+                  : ""}
+              </span>
+            )}
+          </div>
+        )}
+
+        <DigestSettings />
+
+        <SavedSearches
+          searches={savedSearches}
+          onChange={setSavedSearches}
+          onRun={syncJobs}
+          running={syncing}
+        />
+
+        <JobFilters filters={jobFilters} onChange={applyJobFilters} />
+
         {jobsMsg && <p className="mt-3 text-sm text-gray-700">{jobsMsg}</p>}
 
         <div className="mt-6 space-y-3">
           {jobs.map((j) => (
-            <div key={j.id} className="rounded border p-3">
-              <div className="font-medium">{j.title}</div>
+            <div key={j.id} className={`rounded border p-3 ${j.closed_at ? "bg-gray-50" : ""}`}>
+              <div className="flex items-start justify-between gap-3">
+                <Link href={`/dashboard/jobs/${j.id}?${jobListQuery}`} className="font-medium hover:underline">
+                  {j.title}
+                </Link>
+                <div className="flex shrink-0 gap-1">
+                  {j.closed_reason && (
+                    <span
+                      title={JOB_CLOSED_REASON_LABELS[j.closed_reason]}
+                      className="rounded bg-red-50 px-2 py-0.5 text-xs font-medium text-red-800"
+                    >
+                      Likely closed
+                    </span>
+                  )}
+                  {j.match_score !== null && (
+                    <span className="rounded bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-800">
+                      {j.match_score}% match
+                    </span>
+                  )}
+                </div>
+              </div>
               <div className="text-sm text-gray-600">
                 {j.company_name ?? "Unknown company"} ·{" "}
                 {j.location_text ?? "Unknown location"}
                 {j.is_remote ? " · Remote" : ""}
+                {j.posted_at ? ` · Posted ${new Date(j.posted_at).toLocaleDateString()}` : ""}
               </div>
 
+              {j.saved_search_jobs?.some((t) => searchNames.has(t.saved_search_id)) && (
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {j.saved_search_jobs
+                    .filter((t) => searchNames.has(t.saved_search_id))
+                    .map(({ saved_search_id }) => (
+                      <span key={saved_search_id} className="rounded bg-blue-50 px-2 py-0.5 text-xs text-blue-800">
+                        {searchNames.get(saved_search_id)}
+                      </span>
+                    ))}
+                </div>
+              )}
+
+              {formatSalary(j) && (
+                <div className="text-sm text-gray-700">{formatSalary(j)}</div>
+              )}
+
               {j.apply_url && (
                 <a
                   href={j.apply_url}
@@ -324,24 +786,198 @@ export default function DashboardPage() {
                   Apply link
                 </a>
               )}
+
+              {(j.alternate_apply_urls?.length ?? 0) > 0 && (
+                <span className="ml-3 text-sm text-gray-600">
+                  Also at:{" "}
+                  {j.alternate_apply_urls?.map((url, i) => (
+                    <a
+                      key={url}
+                      href={url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="ml-1 text-blue-600 underline"
+                    >
+                      {i + 1}
+                    </a>
+                  ))}
+                </span>
+              )}
+
+              <select
+                value={j.applications?.[0]?.status ?? ""}
+                onChange={(e) => moveJob(j.id, e.target.value as ApplicationStatus)}
+                className="mt-2 ml-3 rounded border px-1 py-0.5 text-sm"
+              >
+                <option value="" disabled>
+                  Track…
+                </option>
+                {APPLICATION_STATUSES.map((s) => (
+                  <option key={s} value={s}>
+                    {APPLICATION_STATUS_LABELS[s]}
+                  </option>
+                ))}
+              </select>
+
+              <button
+                type="button"
+                className="mt-2 ml-3 text-sm text-black underline"
+                onClick={() => setCoverLetterJobId((id) => (id === j.id ? null : j.id))}
+              >
+                Cover letter
+              </button>
+
+              <button
+                type="button"
+                className="mt-2 ml-3 text-sm text-black underline"
+                onClick={() => setGapsJobId((id) => (id === j.id ? null : j.id))}
+              >
+                {gapsJobId === j.id ? "Hide keyword gaps" : "Keyword gaps"}
+              </button>
+
+              {gapsJobId === j.id && <KeywordGaps jobId={j.id} />}
+
+              {coverLetterJobId === j.id && <CoverLetterPanel job={j} onClose={() => setCoverLetterJobId(null)} />}
+
+              {j.match_breakdown && (
+                <details className="mt-2 text-sm">
+                  <summary className="cursor-pointer text-gray-700">Why this matched</summary>
+                  <ul className="mt-1 space-y-0.5 text-gray-600">
+                    {Object.entries(j.match_breakdown).map(([name, f]) => (
+                      <li key={name}>
+                        <span className="capitalize">{name}</span> ({Math.round(f.score * 100)}%):{" "}
+                        {f.detail}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
             </div>
           ))}
 
           {jobs.length === 0 && (
-            <p className="text-sm text-gray-600">No jobs saved yet.</p>
+            <p className="text-sm text-gray-600">
+              {jobFiltersActive ? "No jobs match these filters." : "No jobs saved yet."}
+            </p>
+          )}
+
+          <div ref={jobsEndRef} />
+          {loadingMoreJobs && <p className="text-sm text-gray-600">Loading more jobs...</p>}
+        </div>
+      </div>
+
+      {/* Application pipeline */}
+      <div className="mt-10">
+        <h2 className="text-xl font-semibold">Applications</h2>
+        <p className="text-gray-600 mt-1">
+          Track where you are with each job. Drag cards between stages.
+        </p>
+
+        <div className="mt-4">
+          {trackedJobs.length > 0 ? (
+            <ApplicationBoard jobs={trackedJobs} onMove={moveJob} />
+          ) : (
+            <p className="text-sm text-gray-600">
+              No tracked jobs yet. Use &quot;Track…&quot; on a job to add it.
+            </p>
           )}
         </div>
       </div>
 
+      {/* Company boards */}
+      <div className="mt-10 max-w-3xl">
+        <h2 className="text-xl font-semibold">Company boards</h2>
+        <p className="text-gray-600 mt-1">
+          Follow public Greenhouse, Lever or Ashby job boards. Use the slug from
+          the board URL (e.g. boards.greenhouse.io/<b>stripe</b>).
+        </p>
+
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <select
+            value={boardSource}
+            onChange={(e) => setBoardSource(e.target.value as BoardSource)}
+            className="rounded-md border px-3 py-2"
+          >
+            <option value="greenhouse">Greenhouse</option>
+            <option value="lever">Lever</option>
+            <option value="ashby">Ashby</option>
+          </select>
+
+          <input
+            value={boardToken}
+            onChange={(e) => setBoardToken(e.target.value)}
+            placeholder="board slug"
+            className="rounded-md border px-3 py-2"
+          />
+
+          <input
+            value={boardCompany}
+            onChange={(e) => setBoardCompany(e.target.value)}
+            placeholder="Company name (optional)"
+            className="rounded-md border px-3 py-2"
+          />
+
+          <button
+            onClick={addBoard}
+            className="rounded-md bg-black text-white px-4 py-2"
+          >
+            Follow
+          </button>
+        </div>
+
+        {boardsMsg && <p className="mt-3 text-sm text-gray-700">{boardsMsg}</p>}
+
+        <div className="mt-4 space-y-2">
+          {boards.map((b) => (
+            <div key={b.id} className="flex items-center justify-between rounded border p-3">
+              <div className="text-sm">
+                <span className="font-medium">{b.company_name ?? b.board_token}</span>
+                <span className="text-gray-600"> · {b.source} / {b.board_token}</span>
+              </div>
+
+              <div className="flex items-center gap-3 text-sm">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={b.enabled}
+                    onChange={() => toggleBoard(b)}
+                  />
+                  Enabled
+                </label>
+                <button onClick={() => removeBoard(b)} className="text-red-600 underline">
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {boards.length === 0 && (
+            <p className="text-sm text-gray-600">Not following any company boards.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Webhooks */}
+      <div className="mt-10 max-w-3xl">
+        <h2 className="text-xl font-semibold">Webhooks</h2>
+        <p className="text-gray-600 mt-1">
+          Push new jobs, strong matches and application updates to your own
+          tools. Each request is signed with the endpoint&apos;s secret in the
+          X-Joblio-Signature header.
+        </p>
+
+        <Webhooks />
+      </div>
+
       {/* Resume Upload */}
       <div className="mt-10 max-w-xl">
         <h2 className="text-xl font-semibold">Upload resume</h2>
-        <p className="text-gray-600 mt-1">PDF only for now.</p>
+        <p className="text-gray-600 mt-1">PDF, Word (.docx), RTF, plain text or Markdown.</p>
 
         <div className="mt-4 space-y-3">
           <input
             type="file"
-            accept="application/pdf"
+            accept={RESUME_ACCEPT}
             className="block w-full"
             onChange={(e) => setFile(e.target.files?.[0] ?? null)}
           />
@@ -360,13 +996,23 @@ export default function DashboardPage() {
             <p className="text-sm text-gray-700">File: {lastUploaded}</p>
           )}
         </div>
+
+        <ResumeLibrary
+          refreshKey={resumeLibraryKey}
+          selectedId={selectedResumeId}
+          onSelect={setSelectedResumeId}
+          onChanged={() => {
+            setProfileReloadKey((k) => k + 1);
+            rescoreJobs();
+          }}
+        />
       </div>
 
       {/* Extract + Preview */}
       <div className="mt-10 max-w-3xl">
         <h2 className="text-xl font-semibold">Resume text preview</h2>
         <p className="text-gray-600 mt-1">
-          Extract text on the server, then preview it here.
+          Extract the selected resume on the server, then preview it here.
         </p>
 
         <div className="mt-4 flex items-center gap-3">
@@ -381,7 +1027,7 @@ export default function DashboardPage() {
 
           {extractData && (
             <p className="text-sm text-gray-700">
-              {extractData.fileName} ({extractData.pageCount} page
+              {extractData.fileName} ({extractData.format.toUpperCase()}, {extractData.pageCount} page
               {extractData.pageCount === 1 ? "" : "s"})
             </p>
           )}
@@ -392,19 +1038,36 @@ export default function DashboardPage() {
         {extractData && (
           <div className="mt-4 rounded-lg border border-gray-200 bg-white">
             <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
-              <p className="text-sm font-medium text-gray-800">Extracted text</p>
-              <button
-                type="button"
-                className="text-sm text-black underline"
-                onClick={() => setExpanded((v) => !v)}
-              >
-                {expanded ? "Collapse" : "Expand"}
-              </button>
+              <p className="text-sm font-medium text-gray-800">{showRaw ? "Extracted text" : "Sections"}</p>
+              <div className="flex items-center gap-3">
+                {showRaw && (
+                  <button
+                    type="button"
+                    className="text-sm text-black underline"
+                    onClick={() => setExpanded((v) => !v)}
+                  >
+                    {expanded ? "Collapse" : "Expand"}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="text-sm text-black underline"
+                  onClick={() => setShowRaw((v) => !v)}
+                >
+                  {showRaw ? "Show sections" : "Show raw text"}
+                </button>
+              </div>
             </div>
 
-            <pre className="whitespace-pre-wrap text-sm text-gray-800 p-4 max-h-[420px] overflow-auto">
-              {previewText}
-            </pre>
+            {showRaw ? (
+              <pre className="whitespace-pre-wrap text-sm text-gray-800 p-4 max-h-[420px] overflow-auto">
+                {previewText}
+              </pre>
+            ) : (
+              <div className="max-h-[420px] overflow-auto">
+                <ResumeStructure sections={extractData.sections} experience={extractData.experience} />
+              </div>
+            )}
 
             <div className="px-4 py-3 border-t border-gray-100">
               <button
@@ -418,16 +1081,14 @@ export default function DashboardPage() {
           </div>
         )}
 
-        {profile && (
-          <details className="mt-4 rounded border p-3">
-            <summary className="cursor-pointer font-medium">
-              Structured profile
-            </summary>
-            <pre className="mt-2 whitespace-pre-wrap text-sm">
-              {JSON.stringify(profile, null, 2)}
-            </pre>
-          </details>
-        )}
+        <ProfileVersions
+          refreshKey={profileVersionsKey}
+          reloadKey={profileReloadKey}
+          onActiveChanged={() => {
+            setResumeLibraryKey((k) => k + 1);
+            rescoreJobs();
+          }}
+        />
       </div>
     </main>
   );
@@ -0,0 +1,41 @@
+/**
+ * Application pipeline stages, in board order.
+ */
+export const APPLICATION_STATUSES = [
+  "saved",
+  "applied",
+  "phone_screen",
+  "onsite",
+  "offer",
+  "rejected",
+  "withdrawn",
+] as const;
+
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  saved: "Saved",
+  applied: "Applied",
+  phone_screen: "Phone screen",
+  onsite: "Onsite",
+  offer: "Offer",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+};
+
+export function isApplicationStatus(v: unknown): v is ApplicationStatus {
+  return typeof v === "string" && (APPLICATION_STATUSES as readonly string[]).includes(v);
+}
+
+/**
+ * One row of public.application_events: a timestamped stage transition.
+ * `from_status` is null for the first event of an application.
+ */
+export type ApplicationEvent = {
+  id: string;
+  job_id: string;
+  from_status: ApplicationStatus | null;
+  to_status: ApplicationStatus;
+  note: string | null;
+  created_at: string;
+};
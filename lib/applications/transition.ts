@@ -0,0 +1,103 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { ApplicationEvent, ApplicationStatus } from "@/lib/applications/status";
+
+export type ApplicationRow = {
+  id: string;
+  job_id: string;
+  status: ApplicationStatus;
+  created_at: string;
+  updated_at: string;
+};
+
+export type TransitionResult = {
+  application: ApplicationRow;
+  event: ApplicationEvent | null; // null when the job was already in `status`
+};
+
+const APPLICATION_COLUMNS = "id, job_id, status, created_at, updated_at";
+const EVENT_COLUMNS = "id, job_id, from_status, to_status, note, created_at";
+
+/**
+ * Move a job to `status`, creating the application on first use,
+ * and append the transition to application_events.
+ * Caller must have verified the job belongs to `userId`.
+ */
+export async function transitionApplication(
+  admin: SupabaseClient,
+  userId: string,
+  jobId: string,
+  status: ApplicationStatus,
+  note: string | null
+): Promise<TransitionResult> {
+  const { data: existing, error: loadErr } = await admin
+    .from("applications")
+    .select(APPLICATION_COLUMNS)
+    .eq("user_id", userId)
+    .eq("job_id", jobId)
+    .maybeSingle<ApplicationRow>();
+
+  if (loadErr) throw new Error(loadErr.message);
+
+  if (existing && existing.status === status) {
+    return { application: existing, event: null };
+  }
+
+  const now = new Date().toISOString();
+
+  const { data: application, error: upsertErr } = await admin
+    .from("applications")
+    .upsert(
+      { user_id: userId, job_id: jobId, status, updated_at: now },
+      { onConflict: "user_id,job_id" }
+    )
+    .select(APPLICATION_COLUMNS)
+    .single<ApplicationRow>();
+
+  if (upsertErr || !application) throw new Error(upsertErr?.message ?? "Failed to save application");
+
+  const { data: event, error: eventErr } = await admin
+    .from("application_events")
+    .insert({
+      application_id: application.id,
+      user_id: userId,
+      job_id: jobId,
+      from_status: existing?.status ?? null,
+      to_status: status,
+      note,
+      created_at: now,
+    })
+    .select(EVENT_COLUMNS)
+    .single<ApplicationEvent>();
+
+  if (eventErr || !event) throw new Error(eventErr?.message ?? "Failed to record status change");
+
+  return { application, event };
+}
+
+export async function loadApplicationHistory(
+  admin: SupabaseClient,
+  userId: string,
+  jobId: string
+): Promise<{ application: ApplicationRow | null; events: ApplicationEvent[] }> {
+  const { data: application, error: appErr } = await admin
+    .from("applications")
+    .select(APPLICATION_COLUMNS)
+    .eq("user_id", userId)
+    .eq("job_id", jobId)
+    .maybeSingle<ApplicationRow>();
+
+  if (appErr) throw new Error(appErr.message);
+
+  const { data: events, error: eventsErr } = await admin
+    .from("application_events")
+    .select(EVENT_COLUMNS)
+    .eq("user_id", userId)
+    .eq("job_id", jobId)
+    .order("created_at", { ascending: true })
+    .returns<ApplicationEvent[]>();
+
+  if (eventsErr) throw new Error(eventsErr.message);
+
+  return { application: application ?? null, events: events ?? [] };
+}
@@ -0,0 +1,158 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { CoverLetterDraft, CoverLetterOptions, CoverLetterRevision } from "@/lib/coverLetters/options";
+
+const DRAFT_COLUMNS = "id, job_id, resume_id, tone, length, body, provider, model, created_at, updated_at";
+const REVISION_COLUMNS = "id, cover_letter_id, body, source, created_at";
+
+async function addRevision(
+  admin: SupabaseClient,
+  userId: string,
+  draft: CoverLetterDraft,
+  source: CoverLetterRevision["source"]
+) {
+  const { error } = await admin.from("cover_letter_revisions").insert({
+    cover_letter_id: draft.id,
+    user_id: userId,
+    body: draft.body,
+    source,
+    created_at: draft.updated_at,
+  });
+
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Save a freshly generated letter as a new draft for the job.
+ * Caller must have verified the job belongs to `userId`.
+ */
+export async function createCoverLetterDraft(
+  admin: SupabaseClient,
+  userId: string,
+  input: CoverLetterOptions & {
+    job_id: string;
+    resume_id: string | null;
+    body: string;
+    provider: string;
+    model: string | null;
+  }
+): Promise<CoverLetterDraft> {
+  const { data: draft, error } = await admin
+    .from("cover_letters")
+    .insert({ user_id: userId, ...input })
+    .select(DRAFT_COLUMNS)
+    .single<CoverLetterDraft>();
+
+  if (error || !draft) throw new Error(error?.message ?? "Failed to save cover letter");
+
+  await addRevision(admin, userId, draft, "generated");
+  return draft;
+}
+
+/**
+ * Drafts for one job, newest first.
+ */
+export async function listCoverLetterDrafts(
+  admin: SupabaseClient,
+  userId: string,
+  jobId: string
+): Promise<CoverLetterDraft[]> {
+  const { data, error } = await admin
+    .from("cover_letters")
+    .select(DRAFT_COLUMNS)
+    .eq("user_id", userId)
+    .eq("job_id", jobId)
+    .order("created_at", { ascending: false })
+    .returns<CoverLetterDraft[]>();
+
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+/**
+ * One draft with its revisions, oldest first. Null when the draft doesn't
+ * exist or isn't for this user's job.
+ */
+export async function loadCoverLetterHistory(
+  admin: SupabaseClient,
+  userId: string,
+  jobId: string,
+  draftId: string
+): Promise<{ draft: CoverLetterDraft; revisions: CoverLetterRevision[] } | null> {
+  const { data: draft, error } = await admin
+    .from("cover_letters")
+    .select(DRAFT_COLUMNS)
+    .eq("user_id", userId)
+    .eq("job_id", jobId)
+    .eq("id", draftId)
+    .maybeSingle<CoverLetterDraft>();
+
+  if (error) throw new Error(error.message);
+  if (!draft) return null;
+
+  const { data: revisions, error: revisionsErr } = await admin
+    .from("cover_letter_revisions")
+    .select(REVISION_COLUMNS)
+    .eq("user_id", userId)
+    .eq("cover_letter_id", draftId)
+    .order("created_at", { ascending: true })
+    .returns<CoverLetterRevision[]>();
+
+  if (revisionsErr) throw new Error(revisionsErr.message);
+
+  return { draft, revisions: revisions ?? [] };
+}
+
+/**
+ * Save an edit to a draft and record it as a revision. Saving the same
+ * text again is a no-op. Null when the draft isn't the user's.
+ */
+export async function updateCoverLetterDraft(
+  admin: SupabaseClient,
+  userId: string,
+  jobId: string,
+  draftId: string,
+  body: string
+): Promise<CoverLetterDraft | null> {
+  const { data: current, error: loadErr } = await admin
+    .from("cover_letters")
+    .select(DRAFT_COLUMNS)
+    .eq("user_id", userId)
+    .eq("job_id", jobId)
+    .eq("id", draftId)
+    .maybeSingle<CoverLetterDraft>();
+
+  if (loadErr) throw new Error(loadErr.message);
+  if (!current) return null;
+  if (current.body === body) return current;
+
+  const { data: draft, error } = await admin
+    .from("cover_letters")
+    .update({ body, updated_at: new Date().toISOString() })
+    .eq("id", draftId)
+    .select(DRAFT_COLUMNS)
+    .single<CoverLetterDraft>();
+
+  if (error || !draft) throw new Error(error?.message ?? "Failed to save cover letter");
+
+  await addRevision(admin, userId, draft, "edited");
+  return draft;
+}
+
+export async function deleteCoverLetterDraft(
+  admin: SupabaseClient,
+  userId: string,
+  jobId: string,
+  draftId: string
+): Promise<boolean> {
+  const { data, error } = await admin
+    .from("cover_letters")
+    .delete()
+    .eq("user_id", userId)
+    .eq("job_id", jobId)
+    .eq("id", draftId)
+    .select("id");
+
+  if (error) throw new Error(error.message);
+  return (data ?? []).length > 0;
+}
@@ -0,0 +1,188 @@
+import { z } from "zod";
+
+import { COVER_LETTER_LENGTH_WORDS, type CoverLetterOptions } from "@/lib/coverLetters/options";
+import { containsTerm } from "@/lib/jobs/match";
+import type { ExtractionTask, LlmProvider } from "@/lib/llm";
+import { toFieldErrors, type ProfileFieldError, type ResumeProfile } from "@/lib/resume/profile";
+
+export const CoverLetterSchema = z.object({
+  greeting: z.string(),
+  paragraphs: z.array(z.string()),
+  closing: z.string(),
+});
+
+export type CoverLetterParts = z.infer<typeof CoverLetterSchema>;
+
+export type CoverLetterJob = {
+  title: string;
+  company_name: string | null;
+  location_text: string | null;
+  description: string | null;
+};
+
+export type CoverLetterContext = {
+  job: CoverLetterJob;
+  profile: ResumeProfile;
+  resumeText: string;
+};
+
+// Keep prompts well inside small context windows; the top of a job
+// description and resume carries most of the signal.
+const MAX_DESCRIPTION_CHARS = 8000;
+const MAX_RESUME_CHARS = 12000;
+
+const GENERATION_TEMPERATURE = 0.7;
+
+function truncate(text: string, max: number) {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items[0] ?? "";
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+function instructions({ tone, length }: CoverLetterOptions): string {
+  return (
+    "You write a cover letter for the candidate applying to the job you are given. " +
+    `Write in a ${tone} tone, about ${COVER_LETTER_LENGTH_WORDS[length]} words across the paragraphs. ` +
+    "Use only facts from the candidate's profile and resume; never invent employers, titles, numbers or skills. " +
+    "Connect the candidate's experience to what the job description asks for. " +
+    "Write the greeting and closing without placeholders like [Name], and the paragraphs as plain text."
+  );
+}
+
+function describeInput({ job, profile, resumeText }: CoverLetterContext): string {
+  const history = profile.work_history
+    .slice(0, 5)
+    .map((h) => `- ${h.title} at ${h.employer} (${h.start_date ?? "?"} to ${h.is_current ? "present" : (h.end_date ?? "?")})`);
+
+  return [
+    `Job: ${job.title}${job.company_name ? ` at ${job.company_name}` : ""}${job.location_text ? ` (${job.location_text})` : ""}`,
+    "Job description:",
+    truncate(job.description ?? "(none)", MAX_DESCRIPTION_CHARS),
+    "",
+    "Candidate profile:",
+    `Roles: ${profile.roles.join(", ") || "(none)"}`,
+    `Skills: ${profile.skills.join(", ") || "(none)"}`,
+    `Seniority: ${profile.seniority || "(unknown)"}`,
+    `Years of experience: ${profile.years_experience ?? "(unknown)"}`,
+    "Work history:",
+    ...(history.length > 0 ? history : ["(none)"]),
+    "",
+    "Resume:",
+    truncate(resumeText, MAX_RESUME_CHARS),
+  ].join("\n");
+}
+
+/**
+ * A fill-in-the-blanks letter from the profile: skills the job description
+ * mentions, recent roles and education, phrased for the tone. Used when no
+ * model is configured.
+ */
+export function heuristicCoverLetter(
+  { job, profile }: CoverLetterContext,
+  { tone, length }: CoverLetterOptions
+): CoverLetterParts {
+  const company = job.company_name;
+  const atCompany = company ? ` at ${company}` : "";
+  const team = company ?? "your team";
+
+  const [latest, previous] = profile.work_history;
+  const years = Math.floor(profile.years_experience ?? 0);
+
+  const intro = {
+    professional: `I am writing to apply for the ${job.title} position${atCompany}.`,
+    friendly: `I'd love to be considered for the ${job.title} role${atCompany}.`,
+    enthusiastic: `I was thrilled to see the ${job.title} opening${atCompany}, and I'm eager to apply.`,
+  }[tone];
+
+  // Short letters skip the experience paragraph, so name the latest role here.
+  const recent = length === "short" && latest ? `, most recently as ${latest.title} at ${latest.employer}` : "";
+  const background = years >= 1 ? ` I bring ${years}+ years of experience${recent}.` : "";
+
+  const matched = profile.skills.filter((s) => containsTerm(job.description ?? "", s)).slice(0, 5);
+  const skills = matched.length > 0 ? matched : profile.skills.slice(0, 5);
+
+  const skillsParagraph =
+    skills.length === 0
+      ? ""
+      : matched.length === 0
+        ? `My core skills include ${joinList(skills)}.`
+        : {
+            professional: `The role calls for ${joinList(skills)}, which I use in my day-to-day work.`,
+            friendly: `I noticed the team works with ${joinList(skills)}, which is right in my wheelhouse.`,
+            enthusiastic: `I'm especially excited that the role involves ${joinList(skills)}. These are the tools I enjoy working with most.`,
+          }[tone];
+
+  const experienceParagraph =
+    length !== "short" && latest
+      ? `Most recently I worked as ${latest.title} at ${latest.employer}` +
+        (previous ? `, and before that as ${previous.title} at ${previous.employer}` : "") +
+        `. I'd bring that experience to ${team}.`
+      : "";
+
+  const school = profile.education[0];
+  const certifications = profile.certifications.slice(0, 3).map((c) => c.name);
+  const educationParagraph =
+    length === "long"
+      ? [
+          school?.degree
+            ? `I hold a ${school.degree}${school.field_of_study ? ` in ${school.field_of_study}` : ""} from ${school.institution}.`
+            : "",
+          certifications.length > 0 ? `I'm also certified in ${joinList(certifications)}.` : "",
+        ]
+          .filter(Boolean)
+          .join(" ")
+      : "";
+
+  const close = {
+    professional: `Thank you for your time and consideration. I would welcome the opportunity to discuss how I can contribute to ${team}.`,
+    friendly: `Thanks for reading. I'd be glad to chat about how I could help ${team}.`,
+    enthusiastic: `Thank you so much for considering my application. I'd love the chance to talk about how I can help ${team} succeed!`,
+  }[tone];
+
+  return {
+    greeting: company ? `Dear ${company} hiring team,` : "Dear hiring manager,",
+    paragraphs: [intro + background, skillsParagraph, experienceParagraph, educationParagraph, close].filter(Boolean),
+    closing: { professional: "Sincerely,", friendly: "Best regards,", enthusiastic: "Warm regards," }[tone],
+  };
+}
+
+export function coverLetterTask(ctx: CoverLetterContext, options: CoverLetterOptions): ExtractionTask<CoverLetterParts> {
+  return {
+    name: "cover_letter",
+    schema: CoverLetterSchema,
+    instructions: instructions(options),
+    input: describeInput(ctx),
+    heuristic: () => heuristicCoverLetter(ctx, options),
+    temperature: GENERATION_TEMPERATURE,
+  };
+}
+
+export function composeCoverLetter(parts: CoverLetterParts): string {
+  return [parts.greeting, ...parts.paragraphs, parts.closing]
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Generate a letter with the given provider. Provider failures throw;
+ * output that doesn't match the schema comes back as field errors.
+ */
+export async function generateCoverLetter(
+  provider: LlmProvider,
+  ctx: CoverLetterContext,
+  options: CoverLetterOptions
+): Promise<{ ok: true; body: string } | { ok: false; errors: ProfileFieldError[] }> {
+  const raw = await provider.extract(coverLetterTask(ctx, options));
+
+  const parsed = CoverLetterSchema.safeParse(raw);
+  if (!parsed.success) return { ok: false, errors: toFieldErrors(parsed.error) };
+
+  const body = composeCoverLetter(parsed.data);
+  if (!body) return { ok: false, errors: [{ path: "paragraphs", message: "Cover letter is empty" }] };
+
+  return { ok: true, body };
+}
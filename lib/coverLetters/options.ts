@@ -0,0 +1,85 @@
+/**
+ * Cover letter generation options. Kept free of server imports so the
+ * dashboard can use them.
+ */
+export const COVER_LETTER_TONES = ["professional", "friendly", "enthusiastic"] as const;
+export const COVER_LETTER_LENGTHS = ["short", "medium", "long"] as const;
+
+export type CoverLetterTone = (typeof COVER_LETTER_TONES)[number];
+export type CoverLetterLength = (typeof COVER_LETTER_LENGTHS)[number];
+
+export type CoverLetterOptions = {
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+};
+
+export const COVER_LETTER_TONE_LABELS: Record<CoverLetterTone, string> = {
+  professional: "Professional",
+  friendly: "Friendly",
+  enthusiastic: "Enthusiastic",
+};
+
+/** Target word counts, also used as labels. */
+export const COVER_LETTER_LENGTH_WORDS: Record<CoverLetterLength, number> = {
+  short: 150,
+  medium: 250,
+  long: 400,
+};
+
+export function isCoverLetterTone(v: unknown): v is CoverLetterTone {
+  return typeof v === "string" && (COVER_LETTER_TONES as readonly string[]).includes(v);
+}
+
+export function isCoverLetterLength(v: unknown): v is CoverLetterLength {
+  return typeof v === "string" && (COVER_LETTER_LENGTHS as readonly string[]).includes(v);
+}
+
+/**
+ * One row of public.cover_letters: the current text of a draft for a job.
+ */
+export type CoverLetterDraft = {
+  id: string;
+  job_id: string;
+  resume_id: string | null;
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+  body: string;
+  provider: string;
+  model: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * One row of public.cover_letter_revisions: a past body of a draft.
+ * The first revision is the generated text; later ones are user edits.
+ */
+export type CoverLetterRevision = {
+  id: string;
+  cover_letter_id: string;
+  body: string;
+  source: "generated" | "edited";
+  created_at: string;
+};
+
+/**
+ * The letter as a Markdown document titled with the job.
+ */
+export function coverLetterToMarkdown(body: string, job: { title: string; company_name: string | null }): string {
+  const heading = job.company_name ? `${job.title} at ${job.company_name}` : job.title;
+  return `# Cover letter: ${heading}\n\n${body.trim()}\n`;
+}
+
+/**
+ * The letter as plain text: Markdown emphasis and links flattened.
+ */
+export function coverLetterToPlainText(body: string): string {
+  return (
+    body
+      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, "$1 ($2)")
+      .replace(/(\*\*|__)(.+?)\1/g, "$2")
+      .replace(/(^|\W)[*_](\S(?:.*?\S)?)[*_](?=\W|$)/g, "$1$2")
+      .replace(/^#{1,6}\s+/gm, "")
+      .trim() + "\n"
+  );
+}
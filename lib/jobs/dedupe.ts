@@ -0,0 +1,342 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { NormalizedJobInsert } from "@/lib/jobs/normalize";
+
+/**
+ * A normalized job after the fuzzy pass: `fingerprint` identifies the
+ * posting across sources/queries, `alternate_apply_urls` keeps the links
+ * of duplicates that were collapsed into it.
+ */
+export type DedupedJob = NormalizedJobInsert & {
+  fingerprint: string | null;
+  alternate_apply_urls: string[];
+};
+
+const TRACKING_PARAMS = new Set([
+  "gclid",
+  "fbclid",
+  "msclkid",
+  "mc_cid",
+  "mc_eid",
+  "ref",
+  "referrer",
+  "refid",
+  "src",
+  "source",
+  "trk",
+  "trackingid",
+  "gh_src",
+  "lever-source",
+  "lever-origin",
+  "utm_id",
+]);
+
+const COMPANY_SUFFIXES = new Set([
+  "inc",
+  "incorporated",
+  "llc",
+  "llp",
+  "ltd",
+  "limited",
+  "corp",
+  "corporation",
+  "co",
+  "company",
+  "plc",
+  "gmbh",
+  "ag",
+  "sa",
+  "bv",
+  "pty",
+]);
+
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+  sr: "senior",
+  jr: "junior",
+  eng: "engineer",
+  engr: "engineer",
+  dev: "developer",
+  mgr: "manager",
+  swe: "software engineer",
+};
+
+// Titles in the same company+location bucket with at least this token
+// overlap are treated as the same posting ("Backend Engineer, Payments" vs "Backend Engineer - Payments").
+const TITLE_SIMILARITY_THRESHOLD = 0.85;
+
+function words(s: string): string[] {
+  return s
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9+#]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+}
+
+/**
+ * Strip tracking params, fragments and trailing slashes so the same
+ * apply link shared through different channels compares equal.
+ */
+export function normalizeApplyUrl(url: string | null): string | null {
+  if (!url) return null;
+
+  let u: URL;
+  try {
+    u = new URL(url.trim());
+  } catch {
+    return url.trim() || null;
+  }
+
+  u.hash = "";
+  u.hostname = u.hostname.toLowerCase().replace(/^www\./, "");
+
+  for (const key of Array.from(u.searchParams.keys())) {
+    const k = key.toLowerCase();
+    if (k.startsWith("utm_") || TRACKING_PARAMS.has(k)) u.searchParams.delete(key);
+  }
+  u.searchParams.sort();
+
+  const path = u.pathname.replace(/\/+$/, "");
+  const query = u.searchParams.toString();
+  return `${u.protocol}//${u.host}${path}${query ? `?${query}` : ""}`;
+}
+
+export function normalizeCompanyName(name: string | null): string {
+  const w = words(name ?? "");
+  while (w.length > 1 && COMPANY_SUFFIXES.has(w[w.length - 1])) w.pop();
+  return w.join(" ");
+}
+
+export function normalizeJobTitle(title: string): string {
+  const stripped = title
+    // "(Remote)", "[Hybrid]" and similar annotations
+    .replace(/[([][^)\]]*(remote|hybrid|on-?site|contract|full[- ]time|part[- ]time)[^)\]]*[)\]]/gi, " ")
+    .replace(/\s[-–|]\s*(remote|hybrid|on-?site)\s*$/i, " ");
+
+  return words(stripped)
+    .map((w) => TITLE_ABBREVIATIONS[w] ?? w)
+    .join(" ");
+}
+
+export function normalizeLocation(job: Pick<NormalizedJobInsert, "location_text" | "city" | "is_remote">): string {
+  const loc = job.city ?? job.location_text ?? "";
+  const w = words(loc);
+  if (w.length === 0) return job.is_remote ? "remote" : "";
+  if (w.includes("remote") || w.includes("anywhere")) return "remote";
+  // First part is the city; region/country spellings vary too much between sources.
+  return words(loc.split(",")[0]).join(" ");
+}
+
+/**
+ * Title + company + location key shared by syndicated copies of a posting.
+ * Null when there's no company name to anchor it.
+ */
+export function getJobFingerprint(job: NormalizedJobInsert): string | null {
+  const company = normalizeCompanyName(job.company_name);
+  if (!company) return null;
+  return `${normalizeJobTitle(job.title)}|${company}|${normalizeLocation(job)}`;
+}
+
+function titleSimilarity(a: string, b: string): number {
+  const ta = new Set(a.split(" "));
+  const tb = new Set(b.split(" "));
+  let overlap = 0;
+  for (const t of ta) if (tb.has(t)) overlap += 1;
+  return overlap / new Set([...ta, ...tb]).size;
+}
+
+/**
+ * Higher is a better canonical copy: direct company boards beat
+ * aggregators, then richer descriptions and stated salaries win.
+ */
+function canonicalRank(job: NormalizedJobInsert): number {
+  let rank = job.source === "jsearch" ? 0 : 1_000_000;
+  rank += Math.min(job.description?.length ?? 0, 100_000);
+  if (job.salary_min !== null || job.salary_max !== null) rank += 500;
+  return rank;
+}
+
+function uniqueUrls(urls: Array<string | null | undefined>, exclude: string | null): string[] {
+  const excluded = normalizeApplyUrl(exclude);
+  const seen = new Set<string>();
+  const out: string[] = [];
+
+  for (const url of urls) {
+    const key = normalizeApplyUrl(url ?? null);
+    if (!url || !key || key === excluded || seen.has(key)) continue;
+    seen.add(key);
+    out.push(url);
+  }
+
+  return out;
+}
+
+type JobIdentity = (job: { source: string; external_job_id: string | null; apply_url: string | null }) => string;
+
+export type CollapseResult = {
+  jobs: DedupedJob[];
+  /** Identity of each folded copy -> identity of the copy it was folded into. */
+  collapsed_into: Map<string, string>;
+};
+
+/**
+ * Secondary dedupe pass over jobs already deduped by source id.
+ * Collapses jobs sharing a normalized apply URL or fingerprint (or a
+ * near-identical title at the same company + location) into the best copy.
+ *
+ * `identityOf` must return the same key sync upserts on.
+ */
+export function collapseNearDuplicates(jobs: NormalizedJobInsert[], identityOf: JobIdentity): CollapseResult {
+  type Group = { members: NormalizedJobInsert[]; fingerprint: string | null; title: string; bucket: string };
+
+  const groups: Group[] = [];
+  const byUrl = new Map<string, Group>();
+  const byFingerprint = new Map<string, Group>();
+  const byBucket = new Map<string, Group[]>();
+
+  for (const job of jobs) {
+    const url = normalizeApplyUrl(job.apply_url);
+    const fingerprint = getJobFingerprint(job);
+    const title = normalizeJobTitle(job.title);
+    const bucket = fingerprint ? fingerprint.slice(fingerprint.indexOf("|") + 1) : "";
+
+    let group = (url && byUrl.get(url)) || (fingerprint && byFingerprint.get(fingerprint)) || undefined;
+
+    if (!group && bucket) {
+      group = byBucket
+        .get(bucket)
+        ?.find((g) => titleSimilarity(g.title, title) >= TITLE_SIMILARITY_THRESHOLD);
+    }
+
+    if (!group) {
+      group = { members: [], fingerprint, title, bucket };
+      groups.push(group);
+      if (bucket) byBucket.set(bucket, [...(byBucket.get(bucket) ?? []), group]);
+    }
+
+    group.members.push(job);
+    if (url) byUrl.set(url, group);
+    if (fingerprint) byFingerprint.set(fingerprint, group);
+  }
+
+  const collapsedInto = new Map<string, string>();
+
+  const collapsed = groups.map((g) => {
+    const canonical = g.members.reduce((best, j) => (canonicalRank(j) > canonicalRank(best) ? j : best));
+    for (const j of g.members) if (j !== canonical) collapsedInto.set(identityOf(j), identityOf(canonical));
+
+    return {
+      ...canonical,
+      fingerprint: getJobFingerprint(canonical) ?? g.fingerprint,
+      alternate_apply_urls: uniqueUrls(
+        g.members.filter((j) => j !== canonical).map((j) => j.apply_url),
+        canonical.apply_url
+      ),
+    };
+  });
+
+  return { jobs: collapsed, collapsed_into: collapsedInto };
+}
+
+type StoredJobRow = {
+  id: string;
+  source: string;
+  external_job_id: string | null;
+  apply_url: string | null;
+  fingerprint: string;
+  alternate_apply_urls: string[] | null;
+};
+
+export type StoredMergeResult = {
+  jobs: DedupedJob[];
+  merged: Array<{ id: string; alternate_apply_urls: string[] }>;
+  /** Stored jobs that incoming copies were folded into, changed or not. */
+  absorbed_ids: string[];
+  /** Identity of each dropped incoming copy -> id of the stored job it was folded into. */
+  absorbed_into: Map<string, string>;
+};
+
+/**
+ * Match incoming jobs against what the user already has by fingerprint.
+ * Incoming copies of a stored posting (different source/id) are dropped and
+ * their links added to the stored job's alternates; incoming jobs that are
+ * the stored row itself keep its previously collected alternates.
+ *
+ * `identityOf` must return the same key sync upserts on.
+ */
+export async function mergeWithStoredDuplicates(
+  admin: SupabaseClient,
+  userId: string,
+  jobs: DedupedJob[],
+  identityOf: JobIdentity
+): Promise<StoredMergeResult> {
+  const fingerprints = Array.from(new Set(jobs.map((j) => j.fingerprint).filter((f): f is string => Boolean(f))));
+  if (fingerprints.length === 0) return { jobs, merged: [], absorbed_ids: [], absorbed_into: new Map() };
+
+  const stored: StoredJobRow[] = [];
+  for (let i = 0; i < fingerprints.length; i += 100) {
+    const { data, error } = await admin
+      .from("jobs")
+      .select("id, source, external_job_id, apply_url, fingerprint, alternate_apply_urls")
+      .eq("user_id", userId)
+      .in("fingerprint", fingerprints.slice(i, i + 100))
+      .returns<StoredJobRow[]>();
+
+    if (error) throw new Error(error.message);
+    stored.push(...(data ?? []));
+  }
+
+  const byIdentity = new Map(stored.map((s) => [identityOf(s), s]));
+  const byFingerprint = new Map<string, StoredJobRow>();
+  for (const s of stored) if (!byFingerprint.has(s.fingerprint)) byFingerprint.set(s.fingerprint, s);
+
+  const out: DedupedJob[] = [];
+  const outByStoredId = new Map<string, number>();
+  const pending = new Map<string, { row: StoredJobRow; urls: string[] }>();
+  const absorbedInto = new Map<string, string>();
+
+  for (const job of jobs) {
+    const same = byIdentity.get(identityOf(job));
+    if (same) {
+      outByStoredId.set(same.id, out.length);
+      out.push({
+        ...job,
+        alternate_apply_urls: uniqueUrls([...(same.alternate_apply_urls ?? []), ...job.alternate_apply_urls], job.apply_url),
+      });
+      continue;
+    }
+
+    const dup = job.fingerprint ? byFingerprint.get(job.fingerprint) : undefined;
+    if (!dup) {
+      out.push(job);
+      continue;
+    }
+
+    absorbedInto.set(identityOf(job), dup.id);
+    const p = pending.get(dup.id) ?? { row: dup, urls: [...(dup.alternate_apply_urls ?? [])] };
+    p.urls.push(...[job.apply_url, ...job.alternate_apply_urls].filter((u): u is string => Boolean(u)));
+    pending.set(dup.id, p);
+  }
+
+  const merged: StoredMergeResult["merged"] = [];
+  for (const { row, urls } of pending.values()) {
+    // The stored job is being re-upserted in this batch; fold links into that write.
+    const idx = outByStoredId.get(row.id);
+    if (idx !== undefined) {
+      const job = out[idx];
+      out[idx] = { ...job, alternate_apply_urls: uniqueUrls([...job.alternate_apply_urls, ...urls], job.apply_url) };
+      continue;
+    }
+
+    const next = uniqueUrls(urls, row.apply_url);
+    if (next.length === (row.alternate_apply_urls ?? []).length) continue;
+
+    const { error } = await admin.from("jobs").update({ alternate_apply_urls: next }).eq("id", row.id);
+    if (error) throw new Error(error.message);
+    merged.push({ id: row.id, alternate_apply_urls: next });
+  }
+
+  return { jobs: out, merged, absorbed_ids: Array.from(pending.keys()), absorbed_into: absorbedInto };
+}
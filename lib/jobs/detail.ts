@@ -0,0 +1,72 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { ApplicationStatus } from "@/lib/applications/status";
+import { JOB_LIST_COLUMNS, type JobClosedReason } from "@/lib/jobs/list";
+import type { MatchBreakdown } from "@/lib/jobs/match";
+import { htmlToText, type JobSource } from "@/lib/jobs/normalize";
+
+/**
+ * Everything stored for one job, for the job detail page. `description`
+ * is always plain text.
+ */
+export type JobDetail = {
+  id: string;
+  source: JobSource;
+  external_job_id: string;
+  title: string;
+  company_name: string | null;
+  company_website: string | null;
+  location_text: string | null;
+  city: string | null;
+  region: string | null;
+  country: string | null;
+  is_remote: boolean;
+  remote_type: string | null;
+  employment_type: string | null;
+  description: string | null;
+  posted_at: string | null;
+  created_at: string;
+  updated_at: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  closed_at: string | null;
+  closed_reason: JobClosedReason | null;
+  apply_url_checked_at: string | null;
+  apply_url: string | null;
+  alternate_apply_urls: string[] | null;
+  salary_min: number | null;
+  salary_max: number | null;
+  salary_currency: string | null;
+  salary_period: string | null;
+  salary_annual_min: number | null;
+  salary_annual_max: number | null;
+  match_score: number | null;
+  match_breakdown: MatchBreakdown | null;
+  applications: Array<{ status: ApplicationStatus; updated_at: string }> | null;
+  saved_search_jobs: Array<{ saved_search_id: string }> | null;
+  raw: Record<string, unknown> | null;
+};
+
+// Includes every list sort column, so the job can be placed in the list.
+const JOB_DETAIL_COLUMNS = `${JOB_LIST_COLUMNS}, external_job_id, company_website, city, region, country, remote_type, description, updated_at, first_seen_at, apply_url_checked_at, raw`;
+
+// Rows saved before descriptions were converted on sync may still hold markup.
+const HTML_TAG = /<\/?[a-z][a-z0-9]*(\s[^>]*)?\/?>/i;
+
+/**
+ * One of the user's jobs, or null when it isn't theirs.
+ */
+export async function loadJobDetail(admin: SupabaseClient, userId: string, jobId: string): Promise<JobDetail | null> {
+  const { data, error } = await admin
+    .from("jobs")
+    .select(JOB_DETAIL_COLUMNS)
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle<JobDetail>();
+
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+
+  const description = data.description && HTML_TAG.test(data.description) ? htmlToText(data.description) : data.description;
+  return { ...data, description };
+}
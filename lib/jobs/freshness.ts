@@ -0,0 +1,219 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { JobClosedReason } from "@/lib/jobs/list";
+import { requestPublicUrl } from "@/lib/net/publicRequest";
+
+/**
+ * The freshness columns of public.job_sync_settings. `close_after_days`
+ * null means unseen jobs are never closed.
+ */
+export type FreshnessSettings = {
+  close_after_days: number | null;
+  probe_apply_urls: boolean;
+};
+
+export const DEFAULT_FRESHNESS_SETTINGS: FreshnessSettings = { close_after_days: 14, probe_apply_urls: false };
+
+export const FRESHNESS_SETTINGS_COLUMNS = "close_after_days, probe_apply_urls";
+
+/** What probing an apply link says about the posting; null when it couldn't tell. */
+export type ApplyUrlProbe = "open" | "gone" | "redirect" | null;
+
+const ID_CHUNK = 100;
+
+const PROBE_TIMEOUT_MS = 8_000;
+
+// Links are re-probed at most this often, and only for jobs the current
+// sync didn't return.
+const PROBE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_MAX_PROBES = 20;
+
+// Paths job sites send dead postings to.
+const LISTING_PATH = /(^|\/)(careers?|jobs|job-search|search|openings|positions|vacancies)$/;
+
+function getIntEnv(name: string, fallback: number): number {
+  const n = Number(process.env[name] ?? "");
+  return Number.isInteger(n) && n >= 0 ? n : fallback;
+}
+
+function trimPath(url: URL): string {
+  return url.pathname.replace(/\/+$/, "").toLowerCase();
+}
+
+/**
+ * Whether a redirect from a posting lands on a generic page: the site
+ * root, a careers/jobs index, a parent of the posting's own path, or
+ * Greenhouse's `?error=true` board.
+ */
+function isListingRedirect(from: URL, to: URL): boolean {
+  if (to.searchParams.has("error")) return true;
+
+  const path = trimPath(to);
+  if (path === "" || LISTING_PATH.test(path)) return true;
+  return trimPath(from).startsWith(`${path}/`);
+}
+
+export async function loadFreshnessSettings(admin: SupabaseClient, userId: string): Promise<FreshnessSettings> {
+  const { data, error } = await admin
+    .from("job_sync_settings")
+    .select(FRESHNESS_SETTINGS_COLUMNS)
+    .eq("user_id", userId)
+    .maybeSingle<FreshnessSettings>();
+
+  if (error) throw new Error(error.message);
+  return data ?? DEFAULT_FRESHNESS_SETTINGS;
+}
+
+/**
+ * Record that sync just saw these jobs, reopening any closed only for not
+ * being seen. Jobs closed by their apply link stay closed: aggregators keep
+ * listing postings whose link is dead.
+ */
+export async function markJobsSeen(admin: SupabaseClient, userId: string, jobIds: string[], now = new Date()) {
+  for (let i = 0; i < jobIds.length; i += ID_CHUNK) {
+    const ids = jobIds.slice(i, i + ID_CHUNK);
+
+    const { error } = await admin
+      .from("jobs")
+      .update({ last_seen_at: now.toISOString() })
+      .eq("user_id", userId)
+      .in("id", ids);
+    if (error) throw new Error(error.message);
+
+    const { error: reopenErr } = await admin
+      .from("jobs")
+      .update({ closed_at: null, closed_reason: null })
+      .eq("user_id", userId)
+      .in("id", ids)
+      .eq("closed_reason", "not_seen" satisfies JobClosedReason);
+    if (reopenErr) throw new Error(reopenErr.message);
+  }
+}
+
+/**
+ * Close open jobs from `sources` that no sync has returned for
+ * `closeAfterDays`. Callers pass only company-board sources this run
+ * fetched without errors, so an outage doesn't close everything. Returns
+ * the number closed.
+ */
+export async function closeUnseenJobs(
+  admin: SupabaseClient,
+  userId: string,
+  sources: string[],
+  closeAfterDays: number,
+  now = new Date()
+): Promise<number> {
+  if (sources.length === 0) return 0;
+
+  const cutoff = new Date(now.getTime() - closeAfterDays * 24 * 60 * 60 * 1000);
+
+  const { data, error } = await admin
+    .from("jobs")
+    .update({ closed_at: now.toISOString(), closed_reason: "not_seen" satisfies JobClosedReason })
+    .eq("user_id", userId)
+    .in("source", sources)
+    .is("closed_at", null)
+    .lt("last_seen_at", cutoff.toISOString())
+    .select("id")
+    .returns<Array<{ id: string }>>();
+
+  if (error) throw new Error(error.message);
+  return (data ?? []).length;
+}
+
+/**
+ * Request an apply link without following redirects. 404/410 means the
+ * posting is gone; a redirect to a careers index or the site root means
+ * it was taken down. Links that resolve to a private address are never
+ * requested.
+ */
+export async function probeApplyUrl(raw: string): Promise<ApplyUrlProbe> {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+
+  const request = (method: "HEAD" | "GET") =>
+    requestPublicUrl(url, {
+      method,
+      headers: { "User-Agent": "Joblio-LinkCheck/1.0" },
+      timeoutMs: PROBE_TIMEOUT_MS,
+    });
+
+  try {
+    let r = await request("HEAD");
+    // Some job sites don't implement HEAD.
+    if (r.status === 405 || r.status === 501) r = await request("GET");
+
+    if (r.status === 404 || r.status === 410) return "gone";
+
+    if (r.status >= 300 && r.status < 400) {
+      if (!r.location) return null;
+      return isListingRedirect(url, new URL(r.location, url)) ? "redirect" : "open";
+    }
+
+    return r.status >= 200 && r.status < 300 ? "open" : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Probe the apply links of open jobs that sync didn't return since
+ * `seenBefore` (the run's start), oldest-checked first, and close the
+ * ones that are gone. At most JOB_PROBE_MAX_URLS (default 20) per call.
+ * Returns the number closed.
+ */
+export async function probeUnseenJobs(
+  admin: SupabaseClient,
+  userId: string,
+  seenBefore: Date,
+  now = new Date()
+): Promise<number> {
+  const limit = getIntEnv("JOB_PROBE_MAX_URLS", DEFAULT_MAX_PROBES);
+  if (limit === 0) return 0;
+
+  const recheckBefore = new Date(now.getTime() - PROBE_INTERVAL_MS).toISOString();
+
+  const { data, error } = await admin
+    .from("jobs")
+    .select("id, apply_url")
+    .eq("user_id", userId)
+    .is("closed_at", null)
+    .not("apply_url", "is", null)
+    .lt("last_seen_at", seenBefore.toISOString())
+    .or(`apply_url_checked_at.is.null,apply_url_checked_at.lt."${recheckBefore}"`)
+    .order("apply_url_checked_at", { ascending: true, nullsFirst: true })
+    .limit(limit)
+    .returns<Array<{ id: string; apply_url: string }>>();
+
+  if (error) throw new Error(error.message);
+
+  let closed = 0;
+
+  for (const job of data ?? []) {
+    const probe = await probeApplyUrl(job.apply_url);
+    const reason: JobClosedReason | null =
+      probe === "gone" ? "apply_url_gone" : probe === "redirect" ? "apply_url_redirect" : null;
+
+    const { error: updateErr } = await admin
+      .from("jobs")
+      .update({
+        apply_url_checked_at: now.toISOString(),
+        ...(reason ? { closed_at: now.toISOString(), closed_reason: reason } : {}),
+      })
+      .eq("id", job.id);
+
+    // One failed write shouldn't stop the remaining probes.
+    if (updateErr) {
+      console.error(`apply link check not recorded for job ${job.id}: ${updateErr.message}`);
+      continue;
+    }
+    if (reason) closed += 1;
+  }
+
+  return closed;
+}
@@ -0,0 +1,123 @@
+import type { JobKeywords } from "@/lib/jobs/keywords";
+import { containsTerm } from "@/lib/jobs/match";
+import { SKILL_ALIASES } from "@/lib/resume/knownSkills";
+import { segmentResume } from "@/lib/resume/sections";
+
+export type KeywordImportance = "required" | "nice_to_have";
+
+/**
+ * `partial`: the resume uses another spelling ("Postgres" for
+ * "PostgreSQL") or covers only some words of a multi-word term.
+ */
+export type KeywordCoverage = "matched" | "partial" | "missing";
+
+export type KeywordGap = {
+  term: string;
+  importance: KeywordImportance;
+  coverage: KeywordCoverage;
+  /** Where the posting mentions the term, when it does verbatim. */
+  job_excerpt: string | null;
+  /** Resume sections (and "Profile skills") the term was found in. */
+  resume_locations: string[];
+  /** What the resume says instead, for partial matches. */
+  matched_as: string | null;
+};
+
+export type KeywordGapAnalysis = {
+  keywords: KeywordGap[];
+  counts: Record<KeywordImportance, Record<KeywordCoverage, number>>;
+};
+
+const PROFILE_SKILLS_LOCATION = "Profile skills";
+const EXCERPT_RADIUS = 80;
+
+const WORD_STOPWORDS = new Set(["and", "or", "the", "of", "for", "with", "in", "on", "to"]);
+
+const COVERAGE_ORDER: Record<KeywordCoverage, number> = { missing: 0, partial: 1, matched: 2 };
+
+function excerpt(text: string, term: string): string | null {
+  const lines = text.split(/\n|(?<=[.;])\s+/);
+  const line = lines.find((l) => containsTerm(l, term));
+  if (!line) return null;
+
+  const trimmed = line.replace(/^[\s•*–-]+/, "").trim();
+  if (trimmed.length <= EXCERPT_RADIUS * 2) return trimmed;
+
+  const at = Math.max(0, trimmed.toLowerCase().indexOf(term.toLowerCase()));
+  const start = Math.max(0, at - EXCERPT_RADIUS);
+  const end = Math.min(trimmed.length, at + term.length + EXCERPT_RADIUS);
+  return `${start > 0 ? "…" : ""}${trimmed.slice(start, end).trim()}${end < trimmed.length ? "…" : ""}`;
+}
+
+function aliasesOf(term: string): string[] {
+  const t = term.toLowerCase();
+  const group = SKILL_ALIASES.find((g) => g.some((a) => a.toLowerCase() === t));
+  return group ? group.filter((a) => a.toLowerCase() !== t) : [];
+}
+
+/**
+ * Compare a posting's keywords with a resume's text and profile skills.
+ * Missing terms sort first within required, then nice-to-have.
+ */
+export function analyzeKeywordGaps(
+  job: { description: string | null },
+  keywords: JobKeywords,
+  resume: { text: string; skills: string[] }
+): KeywordGapAnalysis {
+  const { sections } = segmentResume(resume.text);
+  const skills = resume.skills.map((s) => s.toLowerCase());
+
+  function locate(term: string): string[] {
+    const found = sections
+      .filter((s) => containsTerm(s.text, term) || (s.heading !== null && containsTerm(s.heading, term)))
+      .map((s) => s.heading ?? s.kind);
+    if (skills.includes(term.toLowerCase())) found.unshift(PROFILE_SKILLS_LOCATION);
+    return Array.from(new Set(found));
+  }
+
+  function assess(term: string, importance: KeywordImportance): KeywordGap {
+    const base = { term, importance, job_excerpt: excerpt(job.description ?? "", term) };
+
+    const exact = locate(term);
+    if (exact.length > 0) return { ...base, coverage: "matched", resume_locations: exact, matched_as: null };
+
+    for (const alias of aliasesOf(term)) {
+      const found = locate(alias);
+      if (found.length > 0) return { ...base, coverage: "partial", resume_locations: found, matched_as: alias };
+    }
+
+    const words = term
+      .split(/\s+/)
+      .filter((w) => w.length > 2 && !WORD_STOPWORDS.has(w.toLowerCase()));
+    if (words.length > 1) {
+      const present = words.filter((w) => locate(w).length > 0);
+      if (present.length * 2 >= words.length) {
+        return {
+          ...base,
+          coverage: "partial",
+          resume_locations: Array.from(new Set(present.flatMap(locate))),
+          matched_as: present.join(" "),
+        };
+      }
+    }
+
+    return { ...base, coverage: "missing", resume_locations: [], matched_as: null };
+  }
+
+  const keywordsOut = [
+    ...keywords.required.map((t) => assess(t, "required")),
+    ...keywords.nice_to_have.map((t) => assess(t, "nice_to_have")),
+  ].sort(
+    (a, b) =>
+      (a.importance === b.importance ? 0 : a.importance === "required" ? -1 : 1) ||
+      COVERAGE_ORDER[a.coverage] - COVERAGE_ORDER[b.coverage]
+  );
+
+  const counts: KeywordGapAnalysis["counts"] = {
+    required: { matched: 0, partial: 0, missing: 0 },
+    nice_to_have: { matched: 0, partial: 0, missing: 0 },
+  };
+  for (const k of keywordsOut) counts[k.importance][k.coverage] += 1;
+
+  return { keywords: keywordsOut, counts };
+}
@@ -0,0 +1,126 @@
+import { z } from "zod";
+
+import { containsTerm } from "@/lib/jobs/match";
+import type { ExtractionTask, LlmProvider } from "@/lib/llm";
+import { KNOWN_KEYWORDS, KNOWN_SKILLS } from "@/lib/resume/knownSkills";
+import { toFieldErrors, type ProfileFieldError } from "@/lib/resume/profile";
+
+export const JobKeywordsSchema = z.object({
+  required: z.array(z.string()),
+  nice_to_have: z.array(z.string()),
+});
+
+export type JobKeywords = z.infer<typeof JobKeywordsSchema>;
+
+const KEYWORDS_INSTRUCTIONS =
+  "You list the skills, technologies, tools, certifications and domain keywords a job posting asks for. " +
+  "Put hard requirements in `required` and preferred or bonus items in `nice_to_have`. " +
+  "Use short canonical names (1-4 words, e.g. \"PostgreSQL\", \"distributed systems\"), not sentences, " +
+  "and leave out soft skills, benefits and anything about the company.";
+
+const MAX_KEYWORDS = 40;
+const MAX_DESCRIPTION_CHARS = 12000;
+
+const NICE_RE = /\b(nice[- ]to[- ]haves?|preferred|bonus|pluses|a plus|desirable|good to have|ideally)\b/i;
+const REQUIRED_HEADING_RE = /\b(requirements?|qualifications|must[- ]haves?|what you(?:'ll)? (?:need|bring)|you have|about you)\b/i;
+
+// Headings without a trailing colon: "Preferred Qualifications", "Nice to have".
+const BARE_HEADING_RE =
+  /^(?:#+\s*)?(?:(?:basic|minimum|required|preferred|desired|bonus|additional)\s+)?(?:nice[- ]to[- ]haves?|good to have|bonus points|pluses|requirements|qualifications|skills|must[- ]haves?|what you(?:'ll)? (?:need|bring)|you have|about you)$/i;
+
+// Headings are short lines; postings flattened from HTML are split on
+// bullets and sentence ends instead.
+const MAX_HEADING_LENGTH = 60;
+
+/**
+ * Only real heading lines switch section; a bullet such as "Kafka is a
+ * plus" is a cue for its own line.
+ */
+function isHeading(fragment: string): boolean {
+  if (fragment.length > MAX_HEADING_LENGTH) return false;
+  return fragment.endsWith(":") || BARE_HEADING_RE.test(fragment);
+}
+
+function splitFragments(description: string): string[] {
+  return description
+    .split(/\n|•|(?<=[.;])\s+(?=[A-Z])/)
+    .map((l) => l.trim())
+    .filter(Boolean);
+}
+
+function dedupeCaseless(items: string[]): string[] {
+  const seen = new Set<string>();
+  return items.filter((s) => {
+    const k = s.toLowerCase();
+    if (!s || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * Known skills and keywords found in the description, sorted into
+ * required and nice-to-have by the section they appear in ("Preferred
+ * qualifications") or a cue on the same line ("Kafka is a plus").
+ * `extraTerms` (e.g. the candidate's own skills) widen the vocabulary.
+ */
+export function heuristicJobKeywords(description: string, extraTerms: string[] = []): JobKeywords {
+  const vocabulary = dedupeCaseless([...KNOWN_SKILLS, ...KNOWN_KEYWORDS, ...extraTerms.map((t) => t.trim())]);
+
+  const required: string[] = [];
+  const nice: string[] = [];
+  let section: "required" | "nice" | null = null;
+
+  for (const fragment of splitFragments(description)) {
+    if (isHeading(fragment)) {
+      if (NICE_RE.test(fragment)) section = "nice";
+      else if (REQUIRED_HEADING_RE.test(fragment)) section = "required";
+    }
+
+    const terms = vocabulary.filter((t) => containsTerm(fragment, t));
+    if (NICE_RE.test(fragment) || section === "nice") nice.push(...terms);
+    else required.push(...terms);
+  }
+
+  return normalizeJobKeywords({ required, nice_to_have: nice });
+}
+
+/**
+ * Trim and dedupe; a term listed as both is required.
+ */
+export function normalizeJobKeywords(keywords: JobKeywords): JobKeywords {
+  const required = dedupeCaseless(keywords.required.map((t) => t.trim())).slice(0, MAX_KEYWORDS);
+  const taken = new Set(required.map((t) => t.toLowerCase()));
+  const nice = dedupeCaseless(keywords.nice_to_have.map((t) => t.trim()))
+    .filter((t) => !taken.has(t.toLowerCase()))
+    .slice(0, MAX_KEYWORDS);
+
+  return { required, nice_to_have: nice };
+}
+
+export function jobKeywordsTask(description: string, extraTerms: string[] = []): ExtractionTask<JobKeywords> {
+  return {
+    name: "job_keywords",
+    schema: JobKeywordsSchema,
+    instructions: KEYWORDS_INSTRUCTIONS,
+    input: description.slice(0, MAX_DESCRIPTION_CHARS),
+    heuristic: () => heuristicJobKeywords(description, extraTerms),
+  };
+}
+
+/**
+ * Extract a posting's keywords with the given provider. Provider failures
+ * throw; output that doesn't match the schema comes back as field errors.
+ */
+export async function extractJobKeywords(
+  provider: LlmProvider,
+  description: string,
+  extraTerms: string[] = []
+): Promise<{ ok: true; keywords: JobKeywords } | { ok: false; errors: ProfileFieldError[] }> {
+  const raw = await provider.extract(jobKeywordsTask(description, extraTerms));
+
+  const parsed = JobKeywordsSchema.safeParse(raw);
+  if (!parsed.success) return { ok: false, errors: toFieldErrors(parsed.error) };
+
+  return { ok: true, keywords: normalizeJobKeywords(parsed.data) };
+}
@@ -0,0 +1,400 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { JobSource } from "@/lib/jobs/normalize";
+import { EMPLOYMENT_TYPES, type EmploymentType } from "@/lib/jobs/savedSearches";
+
+export const JOB_LIST_SORTS = ["recent", "posted", "salary", "match"] as const;
+
+export type JobListSort = (typeof JOB_LIST_SORTS)[number];
+
+export const JOB_LIST_SORT_LABELS: Record<JobListSort, string> = {
+  recent: "Newest found",
+  posted: "Newest posted",
+  salary: "Highest salary",
+  match: "Best match",
+};
+
+export const JOB_SOURCES = ["jsearch", "greenhouse", "lever", "ashby"] as const satisfies readonly JobSource[];
+
+export const JOB_SOURCE_LABELS: Record<JobSource, string> = {
+  jsearch: "JSearch",
+  greenhouse: "Greenhouse",
+  lever: "Lever",
+  ashby: "Ashby",
+};
+
+/**
+ * Why a job looks closed: sync stopped returning it, or its apply link
+ * 404s or redirects to a careers page. See lib/jobs/freshness.ts.
+ */
+export const JOB_CLOSED_REASONS = ["not_seen", "apply_url_gone", "apply_url_redirect"] as const;
+
+export type JobClosedReason = (typeof JOB_CLOSED_REASONS)[number];
+
+export const JOB_CLOSED_REASON_LABELS: Record<JobClosedReason, string> = {
+  not_seen: "No longer listed",
+  apply_url_gone: "Apply link is gone",
+  apply_url_redirect: "Apply link redirects to a careers page",
+};
+
+/**
+ * Filters for GET /api/jobs. Salaries are annualized (salary_annual_*).
+ * Jobs with no stated salary, posting date or employment type drop out of
+ * those filters.
+ */
+export type JobListFilters = {
+  /** Words that must each appear in the title, company or description. */
+  q?: string;
+  remote?: boolean;
+  employment_types?: EmploymentType[];
+  min_salary?: number;
+  max_salary?: number;
+  posted_within_days?: number;
+  source?: JobSource;
+  /** Substring of the company name. */
+  company?: string;
+  min_score?: number;
+  /** Closed jobs are left out unless this is set. */
+  include_closed?: boolean;
+  sort?: JobListSort;
+};
+
+export type JobListQuery = JobListFilters & {
+  cursor?: string;
+  limit?: number;
+};
+
+export const JOB_LIST_DEFAULT_LIMIT = 25;
+export const JOB_LIST_MAX_LIMIT = 100;
+
+const MAX_QUERY_TERMS = 8;
+const MAX_TEXT_LENGTH = 200;
+
+// Sort key per sort, always descending with nulls last; id breaks ties.
+const SORT_COLUMNS: Record<JobListSort, string> = {
+  recent: "created_at",
+  posted: "posted_at",
+  salary: "salary_annual_max",
+  match: "match_score",
+};
+
+// Stored employment types are free text; these mirror normalizeEmploymentType.
+const EMPLOYMENT_TYPE_PATTERNS: Record<EmploymentType, string[]> = {
+  FULLTIME: ["full*"],
+  PARTTIME: ["part*"],
+  CONTRACTOR: ["contract*", "freelance", "temporary"],
+  INTERN: ["intern*"],
+};
+
+function isOneOf<T extends string>(allowed: readonly T[], v: string): v is T {
+  return (allowed as readonly string[]).includes(v);
+}
+
+/**
+ * Quote a value for a PostgREST `or=(...)` filter, so commas, dots and
+ * parentheses in it aren't read as syntax.
+ */
+function quoteFilterValue(v: string | number): string {
+  return `"${String(v).replace(/["\\]/g, "\\$&")}"`;
+}
+
+// `*` and `%` are wildcards in ilike patterns; searches match literally.
+function stripWildcards(v: string): string {
+  return v.replace(/[*%]/g, "");
+}
+
+/**
+ * Read filters, sort, cursor and limit from query params. Lists are
+ * comma-separated; unknown params are ignored.
+ */
+export function parseJobListQuery(
+  params: URLSearchParams
+): { ok: true; query: JobListQuery } | { ok: false; error: string } {
+  const query: JobListQuery = {};
+  const get = (name: string) => params.get(name)?.trim() || undefined;
+
+  const nonNegativeInt = (name: string, max: number): number | undefined | null => {
+    const raw = get(name);
+    if (raw === undefined) return undefined;
+    const n = Number(raw);
+    return Number.isInteger(n) && n >= 0 && n <= max ? n : null;
+  };
+
+  const q = get("q");
+  if (q) {
+    if (q.length > MAX_TEXT_LENGTH) return { ok: false, error: `q must be at most ${MAX_TEXT_LENGTH} characters` };
+    query.q = q;
+  }
+
+  const remote = get("remote");
+  if (remote) {
+    if (remote !== "true" && remote !== "false") return { ok: false, error: "remote must be true or false" };
+    query.remote = remote === "true";
+  }
+
+  const types = (get("employment_types") ?? "")
+    .split(",")
+    .map((t) => t.trim().toUpperCase())
+    .filter(Boolean);
+  if (types.length > 0) {
+    if (!types.every((t) => isOneOf(EMPLOYMENT_TYPES, t))) {
+      return { ok: false, error: `employment_types must be a list of: ${EMPLOYMENT_TYPES.join(", ")}` };
+    }
+    query.employment_types = types as EmploymentType[];
+  }
+
+  const minSalary = nonNegativeInt("min_salary", 100_000_000);
+  const maxSalary = nonNegativeInt("max_salary", 100_000_000);
+  if (minSalary === null || maxSalary === null) {
+    return { ok: false, error: "min_salary and max_salary must be non-negative whole numbers" };
+  }
+  if (minSalary !== undefined && maxSalary !== undefined && minSalary > maxSalary) {
+    return { ok: false, error: "min_salary must not exceed max_salary" };
+  }
+  if (minSalary) query.min_salary = minSalary;
+  if (maxSalary !== undefined) query.max_salary = maxSalary;
+
+  const postedWithin = nonNegativeInt("posted_within_days", 365);
+  if (postedWithin === null || postedWithin === 0) {
+    return { ok: false, error: "posted_within_days must be a whole number between 1 and 365" };
+  }
+  if (postedWithin !== undefined) query.posted_within_days = postedWithin;
+
+  const source = get("source");
+  if (source) {
+    if (!isOneOf(JOB_SOURCES, source)) return { ok: false, error: `source must be one of: ${JOB_SOURCES.join(", ")}` };
+    query.source = source;
+  }
+
+  const company = get("company");
+  if (company) {
+    if (company.length > MAX_TEXT_LENGTH) {
+      return { ok: false, error: `company must be at most ${MAX_TEXT_LENGTH} characters` };
+    }
+    query.company = company;
+  }
+
+  const minScore = nonNegativeInt("min_score", 100);
+  if (minScore === null) return { ok: false, error: "min_score must be a whole number between 0 and 100" };
+  if (minScore) query.min_score = minScore;
+
+  const includeClosed = get("include_closed");
+  if (includeClosed) {
+    if (includeClosed !== "true" && includeClosed !== "false") {
+      return { ok: false, error: "include_closed must be true or false" };
+    }
+    if (includeClosed === "true") query.include_closed = true;
+  }
+
+  const sort = get("sort");
+  if (sort) {
+    if (!isOneOf(JOB_LIST_SORTS, sort)) return { ok: false, error: `sort must be one of: ${JOB_LIST_SORTS.join(", ")}` };
+    query.sort = sort;
+  }
+
+  const limit = nonNegativeInt("limit", JOB_LIST_MAX_LIMIT);
+  if (limit === null || limit === 0) {
+    return { ok: false, error: `limit must be a whole number between 1 and ${JOB_LIST_MAX_LIMIT}` };
+  }
+  if (limit !== undefined) query.limit = limit;
+
+  const cursor = get("cursor");
+  if (cursor) {
+    if (!decodeCursor(query.sort ?? "recent", cursor)) {
+      return { ok: false, error: "cursor is invalid or belongs to a different sort" };
+    }
+    query.cursor = cursor;
+  }
+
+  return { ok: true, query };
+}
+
+/**
+ * The query string for GET /api/jobs; the inverse of parseJobListQuery.
+ */
+export function toJobListParams(query: JobListQuery): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (query.q?.trim()) params.set("q", query.q.trim());
+  if (query.remote !== undefined) params.set("remote", String(query.remote));
+  if (query.employment_types?.length) params.set("employment_types", query.employment_types.join(","));
+  if (query.min_salary) params.set("min_salary", String(query.min_salary));
+  if (query.max_salary !== undefined) params.set("max_salary", String(query.max_salary));
+  if (query.posted_within_days) params.set("posted_within_days", String(query.posted_within_days));
+  if (query.source) params.set("source", query.source);
+  if (query.company?.trim()) params.set("company", query.company.trim());
+  if (query.min_score) params.set("min_score", String(query.min_score));
+  if (query.include_closed) params.set("include_closed", "true");
+  if (query.sort) params.set("sort", query.sort);
+  if (query.limit) params.set("limit", String(query.limit));
+  if (query.cursor) params.set("cursor", query.cursor);
+
+  return params;
+}
+
+type CursorValue = string | number | null;
+
+/**
+ * Cursors are opaque to clients: the sort they belong to plus the last
+ * row's sort key and id.
+ */
+function encodeCursor(sort: JobListSort, value: CursorValue, id: string): string {
+  return Buffer.from(JSON.stringify([sort, value, id])).toString("base64url");
+}
+
+function decodeCursor(sort: JobListSort, cursor: string): { value: CursorValue; id: string } | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (!Array.isArray(parsed) || parsed.length !== 3) return null;
+
+    const [cursorSort, value, id] = parsed as unknown[];
+    if (cursorSort !== sort || typeof id !== "string") return null;
+    if (value !== null && typeof value !== "string" && typeof value !== "number") return null;
+    return { value, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Columns the dashboard renders for each job, with its application stage
+ * and the saved searches that found it.
+ */
+export const JOB_LIST_COLUMNS =
+  "id, title, company_name, location_text, is_remote, employment_type, source, posted_at, created_at, last_seen_at, closed_at, closed_reason, apply_url, alternate_apply_urls, salary_min, salary_max, salary_currency, salary_period, salary_annual_min, salary_annual_max, match_score, match_breakdown, applications(status, updated_at), saved_search_jobs(saved_search_id)";
+
+/**
+ * A user's jobs, narrowed by `filters`; ordering and paging are up to the
+ * caller.
+ */
+function filteredJobs(admin: SupabaseClient, userId: string, columns: string, filters: JobListFilters, now: Date) {
+  let q = admin.from("jobs").select(columns).eq("user_id", userId);
+
+  const terms = stripWildcards(filters.q ?? "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, MAX_QUERY_TERMS);
+  for (const term of terms) {
+    const pattern = quoteFilterValue(`*${term}*`);
+    q = q.or(`title.ilike.${pattern},company_name.ilike.${pattern},description.ilike.${pattern}`);
+  }
+
+  if (filters.remote !== undefined) q = q.eq("is_remote", filters.remote);
+
+  if (filters.employment_types?.length) {
+    const patterns = filters.employment_types.flatMap((t) => EMPLOYMENT_TYPE_PATTERNS[t]);
+    q = q.or(patterns.map((p) => `employment_type.ilike.${quoteFilterValue(p)}`).join(","));
+  }
+
+  if (filters.min_salary) q = q.gte("salary_annual_max", filters.min_salary);
+  if (filters.max_salary !== undefined) q = q.lte("salary_annual_min", filters.max_salary);
+
+  if (filters.posted_within_days) {
+    const since = new Date(now.getTime() - filters.posted_within_days * 24 * 60 * 60 * 1000);
+    q = q.gte("posted_at", since.toISOString());
+  }
+
+  if (filters.source) q = q.eq("source", filters.source);
+
+  const company = stripWildcards(filters.company ?? "").trim();
+  if (company) q = q.ilike("company_name", `%${company}%`);
+
+  if (filters.min_score) q = q.gte("match_score", filters.min_score);
+
+  if (!filters.include_closed) q = q.is("closed_at", null);
+
+  return q;
+}
+
+/**
+ * An `or=` filter for rows after (or before) `key` in the list order,
+ * "value desc nulls last, id desc".
+ */
+function keysetFilter(column: string, key: { value: CursorValue; id: string }, direction: "after" | "before"): string {
+  const id = quoteFilterValue(key.id);
+
+  if (key.value === null) {
+    return direction === "after"
+      ? `and(${column}.is.null,id.lt.${id})`
+      : `${column}.not.is.null,and(${column}.is.null,id.gt.${id})`;
+  }
+
+  const value = quoteFilterValue(key.value);
+  return direction === "after"
+    ? `${column}.lt.${value},and(${column}.eq.${value},id.lt.${id}),${column}.is.null`
+    : `${column}.gt.${value},and(${column}.eq.${value},id.gt.${id})`;
+}
+
+/**
+ * One page of a user's jobs. `next_cursor` is null on the last page.
+ */
+export async function listJobs<T extends Record<string, unknown>>(
+  admin: SupabaseClient,
+  userId: string,
+  query: JobListQuery,
+  now = new Date()
+): Promise<{ jobs: T[]; next_cursor: string | null }> {
+  const sort = query.sort ?? "recent";
+  const column = SORT_COLUMNS[sort];
+  const limit = query.limit ?? JOB_LIST_DEFAULT_LIMIT;
+
+  let q = filteredJobs(admin, userId, JOB_LIST_COLUMNS, query, now);
+
+  if (query.cursor) {
+    const after = decodeCursor(sort, query.cursor);
+    if (!after) throw new Error("Invalid cursor");
+    q = q.or(keysetFilter(column, after, "after"));
+  }
+
+  // One extra row tells us whether there's another page.
+  const { data, error } = await q
+    .order(column, { ascending: false, nullsFirst: false })
+    .order("id", { ascending: false })
+    .limit(limit + 1)
+    .returns<T[]>();
+
+  if (error) throw new Error(error.message);
+
+  const rows = data ?? [];
+  const jobs = rows.slice(0, limit);
+  const last = jobs[jobs.length - 1];
+  const next_cursor =
+    rows.length > limit && last ? encodeCursor(sort, (last[column] as CursorValue) ?? null, String(last.id)) : null;
+
+  return { jobs, next_cursor };
+}
+
+/**
+ * The jobs either side of `job` in the list for `filters`, for stepping
+ * through it one job at a time. `job` needs its sort column loaded; it
+ * doesn't have to match the filters itself.
+ */
+export async function findAdjacentJobIds(
+  admin: SupabaseClient,
+  userId: string,
+  filters: JobListFilters,
+  job: { id: string } & Record<string, unknown>,
+  now = new Date()
+): Promise<{ previous_id: string | null; next_id: string | null }> {
+  const column = SORT_COLUMNS[filters.sort ?? "recent"];
+  const key = { value: (job[column] as CursorValue | undefined) ?? null, id: job.id };
+
+  const [previous, next] = await Promise.all([
+    filteredJobs(admin, userId, "id", filters, now)
+      .or(keysetFilter(column, key, "before"))
+      .order(column, { ascending: true, nullsFirst: true })
+      .order("id", { ascending: true })
+      .limit(1)
+      .maybeSingle<{ id: string }>(),
+    filteredJobs(admin, userId, "id", filters, now)
+      .or(keysetFilter(column, key, "after"))
+      .order(column, { ascending: false, nullsFirst: false })
+      .order("id", { ascending: false })
+      .limit(1)
+      .maybeSingle<{ id: string }>(),
+  ]);
+
+  if (previous.error) throw new Error(previous.error.message);
+  if (next.error) throw new Error(next.error.message);
+  return { previous_id: previous.data?.id ?? null, next_id: next.data?.id ?? null };
+}
@@ -0,0 +1,259 @@
+import type { NormalizedJobInsert } from "@/lib/jobs/normalize";
+
+/**
+ * The subset of public.resume_profiles used for scoring.
+ */
+export type MatchProfile = {
+  roles: string[] | null;
+  skills: string[] | null;
+  seniority: string | null;
+  location_preference: string | null;
+  remote_intent: string | null;
+};
+
+export const MATCH_PROFILE_COLUMNS = "roles, skills, seniority, location_preference, remote_intent";
+
+/**
+ * The subset of a job (normalized insert or public.jobs row) used for scoring.
+ */
+export type MatchableJob = Pick<
+  NormalizedJobInsert,
+  "title" | "description" | "location_text" | "city" | "region" | "country" | "is_remote" | "remote_type"
+>;
+
+export type MatchFactorName = "skills" | "title" | "seniority" | "location";
+
+export type MatchFactor = {
+  score: number; // 0..1
+  weight: number;
+  detail: string;
+  matched?: string[];
+};
+
+export type MatchBreakdown = Record<MatchFactorName, MatchFactor>;
+
+export type MatchResult = {
+  score: number; // 0..100
+  breakdown: MatchBreakdown;
+};
+
+const WEIGHTS: Record<MatchFactorName, number> = {
+  skills: 0.4,
+  title: 0.3,
+  seniority: 0.15,
+  location: 0.15,
+};
+
+// Score given when we can't tell either way (e.g. job title has no level).
+const NEUTRAL = 0.6;
+
+// Matching this many skills counts as full marks, so long skill lists aren't penalized.
+const SKILLS_FOR_FULL_SCORE = 8;
+
+const TITLE_STOPWORDS = new Set([
+  "a", "an", "and", "the", "of", "for", "to", "in", "at", "with", "on",
+  "i", "ii", "iii", "iv", "sr", "jr", "senior", "junior", "lead", "staff", "principal",
+  "remote", "hybrid", "onsite", "contract", "full", "time", "part",
+]);
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function cleanList(v: string[] | null): string[] {
+  return (v ?? [])
+    .map((s) => (typeof s === "string" ? s.trim() : ""))
+    .filter((s) => s.length > 0);
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Case-insensitive whole-term match that still works for terms like
+ * "C++", "Node.js" or ".NET" where \b doesn't apply.
+ */
+export function containsTerm(haystack: string, term: string): boolean {
+  const t = term.trim();
+  if (!t) return false;
+  const re = new RegExp(`(^|[^a-z0-9+#.])${escapeRegExp(t.toLowerCase())}(?=$|[^a-z0-9+#.]|\\.(?![a-z0-9]))`, "i");
+  return re.test(haystack.toLowerCase());
+}
+
+function titleTokens(s: string): Set<string> {
+  return new Set(
+    s
+      .toLowerCase()
+      .split(/[^a-z0-9+#]+/)
+      .filter((w) => w.length > 0 && !TITLE_STOPWORDS.has(w))
+  );
+}
+
+function scoreSkills(job: MatchableJob, profile: MatchProfile): MatchFactor {
+  const skills = cleanList(profile.skills);
+  if (skills.length === 0) {
+    return { score: NEUTRAL, weight: WEIGHTS.skills, detail: "No skills on profile", matched: [] };
+  }
+
+  const text = `${job.title}\n${job.description ?? ""}`;
+  const matched = skills.filter((s) => containsTerm(text, s));
+
+  const score = Math.min(1, matched.length / Math.min(skills.length, SKILLS_FOR_FULL_SCORE));
+  const detail = matched.length
+    ? `Mentions ${matched.length} of your skills: ${matched.slice(0, 6).join(", ")}${matched.length > 6 ? "…" : ""}`
+    : "None of your skills are mentioned";
+
+  return { score: round2(score), weight: WEIGHTS.skills, detail, matched };
+}
+
+function scoreTitle(job: MatchableJob, profile: MatchProfile): MatchFactor {
+  const roles = cleanList(profile.roles);
+  if (roles.length === 0) {
+    return { score: NEUTRAL, weight: WEIGHTS.title, detail: "No target roles on profile" };
+  }
+
+  const jobTitle = job.title.toLowerCase();
+  const jobTokens = titleTokens(job.title);
+
+  let best = 0;
+  let bestRole = roles[0];
+
+  for (const role of roles) {
+    if (jobTitle.includes(role.toLowerCase())) {
+      best = 1;
+      bestRole = role;
+      break;
+    }
+
+    const roleTokens = titleTokens(role);
+    if (roleTokens.size === 0) continue;
+
+    let overlap = 0;
+    for (const t of roleTokens) if (jobTokens.has(t)) overlap += 1;
+
+    // How much of the role is covered by the title, lightly penalizing extra title words.
+    const union = new Set([...roleTokens, ...jobTokens]).size;
+    const s = 0.7 * (overlap / roleTokens.size) + 0.3 * (overlap / union);
+    if (s > best) {
+      best = s;
+      bestRole = role;
+    }
+  }
+
+  const detail =
+    best >= 1
+      ? `Title matches target role "${bestRole}"`
+      : best > 0
+        ? `Title is similar to target role "${bestRole}"`
+        : "Title doesn't match any target role";
+
+  return { score: round2(best), weight: WEIGHTS.title, detail, matched: best > 0 ? [bestRole] : [] };
+}
+
+const SENIORITY_LEVELS: Array<{ level: number; label: string; pattern: RegExp }> = [
+  { level: 0, label: "intern", pattern: /\b(intern|internship|apprentice)\b/ },
+  { level: 1, label: "junior", pattern: /\b(junior|jr\.?|entry[- ]level|graduate|new grad|associate)\b/ },
+  { level: 4, label: "staff+", pattern: /\b(staff|principal|distinguished|architect|head of|director|vp)\b/ },
+  { level: 3, label: "senior", pattern: /\b(senior|sr\.?|lead|iii|iv)\b/ },
+  { level: 2, label: "mid", pattern: /\b(mid|mid-level|intermediate|ii)\b/ },
+];
+
+/**
+ * Map free-form seniority text ("Senior", "Mid-level", "Entry level") to 0..4.
+ */
+export function seniorityLevel(text: string | null): number | null {
+  const t = (text ?? "").toLowerCase();
+  if (!t.trim()) return null;
+  for (const s of SENIORITY_LEVELS) {
+    if (s.pattern.test(t)) return s.level;
+  }
+  return null;
+}
+
+function levelLabel(level: number): string {
+  return SENIORITY_LEVELS.find((s) => s.level === level)?.label ?? String(level);
+}
+
+function scoreSeniority(job: MatchableJob, profile: MatchProfile): MatchFactor {
+  const wanted = seniorityLevel(profile.seniority);
+  if (wanted === null) {
+    return { score: NEUTRAL, weight: WEIGHTS.seniority, detail: "No seniority on profile" };
+  }
+
+  // Titles without a level marker are usually mid-level.
+  const jobLevel = seniorityLevel(job.title);
+  if (jobLevel === null) {
+    const score = wanted === 2 ? 1 : Math.abs(wanted - 2) === 1 ? NEUTRAL : 0.3;
+    return { score, weight: WEIGHTS.seniority, detail: "Title doesn't state a level" };
+  }
+
+  const diff = Math.abs(wanted - jobLevel);
+  const score = diff === 0 ? 1 : diff === 1 ? 0.5 : 0;
+  const detail =
+    diff === 0
+      ? `Level matches (${levelLabel(jobLevel)})`
+      : `Job is ${levelLabel(jobLevel)}, you are ${levelLabel(wanted)}`;
+
+  return { score, weight: WEIGHTS.seniority, detail };
+}
+
+function wantsRemote(remoteIntent: string | null): boolean {
+  const t = (remoteIntent ?? "").toLowerCase();
+  return t.includes("remote") && !t.includes("not remote") && !t.includes("no remote");
+}
+
+function locationMatches(job: MatchableJob, pref: string): boolean {
+  const jobLoc = [job.location_text, job.city, job.region, job.country]
+    .filter((s): s is string => Boolean(s))
+    .join(" ")
+    .toLowerCase();
+  if (!jobLoc) return false;
+
+  // "Austin, TX" -> ["austin", "tx"]; any city/region part appearing counts.
+  return pref
+    .toLowerCase()
+    .split(/[,/|;]+/)
+    .map((p) => p.trim())
+    .filter((p) => p.length >= 2 && p !== "remote")
+    .some((p) => jobLoc.includes(p));
+}
+
+function scoreLocation(job: MatchableJob, profile: MatchProfile): MatchFactor {
+  const remote = wantsRemote(profile.remote_intent);
+  const pref = (profile.location_preference ?? "").trim();
+  const nearby = pref ? locationMatches(job, pref) : false;
+
+  if (remote) {
+    if (job.is_remote) return { score: 1, weight: WEIGHTS.location, detail: "Remote, as you prefer" };
+    if (nearby) return { score: 0.7, weight: WEIGHTS.location, detail: `Not remote, but in ${pref}` };
+    if (job.remote_type === "hybrid") return { score: 0.4, weight: WEIGHTS.location, detail: "Hybrid, you prefer remote" };
+    return { score: 0.1, weight: WEIGHTS.location, detail: "On-site, you prefer remote" };
+  }
+
+  if (!pref) {
+    return { score: NEUTRAL, weight: WEIGHTS.location, detail: "No location preference on profile" };
+  }
+
+  if (nearby) return { score: 1, weight: WEIGHTS.location, detail: `In ${pref}` };
+  if (job.is_remote) return { score: 0.8, weight: WEIGHTS.location, detail: "Remote, works from anywhere" };
+  return { score: 0.1, weight: WEIGHTS.location, detail: `Outside ${pref}` };
+}
+
+/**
+ * Rate a job against a resume profile.
+ * Each factor scores 0..1; the total is the weighted sum scaled to 0..100.
+ */
+export function scoreJobMatch(job: MatchableJob, profile: MatchProfile): MatchResult {
+  const breakdown: MatchBreakdown = {
+    skills: scoreSkills(job, profile),
+    title: scoreTitle(job, profile),
+    seniority: scoreSeniority(job, profile),
+    location: scoreLocation(job, profile),
+  };
+
+  let total = 0;
+  for (const f of Object.values(breakdown)) total += f.score * f.weight;
+
+  return { score: Math.round(total * 100), breakdown };
+}
@@ -1,5 +1,9 @@
+import { normalizeSalary, type SalaryFields } from "@/lib/jobs/salary";
+
+export type JobSource = "jsearch" | "greenhouse" | "lever" | "ashby";
+
 export type NormalizedJobInsert = {
-  source: "jsearch";
+  source: JobSource;
   external_job_id: string | null;
   apply_url: string | null;
 
@@ -19,24 +23,19 @@ export type NormalizedJobInsert = {
   description: string | null;
   posted_at: string | null; // ISO string
 
-  salary_min: number | null;
-  salary_max: number | null;
-  salary_currency: string | null;
-  salary_period: string | null;
-
   raw: Record<string, unknown>;
-};
+} & SalaryFields;
 
-function asRecord(v: unknown): Record<string, unknown> | null {
+export function asRecord(v: unknown): Record<string, unknown> | null {
   if (!v || typeof v !== "object") return null;
   return v as Record<string, unknown>;
 }
 
-function getString(v: unknown): string | null {
+export function getString(v: unknown): string | null {
   return typeof v === "string" && v.trim() ? v.trim() : null;
 }
 
-function getNumber(v: unknown): number | null {
+export function getNumber(v: unknown): number | null {
   if (typeof v === "number" && Number.isFinite(v)) return v;
   if (typeof v === "string" && v.trim()) {
     const n = Number(v);
@@ -45,7 +44,7 @@ function getNumber(v: unknown): number | null {
   return null;
 }
 
-function toIsoOrNull(v: unknown): string | null {
+export function toIsoOrNull(v: unknown): string | null {
   const s = getString(v);
   if (!s) return null;
   const d = new Date(s);
@@ -53,7 +52,7 @@ function toIsoOrNull(v: unknown): string | null {
   return d.toISOString();
 }
 
-function inferRemoteType(isRemote: boolean, locationText: string | null): string | null {
+export function inferRemoteType(isRemote: boolean, locationText: string | null): string | null {
   if (isRemote) return "remote";
   const t = (locationText ?? "").toLowerCase();
   if (!t) return null;
@@ -62,6 +61,50 @@ function inferRemoteType(isRemote: boolean, locationText: string | null): string
   return null;
 }
 
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCodePoint(n) : m;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? m;
+  });
+}
+
+/**
+ * Convert a job board HTML description to plain text.
+ * Handles double-escaped markup (Greenhouse returns `&lt;p&gt;...`).
+ */
+export function htmlToText(v: unknown): string | null {
+  const s = getString(v);
+  if (!s) return null;
+
+  const html = /&lt;[a-z/]/i.test(s) ? decodeEntities(s) : s;
+
+  const text = decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<li[^>]*>/gi, "\n- ")
+      .replace(/<\/(p|div|h[1-6]|ul|ol|li)>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return text || null;
+}
+
 /**
  * Normalize one JSearch result item to match public.jobs columns.
  * Keeps the full raw payload in `raw` for debugging.
@@ -146,10 +189,10 @@ export function normalizeJSearchJob(item: unknown): NormalizedJobInsert | null {
     description,
     posted_at: postedAt,
 
-    salary_min: salaryMin,
-    salary_max: salaryMax,
-    salary_currency: salaryCurrency,
-    salary_period: salaryPeriod,
+    ...normalizeSalary(
+      { min: salaryMin, max: salaryMax, currency: salaryCurrency, period: salaryPeriod },
+      description
+    ),
 
     raw: r,
   };
@@ -0,0 +1,69 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * A per-run allowance of upstream requests. `tryConsume` reserves one
+ * request and returns false once the allowance is used up.
+ */
+export type RequestBudget = {
+  tryConsume(): Promise<boolean>;
+  remaining(): number;
+};
+
+const DEFAULT_JSEARCH_DAILY_BUDGET = 60;
+
+function getIntEnv(name: string, fallback: number): number {
+  const n = Number(process.env[name] ?? "");
+  return Number.isInteger(n) && n >= 0 ? n : fallback;
+}
+
+function utcDay(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Unlimited budget, for one-off calls that aren't tied to a user.
+ */
+export const UNLIMITED_BUDGET: RequestBudget = {
+  tryConsume: async () => true,
+  remaining: () => Number.POSITIVE_INFINITY,
+};
+
+/**
+ * Load today's (UTC) JSearch request count for a user and return a budget
+ * capped at JSEARCH_DAILY_REQUEST_BUDGET. Each consumed request is counted
+ * in public.jsearch_usage via an atomic increment, so concurrent syncs for
+ * the same user can't both spend the last request.
+ */
+export async function loadJSearchBudget(admin: SupabaseClient, userId: string): Promise<RequestBudget> {
+  const limit = getIntEnv("JSEARCH_DAILY_REQUEST_BUDGET", DEFAULT_JSEARCH_DAILY_BUDGET);
+  const day = utcDay(new Date());
+
+  const { data, error } = await admin
+    .from("jsearch_usage")
+    .select("requests")
+    .eq("user_id", userId)
+    .eq("day", day)
+    .maybeSingle<{ requests: number }>();
+
+  if (error) throw new Error(error.message);
+
+  let used = data?.requests ?? 0;
+
+  return {
+    remaining: () => Math.max(0, limit - used),
+
+    async tryConsume() {
+      if (used >= limit) return false;
+
+      const { data: count, error: incErr } = await admin.rpc("increment_jsearch_usage", {
+        p_user_id: userId,
+        p_day: day,
+      });
+
+      if (incErr) throw new Error(incErr.message);
+
+      used = typeof count === "number" ? count : used + 1;
+      return used <= limit;
+    },
+  };
+}
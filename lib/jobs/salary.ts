@@ -0,0 +1,201 @@
+export type SalaryPeriod = "hour" | "day" | "week" | "month" | "year";
+
+/**
+ * Salary columns on public.jobs.
+ * `salary_min`/`salary_max`/`salary_period` are as stated by the posting;
+ * `salary_annual_*` are the same figures converted to a yearly amount.
+ */
+export type SalaryFields = {
+  salary_min: number | null;
+  salary_max: number | null;
+  salary_currency: string | null;
+  salary_period: string | null;
+  salary_annual_min: number | null;
+  salary_annual_max: number | null;
+  salary_source: "structured" | "description" | null;
+};
+
+export type StructuredSalary = {
+  min: number | null;
+  max: number | null;
+  currency: string | null;
+  period: string | null;
+};
+
+// Full-time working units per year.
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+  hour: 2080,
+  day: 260,
+  week: 52,
+  month: 12,
+  year: 1,
+};
+
+// Annual figures outside this range are parse mistakes, not salaries.
+const MIN_PLAUSIBLE_ANNUAL = 1_000;
+const MAX_PLAUSIBLE_ANNUAL = 5_000_000;
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: "USD",
+  us$: "USD",
+  c$: "CAD",
+  ca$: "CAD",
+  a$: "AUD",
+  au$: "AUD",
+  "£": "GBP",
+  "€": "EUR",
+  "₹": "INR",
+};
+
+/**
+ * Map the many period spellings sources use ("YEAR", "per-hour-wage",
+ * "annually", "hr", ...) to a canonical period.
+ */
+export function normalizeSalaryPeriod(v: string | null): SalaryPeriod | null {
+  const t = (v ?? "").toLowerCase();
+  if (!t) return null;
+  if (/(hour|hr\b|hourly)/.test(t)) return "hour";
+  if (/(day|daily)/.test(t)) return "day";
+  if (/(week|wk\b|weekly)/.test(t)) return "week";
+  if (/(month|mo\b|monthly)/.test(t)) return "month";
+  if (/(year|yr\b|annum|annual|yearly|pa\b)/.test(t)) return "year";
+  return null;
+}
+
+/**
+ * Guess the period of a bare figure: small numbers are hourly rates,
+ * large ones annual salaries.
+ */
+function inferPeriod(amount: number): SalaryPeriod {
+  if (amount < 500) return "hour";
+  if (amount < 15_000) return "month";
+  return "year";
+}
+
+export function annualize(amount: number | null, period: SalaryPeriod): number | null {
+  if (amount === null || !Number.isFinite(amount)) return null;
+  const annual = Math.round(amount * PERIODS_PER_YEAR[period]);
+  if (annual < MIN_PLAUSIBLE_ANNUAL || annual > MAX_PLAUSIBLE_ANNUAL) return null;
+  return annual;
+}
+
+const CURRENCY_RE = String.raw`(?:US\$|CA?\$|AU?\$|[$£€₹]|\b(?:USD|CAD|AUD|GBP|EUR|INR)\b)`;
+const AMOUNT_RE = String.raw`\d{1,3}(?:[,.\u00a0]\d{3})+(?:\.\d{1,2})?|\d+(?:\.\d+)?`;
+const PERIOD_RE = String.raw`(?:\s*(?:/|per|an?|each)\s*(?:hour|hr|day|week|wk|month|mo|year|yr|annum)\b|\s*(?:hourly|daily|weekly|monthly|annually|yearly|p\.?a\.?)\b)`;
+
+const SALARY_RE = new RegExp(
+  String.raw`(?<cur1>${CURRENCY_RE})?\s?(?<a>${AMOUNT_RE})\s?(?<ak>[kK])?\b\s*(?<cur1b>${CURRENCY_RE})?` +
+    String.raw`(?:\s*(?:-|–|—|to|and)\s*(?<cur2>${CURRENCY_RE})?\s?(?<b>${AMOUNT_RE})\s?(?<bk>[kK])?\b\s*(?<cur2b>${CURRENCY_RE})?)?` +
+    String.raw`(?<period>${PERIOD_RE})?`,
+  "g"
+);
+
+// Company figures, not pay: "$15 million", "$2M ARR", "$20bn portfolio".
+const NOT_PAY_AFTER_RE =
+  /^\s*(?:m|mm|mn|million|b|bn|billion|trillion|in (?:funding|revenue|sales)|arr|mrr|revenue|funding|valuation|seed|series [a-f]|round|portfolio|aum|assets|market cap|budget|investment)\b/i;
+const NOT_PAY_BEFORE_RE =
+  /\b(?:raised|raising|funding of|valued at|valuation of|revenue of|revenues of|worth|budget of|portfolio of|manages?|managing)\s*(?:over|more than|nearly|almost|about|approximately|around)?\s*$/i;
+
+// One-off payments, not pay: "$1,000 signing bonus", "relocation stipend of $5,000".
+const ONE_OFF_WORDS = String.raw`(?:bonus(?:es)?|signing|sign-on|sign on|relocation|stipends?|reimbursements?|allowances?|referral)`;
+const ONE_OFF_AFTER_RE = new RegExp(String.raw`^\s*${ONE_OFF_WORDS}\b`, "i");
+const ONE_OFF_BEFORE_RE = new RegExp(String.raw`\b${ONE_OFF_WORDS}\b[^.;$\n]{0,25}$`, "i");
+
+// Without a stated period, a monthly-sized figure needs these nearby to count.
+const PAY_CONTEXT_RE = /\b(?:salary|salaries|pay|paid|compensation|base|wages?|earn(?:ing)?s?|rate)\b/i;
+
+function parseAmount(raw: string, suffix: string | undefined): number | null {
+  let s = raw.replace(/\u00a0/g, "");
+  // "120,000" / "60.000" / "1,234.50": separators followed by exactly 3 digits are thousands.
+  s = s.replace(/[,.](?=\d{3}(?:\D|$))/g, "");
+  s = s.replace(",", ".");
+  const n = Number(s);
+  if (!Number.isFinite(n)) return null;
+  return suffix?.toLowerCase() === "k" ? n * 1_000 : n;
+}
+
+function currencyCode(symbol: string | undefined): string | null {
+  if (!symbol) return null;
+  const s = symbol.toLowerCase();
+  return CURRENCY_SYMBOLS[s] ?? symbol.toUpperCase();
+}
+
+/**
+ * Pull the first plausible salary out of free text, e.g.
+ * "$120k–$150k/yr", "£45 per hour", "USD 90,000 - 110,000 annually".
+ * Requires a currency marker so "3-5 years" or "401k" aren't read as pay,
+ * and skips funding, revenue and other company figures as well as one-off
+ * payments like signing bonuses and relocation stipends.
+ */
+export function parseSalaryFromText(text: string | null): StructuredSalary | null {
+  if (!text) return null;
+
+  for (const m of text.matchAll(SALARY_RE)) {
+    const g = m.groups ?? {};
+    const cur = g.cur1 ?? g.cur1b ?? g.cur2 ?? g.cur2b;
+    if (!cur) continue;
+
+    const before = text.slice(Math.max(0, m.index - 40), m.index);
+    const after = text.slice(m.index + m[0].length);
+    if (NOT_PAY_AFTER_RE.test(after) || NOT_PAY_BEFORE_RE.test(before)) continue;
+    if (ONE_OFF_AFTER_RE.test(after) || ONE_OFF_BEFORE_RE.test(before)) continue;
+
+    // "$120-150k": the suffix on the upper bound applies to both.
+    const suffixA = g.ak ?? (g.b ? g.bk : undefined);
+    const a = parseAmount(g.a, suffixA);
+    const b = g.b ? parseAmount(g.b, g.bk) : null;
+    if (a === null) continue;
+
+    // "up to $95,000" states a ceiling only.
+    const upTo = b === null && /\bup to\s*$/i.test(before);
+
+    const min = b !== null ? Math.min(a, b) : upTo ? null : a;
+    const max = b !== null ? Math.max(a, b) : a;
+
+    const stated = normalizeSalaryPeriod(g.period ?? null);
+    const period = stated ?? inferPeriod(max);
+    // A lone "$15" or "$40" is too often something else to call it an hourly rate.
+    if (!stated && b === null && period === "hour") continue;
+    // "$2,000" with no period is as likely a bonus or a budget as a monthly salary.
+    if (!stated && period === "month" && !PAY_CONTEXT_RE.test(`${before} ${after.slice(0, 30)}`)) continue;
+    if (annualize(max, period) === null) continue;
+
+    return { min, max, currency: currencyCode(cur), period };
+  }
+
+  return null;
+}
+
+/**
+ * Build the salary columns for a job: use the source's structured figures
+ * when present, otherwise look for pay in the description.
+ */
+export function normalizeSalary(structured: StructuredSalary, description: string | null): SalaryFields {
+  const hasStructured = structured.min !== null || structured.max !== null;
+  const picked = hasStructured ? structured : parseSalaryFromText(description);
+
+  if (!picked || (picked.min === null && picked.max === null)) {
+    return {
+      salary_min: null,
+      salary_max: null,
+      salary_currency: structured.currency,
+      salary_period: structured.period,
+      salary_annual_min: null,
+      salary_annual_max: null,
+      salary_source: null,
+    };
+  }
+
+  const period =
+    normalizeSalaryPeriod(picked.period) ?? inferPeriod(Math.max(picked.min ?? 0, picked.max ?? 0));
+
+  return {
+    salary_min: picked.min,
+    salary_max: picked.max,
+    salary_currency: picked.currency,
+    salary_period: picked.period ?? period,
+    salary_annual_min: annualize(picked.min, period),
+    salary_annual_max: annualize(picked.max, period),
+    salary_source: hasStructured ? "structured" : "description",
+  };
+}
@@ -0,0 +1,250 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { containsTerm } from "@/lib/jobs/match";
+import type { NormalizedJobInsert } from "@/lib/jobs/normalize";
+import type { JSearchDatePosted, JSearchSearch } from "@/lib/jobs/sources/jsearch";
+
+/**
+ * JSearch's employment type values, which we also normalize other
+ * sources' free-text types onto.
+ */
+export const EMPLOYMENT_TYPES = ["FULLTIME", "PARTTIME", "CONTRACTOR", "INTERN"] as const;
+
+export type EmploymentType = (typeof EMPLOYMENT_TYPES)[number];
+
+export const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+  FULLTIME: "Full-time",
+  PARTTIME: "Part-time",
+  CONTRACTOR: "Contract",
+  INTERN: "Internship",
+};
+
+/** Posted-within windows, in days; each is one of JSearch's date_posted values. */
+export const POSTED_WITHIN_DAYS = [1, 3, 7, 30] as const;
+
+const DATE_POSTED_BY_DAYS: Record<(typeof POSTED_WITHIN_DAYS)[number], JSearchDatePosted> = {
+  1: "today",
+  3: "3days",
+  7: "week",
+  30: "month",
+};
+
+/**
+ * One row of public.saved_searches: a user-defined JSearch query run
+ * alongside the profile's role queries.
+ */
+export type SavedSearch = {
+  id: string;
+  name: string;
+  query: string;
+  location: string | null;
+  remote_only: boolean;
+  employment_types: EmploymentType[];
+  posted_within_days: number | null;
+  excluded_keywords: string[];
+  enabled: boolean;
+  last_run_at: string | null;
+  created_at: string;
+};
+
+export type SavedSearchInput = Omit<SavedSearch, "id" | "last_run_at" | "created_at">;
+
+export const SAVED_SEARCH_COLUMNS =
+  "id, name, query, location, remote_only, employment_types, posted_within_days, excluded_keywords, enabled, last_run_at, created_at";
+
+const MAX_NAME_LENGTH = 80;
+const MAX_QUERY_LENGTH = 200;
+const MAX_EXCLUDED_KEYWORDS = 20;
+
+function isEmploymentType(v: unknown): v is EmploymentType {
+  return typeof v === "string" && (EMPLOYMENT_TYPES as readonly string[]).includes(v);
+}
+
+function cleanStrings(v: string[]): string[] {
+  const seen = new Set<string>();
+  return v
+    .map((s) => s.trim())
+    .filter((s) => {
+      const k = s.toLowerCase();
+      if (!s || seen.has(k)) return false;
+      seen.add(k);
+      return true;
+    });
+}
+
+/**
+ * Validate a create (`partial` false) or update (`partial` true) body.
+ * Unknown keys are ignored.
+ */
+export function parseSavedSearchInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): { ok: true; input: Partial<SavedSearchInput> } | { ok: false; error: string } {
+  const input: Partial<SavedSearchInput> = {};
+
+  if (body.query !== undefined || !partial) {
+    const query = typeof body.query === "string" ? body.query.trim() : "";
+    if (!query || query.length > MAX_QUERY_LENGTH) {
+      return { ok: false, error: `query must be 1-${MAX_QUERY_LENGTH} characters` };
+    }
+    input.query = query;
+  }
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (name.length > MAX_NAME_LENGTH) {
+      return { ok: false, error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+    }
+    // Unnamed searches are labelled by their query.
+    if (name || !partial) input.name = name || (input.query ?? "");
+  }
+
+  if (body.location !== undefined) {
+    if (body.location !== null && typeof body.location !== "string") {
+      return { ok: false, error: "location must be a string" };
+    }
+    input.location = body.location?.trim() || null;
+  }
+
+  if (body.remote_only !== undefined) {
+    if (typeof body.remote_only !== "boolean") return { ok: false, error: "remote_only must be a boolean" };
+    input.remote_only = body.remote_only;
+  }
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== "boolean") return { ok: false, error: "enabled must be a boolean" };
+    input.enabled = body.enabled;
+  }
+
+  if (body.employment_types !== undefined) {
+    if (!Array.isArray(body.employment_types) || !body.employment_types.every(isEmploymentType)) {
+      return { ok: false, error: `employment_types must be a list of: ${EMPLOYMENT_TYPES.join(", ")}` };
+    }
+    input.employment_types = Array.from(new Set(body.employment_types));
+  }
+
+  if (body.posted_within_days !== undefined) {
+    const days = body.posted_within_days;
+    if (days !== null && !(POSTED_WITHIN_DAYS as readonly unknown[]).includes(days)) {
+      return { ok: false, error: `posted_within_days must be one of: ${POSTED_WITHIN_DAYS.join(", ")}` };
+    }
+    input.posted_within_days = days as number | null;
+  }
+
+  if (body.excluded_keywords !== undefined) {
+    const words = body.excluded_keywords;
+    if (!Array.isArray(words) || !words.every((w) => typeof w === "string")) {
+      return { ok: false, error: "excluded_keywords must be a list of strings" };
+    }
+    const cleaned = cleanStrings(words as string[]);
+    if (cleaned.length > MAX_EXCLUDED_KEYWORDS) {
+      return { ok: false, error: `At most ${MAX_EXCLUDED_KEYWORDS} excluded keywords` };
+    }
+    input.excluded_keywords = cleaned;
+  }
+
+  return { ok: true, input };
+}
+
+/**
+ * The JSearch request for a saved search. Its filters are applied upstream
+ * and again by matchesSavedSearch, since JSearch treats them loosely.
+ */
+export function savedSearchToJSearch(
+  search: Pick<SavedSearch, "query" | "location" | "remote_only" | "employment_types" | "posted_within_days">
+): JSearchSearch {
+  const days = search.posted_within_days as (typeof POSTED_WITHIN_DAYS)[number] | null;
+  return {
+    query: search.location ? `${search.query} in ${search.location}` : search.query,
+    remote_jobs_only: search.remote_only || undefined,
+    employment_types: search.employment_types.length > 0 ? search.employment_types : undefined,
+    date_posted: days ? DATE_POSTED_BY_DAYS[days] : undefined,
+  };
+}
+
+/**
+ * Map free-text employment types ("Full-time", "Contract") onto
+ * EMPLOYMENT_TYPES; null when unknown.
+ */
+export function normalizeEmploymentType(v: string | null): EmploymentType | null {
+  const t = (v ?? "").toUpperCase().replace(/[^A-Z]/g, "");
+  if (!t) return null;
+  if (t.startsWith("FULL")) return "FULLTIME";
+  if (t.startsWith("PART")) return "PARTTIME";
+  if (t.startsWith("CONTRACT") || t === "FREELANCE" || t === "TEMPORARY") return "CONTRACTOR";
+  if (t.startsWith("INTERN")) return "INTERN";
+  return null;
+}
+
+/**
+ * Whether a fetched job passes a saved search's filters. Jobs with an
+ * unknown employment type or posting date are kept.
+ */
+export function matchesSavedSearch(
+  job: Pick<NormalizedJobInsert, "title" | "description" | "is_remote" | "remote_type" | "employment_type" | "posted_at">,
+  search: Pick<SavedSearch, "remote_only" | "employment_types" | "posted_within_days" | "excluded_keywords">,
+  now = new Date()
+): boolean {
+  if (search.remote_only && !job.is_remote && job.remote_type !== "remote") return false;
+
+  if (search.employment_types.length > 0) {
+    const type = normalizeEmploymentType(job.employment_type);
+    if (type && !search.employment_types.includes(type)) return false;
+  }
+
+  if (search.posted_within_days && job.posted_at) {
+    const age = now.getTime() - new Date(job.posted_at).getTime();
+    if (age > search.posted_within_days * 24 * 60 * 60 * 1000) return false;
+  }
+
+  const text = `${job.title}\n${job.description ?? ""}`;
+  return !search.excluded_keywords.some((k) => containsTerm(text, k));
+}
+
+export async function listSavedSearches(
+  admin: SupabaseClient,
+  userId: string,
+  opts: { ids?: string[]; enabledOnly?: boolean } = {}
+): Promise<SavedSearch[]> {
+  let q = admin.from("saved_searches").select(SAVED_SEARCH_COLUMNS).eq("user_id", userId);
+  if (opts.ids) q = q.in("id", opts.ids);
+  if (opts.enabledOnly) q = q.eq("enabled", true);
+
+  const { data, error } = await q.order("created_at", { ascending: true }).returns<SavedSearch[]>();
+
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+/**
+ * Tag jobs with the saved searches that found them. `tags` maps job id to
+ * saved search ids; existing tags are kept.
+ */
+export async function tagJobsWithSearches(
+  admin: SupabaseClient,
+  userId: string,
+  tags: Map<string, Set<string>>
+): Promise<void> {
+  const rows = Array.from(tags).flatMap(([jobId, searchIds]) =>
+    Array.from(searchIds).map((savedSearchId) => ({ user_id: userId, job_id: jobId, saved_search_id: savedSearchId }))
+  );
+  if (rows.length === 0) return;
+
+  const { error } = await admin
+    .from("saved_search_jobs")
+    .upsert(rows, { onConflict: "saved_search_id,job_id", ignoreDuplicates: true });
+
+  if (error) throw new Error(error.message);
+}
+
+export async function markSavedSearchesRun(admin: SupabaseClient, userId: string, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const { error } = await admin
+    .from("saved_searches")
+    .update({ last_run_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .in("id", ids);
+
+  if (error) throw new Error(error.message);
+}
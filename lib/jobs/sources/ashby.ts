@@ -0,0 +1,84 @@
+import {
+  asRecord,
+  getString,
+  htmlToText,
+  inferRemoteType,
+  toIsoOrNull,
+  type NormalizedJobInsert,
+} from "@/lib/jobs/normalize";
+import { normalizeSalary } from "@/lib/jobs/salary";
+import { fetchBoardJson } from "@/lib/jobs/sources/http";
+import type { JobBoard, JobSourceAdapter } from "@/lib/jobs/sources/types";
+
+/**
+ * Public Ashby job posting API.
+ * Docs: https://developers.ashbyhq.com/docs/public-job-posting-api
+ */
+async function fetchAshbyJobs(board: JobBoard): Promise<unknown[]> {
+  const url = `https://api.ashbyhq.com/posting-api/job-board/${encodeURIComponent(board.board_token)}?includeCompensation=true`;
+  const data = asRecord(await fetchBoardJson(url, "Ashby"));
+  const jobs = data?.jobs;
+  return Array.isArray(jobs) ? jobs : [];
+}
+
+function normalizeAshbyJob(item: unknown, board: JobBoard): NormalizedJobInsert | null {
+  const r = asRecord(item);
+  if (!r) return null;
+
+  const title = getString(r.title);
+  if (!title) return null;
+
+  if (r.isListed === false) return null;
+
+  const locationText = getString(r.location);
+  const description = getString(r.descriptionPlain) ?? htmlToText(r.descriptionHtml);
+  const postal = asRecord(asRecord(r.address)?.postalAddress);
+
+  // workplaceType: "OnSite" | "Remote" | "Hybrid"
+  const workplaceType = getString(r.workplaceType)?.toLowerCase() ?? null;
+  const isRemote =
+    r.isRemote === true ||
+    workplaceType === "remote" ||
+    (locationText ? locationText.toLowerCase().includes("remote") : false);
+
+  const remoteType =
+    workplaceType === "remote" || workplaceType === "hybrid" || workplaceType === "onsite"
+      ? workplaceType
+      : inferRemoteType(isRemote, locationText);
+
+  return {
+    source: "ashby",
+    external_job_id: getString(r.id),
+    apply_url: getString(r.applyUrl) ?? getString(r.jobUrl),
+
+    title,
+    company_name: board.company_name ?? board.board_token,
+    company_website: null,
+
+    location_text: locationText,
+    country: getString(postal?.addressCountry),
+    city: getString(postal?.addressLocality),
+    region: getString(postal?.addressRegion),
+
+    is_remote: isRemote,
+    remote_type: remoteType,
+    employment_type: getString(r.employmentType),
+
+    description,
+    posted_at: toIsoOrNull(r.publishedAt),
+
+    // compensationTierSummary reads like "$150K – $190K • Offers Equity".
+    ...normalizeSalary(
+      { min: null, max: null, currency: null, period: null },
+      [getString(asRecord(r.compensation)?.compensationTierSummary), description].filter(Boolean).join("\n") || null
+    ),
+
+    raw: r,
+  };
+}
+
+export const ashbyAdapter: JobSourceAdapter<JobBoard> = {
+  source: "ashby",
+  fetchJobs: fetchAshbyJobs,
+  normalize: normalizeAshbyJob,
+};
@@ -0,0 +1,69 @@
+import {
+  asRecord,
+  getString,
+  htmlToText,
+  inferRemoteType,
+  toIsoOrNull,
+  type NormalizedJobInsert,
+} from "@/lib/jobs/normalize";
+import { normalizeSalary } from "@/lib/jobs/salary";
+import { fetchBoardJson } from "@/lib/jobs/sources/http";
+import type { JobBoard, JobSourceAdapter } from "@/lib/jobs/sources/types";
+
+/**
+ * Public Greenhouse job board API.
+ * Docs: https://developers.greenhouse.io/job-board.html
+ */
+async function fetchGreenhouseJobs(board: JobBoard): Promise<unknown[]> {
+  const url = `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(board.board_token)}/jobs?content=true`;
+  const data = asRecord(await fetchBoardJson(url, "Greenhouse"));
+  const jobs = data?.jobs;
+  return Array.isArray(jobs) ? jobs : [];
+}
+
+function normalizeGreenhouseJob(item: unknown, board: JobBoard): NormalizedJobInsert | null {
+  const r = asRecord(item);
+  if (!r) return null;
+
+  const title = getString(r.title);
+  if (!title) return null;
+
+  const id = r.id;
+  const externalJobId = typeof id === "number" ? String(id) : getString(id);
+
+  const locationText = getString(asRecord(r.location)?.name);
+  const isRemote = locationText ? locationText.toLowerCase().includes("remote") : false;
+  const description = htmlToText(r.content);
+
+  return {
+    source: "greenhouse",
+    external_job_id: externalJobId,
+    apply_url: getString(r.absolute_url),
+
+    title,
+    company_name: getString(r.company_name) ?? board.company_name ?? board.board_token,
+    company_website: null,
+
+    location_text: locationText,
+    country: null,
+    city: null,
+    region: null,
+
+    is_remote: isRemote,
+    remote_type: inferRemoteType(isRemote, locationText),
+    employment_type: null,
+
+    description,
+    posted_at: toIsoOrNull(r.first_published) ?? toIsoOrNull(r.updated_at),
+
+    ...normalizeSalary({ min: null, max: null, currency: null, period: null }, description),
+
+    raw: r,
+  };
+}
+
+export const greenhouseAdapter: JobSourceAdapter<JobBoard> = {
+  source: "greenhouse",
+  fetchJobs: fetchGreenhouseJobs,
+  normalize: normalizeGreenhouseJob,
+};
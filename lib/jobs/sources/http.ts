@@ -0,0 +1,18 @@
+/**
+ * GET a JSON document from a public job board API.
+ * Throws with the upstream status and a body excerpt on non-2xx.
+ */
+export async function fetchBoardJson(url: string, label: string): Promise<unknown> {
+  const r = await fetch(url, {
+    method: "GET",
+    headers: { accept: "application/json" },
+    cache: "no-store",
+  });
+
+  const text = await r.text();
+  if (!r.ok) {
+    throw new Error(`${label} failed (${r.status}): ${text.slice(0, 300)}`);
+  }
+
+  return JSON.parse(text) as unknown;
+}
@@ -0,0 +1,33 @@
+import { ashbyAdapter } from "@/lib/jobs/sources/ashby";
+import { greenhouseAdapter } from "@/lib/jobs/sources/greenhouse";
+import { leverAdapter } from "@/lib/jobs/sources/lever";
+import type { BoardSource, JobBoard, JobSourceAdapter } from "@/lib/jobs/sources/types";
+
+export {
+  JSEARCH_DATE_POSTED,
+  JSEARCH_JOB_REQUIREMENTS,
+  createJSearchAdapter,
+  fetchJSearchJobs,
+  jsearchAdapter,
+  parseJSearchFilters,
+  searchJSearch,
+  type JSearchDatePosted,
+  type JSearchFetchOptions,
+  type JSearchFilters,
+  type JSearchJobRequirement,
+  type JSearchResult,
+  type JSearchSearch,
+} from "@/lib/jobs/sources/jsearch";
+export type { BoardSource, JobBoard, JobSourceAdapter } from "@/lib/jobs/sources/types";
+
+export const BOARD_ADAPTERS: Record<BoardSource, JobSourceAdapter<JobBoard>> = {
+  greenhouse: greenhouseAdapter,
+  lever: leverAdapter,
+  ashby: ashbyAdapter,
+};
+
+export const BOARD_SOURCES = Object.keys(BOARD_ADAPTERS) as BoardSource[];
+
+export function isBoardSource(v: unknown): v is BoardSource {
+  return typeof v === "string" && (BOARD_SOURCES as string[]).includes(v);
+}
@@ -0,0 +1,288 @@
+import { normalizeJSearchJob } from "@/lib/jobs/normalize";
+import { UNLIMITED_BUDGET, type RequestBudget } from "@/lib/jobs/quota";
+import { EMPLOYMENT_TYPES, type EmploymentType } from "@/lib/jobs/savedSearches";
+import type { JobSourceAdapter } from "@/lib/jobs/sources/types";
+
+function getEnv(name: string): string {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function getIntEnv(name: string, fallback: number): number {
+  const n = Number(process.env[name] ?? "");
+  return Number.isInteger(n) && n >= 0 ? n : fallback;
+}
+
+type JSearchResponse = {
+  data?: unknown;
+};
+
+export const JSEARCH_DATE_POSTED = ["all", "today", "3days", "week", "month"] as const;
+
+export type JSearchDatePosted = (typeof JSEARCH_DATE_POSTED)[number];
+
+export const JSEARCH_JOB_REQUIREMENTS = [
+  "under_3_years_experience",
+  "more_than_3_years_experience",
+  "no_experience",
+  "no_degree",
+] as const;
+
+export type JSearchJobRequirement = (typeof JSEARCH_JOB_REQUIREMENTS)[number];
+
+/**
+ * JSearch's /search filters. Location still goes in the query
+ * ("engineer in Austin, TX"); `radius` (km) widens around it.
+ */
+export type JSearchFilters = {
+  /** ISO 3166-1 alpha-2 code; JSearch defaults to "us". */
+  country?: string;
+  date_posted?: JSearchDatePosted;
+  employment_types?: EmploymentType[];
+  job_requirements?: JSearchJobRequirement[];
+  remote_jobs_only?: boolean;
+  radius?: number;
+};
+
+export type JSearchSearch = JSearchFilters & {
+  query: string;
+};
+
+/**
+ * A JSearch response, or the upstream status and body when it failed
+ * after retries.
+ */
+export type JSearchResult = { ok: true; payload: unknown } | { ok: false; status: number; body: string };
+
+export type JSearchFetchOptions = {
+  /** Max result pages to walk per query (JSEARCH_MAX_PAGES, default 2). */
+  maxPages?: number;
+  /** Retries per request on 429/5xx (JSEARCH_MAX_RETRIES, default 3). */
+  maxRetries?: number;
+  /** Every request, including retries, is charged here first. */
+  budget?: RequestBudget;
+};
+
+// JSearch returns up to 10 results per page; a short page means we're done.
+const JSEARCH_PAGE_SIZE = 10;
+
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30_000;
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Retry-After is either delay-seconds or an HTTP date.
+ */
+function parseRetryAfterMs(v: string | null): number | null {
+  if (!v) return null;
+  const secs = Number(v);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(v);
+  if (Number.isNaN(at)) return null;
+  return Math.max(0, at - Date.now());
+}
+
+function backoffMs(attempt: number, retryAfter: string | null): number {
+  const hinted = parseRetryAfterMs(retryAfter);
+  if (hinted !== null) return Math.min(hinted, MAX_BACKOFF_MS);
+  const exp = BASE_BACKOFF_MS * 2 ** attempt;
+  // Equal jitter: half the backoff plus a random share of the other half,
+  // so parallel syncs don't retry in lockstep but still wait at least exp/2.
+  return Math.min(MAX_BACKOFF_MS, Math.round(exp / 2 + Math.random() * (exp / 2)));
+}
+
+function isListOf<T extends string>(allowed: readonly T[], v: string[]): v is T[] {
+  return v.every((x) => (allowed as readonly string[]).includes(x));
+}
+
+/**
+ * Read JSearch filters from query params (comma-separated lists,
+ * `remote_jobs_only=true|false`). Unknown params are ignored.
+ */
+export function parseJSearchFilters(
+  params: URLSearchParams
+): { ok: true; filters: JSearchFilters } | { ok: false; error: string } {
+  const filters: JSearchFilters = {};
+  const list = (name: string) =>
+    (params.get(name) ?? "")
+      .split(",")
+      .map((v) => v.trim())
+      .filter(Boolean);
+
+  const country = params.get("country")?.trim();
+  if (country) {
+    if (!/^[a-z]{2}$/i.test(country)) return { ok: false, error: "country must be a 2-letter country code" };
+    filters.country = country.toLowerCase();
+  }
+
+  const datePosted = params.get("date_posted")?.trim();
+  if (datePosted) {
+    if (!isListOf(JSEARCH_DATE_POSTED, [datePosted])) {
+      return { ok: false, error: `date_posted must be one of: ${JSEARCH_DATE_POSTED.join(", ")}` };
+    }
+    filters.date_posted = datePosted as JSearchDatePosted;
+  }
+
+  const types = list("employment_types").map((t) => t.toUpperCase());
+  if (types.length > 0) {
+    if (!isListOf(EMPLOYMENT_TYPES, types)) {
+      return { ok: false, error: `employment_types must be a list of: ${EMPLOYMENT_TYPES.join(", ")}` };
+    }
+    filters.employment_types = types;
+  }
+
+  const requirements = list("job_requirements");
+  if (requirements.length > 0) {
+    if (!isListOf(JSEARCH_JOB_REQUIREMENTS, requirements)) {
+      return { ok: false, error: `job_requirements must be a list of: ${JSEARCH_JOB_REQUIREMENTS.join(", ")}` };
+    }
+    filters.job_requirements = requirements;
+  }
+
+  const remote = params.get("remote_jobs_only")?.trim();
+  if (remote) {
+    if (remote !== "true" && remote !== "false") return { ok: false, error: "remote_jobs_only must be true or false" };
+    filters.remote_jobs_only = remote === "true";
+  }
+
+  const radius = params.get("radius")?.trim();
+  if (radius) {
+    const km = Number(radius);
+    if (!Number.isFinite(km) || km <= 0) return { ok: false, error: "radius must be a positive number of km" };
+    filters.radius = km;
+  }
+
+  return { ok: true, filters };
+}
+
+function toSearchParams(search: JSearchSearch, page: number, numPages: number): URLSearchParams {
+  const params = new URLSearchParams({ query: search.query, page: String(page), num_pages: String(numPages) });
+
+  if (search.country) params.set("country", search.country);
+  if (search.date_posted && search.date_posted !== "all") params.set("date_posted", search.date_posted);
+  if (search.employment_types?.length) params.set("employment_types", search.employment_types.join(","));
+  if (search.job_requirements?.length) params.set("job_requirements", search.job_requirements.join(","));
+  if (search.remote_jobs_only) params.set("remote_jobs_only", "true");
+  if (search.radius) params.set("radius", String(search.radius));
+
+  return params;
+}
+
+/**
+ * One /search request, retried on 429/5xx. Every attempt is charged to
+ * `budget`; throws once it's exhausted.
+ */
+async function requestJSearch(params: URLSearchParams, budget: RequestBudget, maxRetries: number): Promise<JSearchResult> {
+  const RAPIDAPI_KEY = getEnv("RAPIDAPI_KEY");
+  const RAPIDAPI_HOST = getEnv("RAPIDAPI_HOST");
+
+  const upstream = new URL("https://jsearch.p.rapidapi.com/search");
+  upstream.search = params.toString();
+
+  for (let attempt = 0; ; attempt += 1) {
+    if (!(await budget.tryConsume())) {
+      throw new Error("JSearch daily request budget exhausted");
+    }
+
+    const r = await fetch(upstream.toString(), {
+      method: "GET",
+      headers: {
+        "x-rapidapi-key": RAPIDAPI_KEY,
+        "x-rapidapi-host": RAPIDAPI_HOST,
+      },
+      cache: "no-store",
+    });
+
+    const text = await r.text();
+
+    if (!r.ok) {
+      if (isRetryableStatus(r.status) && attempt < maxRetries) {
+        await sleep(backoffMs(attempt, r.headers.get("retry-after")));
+        continue;
+      }
+      return { ok: false, status: r.status, body: text };
+    }
+
+    return { ok: true, payload: JSON.parse(text) as unknown };
+  }
+}
+
+async function fetchJSearchPage(
+  search: JSearchSearch,
+  page: number,
+  budget: RequestBudget,
+  maxRetries: number
+): Promise<unknown[]> {
+  const result = await requestJSearch(toSearchParams(search, page, 1), budget, maxRetries);
+  if (!result.ok) {
+    throw new Error(`JSearch failed (${result.status}): ${result.body.slice(0, 300)}`);
+  }
+
+  const parsed = result.payload as JSearchResponse;
+
+  // JSearch payload commonly returns { data: [...] }
+  const arr = (parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>).data : null) as unknown;
+
+  return Array.isArray(arr) ? arr : [];
+}
+
+/**
+ * A single raw /search call, `numPages` pages at once, for callers that
+ * want JSearch's own response.
+ */
+export async function searchJSearch(
+  search: JSearchSearch,
+  opts: { page?: number; numPages?: number } & Pick<JSearchFetchOptions, "maxRetries" | "budget"> = {}
+): Promise<JSearchResult> {
+  return requestJSearch(
+    toSearchParams(search, opts.page ?? 1, opts.numPages ?? 1),
+    opts.budget ?? UNLIMITED_BUDGET,
+    opts.maxRetries ?? getIntEnv("JSEARCH_MAX_RETRIES", 3)
+  );
+}
+
+/**
+ * Fetch up to `maxPages` pages of results for one search.
+ * Throws if the first page fails; a failure (or exhausted budget) on a
+ * later page stops paging and keeps what was already fetched.
+ */
+export async function fetchJSearchJobs(search: JSearchSearch, opts: JSearchFetchOptions = {}): Promise<unknown[]> {
+  const maxPages = Math.max(1, opts.maxPages ?? getIntEnv("JSEARCH_MAX_PAGES", 2));
+  const maxRetries = opts.maxRetries ?? getIntEnv("JSEARCH_MAX_RETRIES", 3);
+  const budget = opts.budget ?? UNLIMITED_BUDGET;
+
+  const items: unknown[] = [];
+
+  for (let page = 1; page <= maxPages; page += 1) {
+    let pageItems: unknown[];
+    try {
+      pageItems = await fetchJSearchPage(search, page, budget, maxRetries);
+    } catch (err: unknown) {
+      if (page === 1) throw err;
+      break;
+    }
+
+    items.push(...pageItems);
+    if (pageItems.length < JSEARCH_PAGE_SIZE) break;
+  }
+
+  return items;
+}
+
+export function createJSearchAdapter(opts: JSearchFetchOptions = {}): JobSourceAdapter<JSearchSearch> {
+  return {
+    source: "jsearch",
+    fetchJobs: (search) => fetchJSearchJobs(search, opts),
+    normalize: (item) => normalizeJSearchJob(item),
+  };
+}
+
+export const jsearchAdapter = createJSearchAdapter();
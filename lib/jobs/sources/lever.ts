@@ -0,0 +1,97 @@
+import {
+  asRecord,
+  getNumber,
+  getString,
+  htmlToText,
+  inferRemoteType,
+  type NormalizedJobInsert,
+} from "@/lib/jobs/normalize";
+import { normalizeSalary } from "@/lib/jobs/salary";
+import { fetchBoardJson } from "@/lib/jobs/sources/http";
+import type { JobBoard, JobSourceAdapter } from "@/lib/jobs/sources/types";
+
+/**
+ * Public Lever postings API.
+ * Docs: https://github.com/lever/postings-api
+ */
+async function fetchLeverJobs(board: JobBoard): Promise<unknown[]> {
+  const url = `https://api.lever.co/v0/postings/${encodeURIComponent(board.board_token)}?mode=json`;
+  const data = await fetchBoardJson(url, "Lever");
+  return Array.isArray(data) ? data : [];
+}
+
+function msToIsoOrNull(v: unknown): string | null {
+  const n = getNumber(v);
+  if (n === null) return null;
+  const d = new Date(n);
+  if (Number.isNaN(d.getTime())) return null;
+  return d.toISOString();
+}
+
+function normalizeLeverJob(item: unknown, board: JobBoard): NormalizedJobInsert | null {
+  const r = asRecord(item);
+  if (!r) return null;
+
+  const title = getString(r.text);
+  if (!title) return null;
+
+  const categories = asRecord(r.categories);
+  const locationText = getString(categories?.location);
+
+  // workplaceType: "remote" | "hybrid" | "onsite" | "unspecified"
+  const workplaceType = getString(r.workplaceType)?.toLowerCase() ?? null;
+  const isRemote =
+    workplaceType === "remote" ||
+    (locationText ? locationText.toLowerCase().includes("remote") : false);
+
+  const remoteType =
+    workplaceType === "remote" || workplaceType === "hybrid" || workplaceType === "onsite"
+      ? workplaceType
+      : inferRemoteType(isRemote, locationText);
+
+  const description = [getString(r.descriptionPlain) ?? htmlToText(r.description), getString(r.additionalPlain)]
+    .filter((s): s is string => Boolean(s))
+    .join("\n\n");
+
+  const salary = asRecord(r.salaryRange);
+
+  return {
+    source: "lever",
+    external_job_id: getString(r.id),
+    apply_url: getString(r.hostedUrl) ?? getString(r.applyUrl),
+
+    title,
+    company_name: board.company_name ?? board.board_token,
+    company_website: null,
+
+    location_text: locationText,
+    country: getString(r.country),
+    city: null,
+    region: null,
+
+    is_remote: isRemote,
+    remote_type: remoteType,
+    employment_type: getString(categories?.commitment),
+
+    description: description || null,
+    posted_at: msToIsoOrNull(r.createdAt),
+
+    ...normalizeSalary(
+      {
+        min: getNumber(salary?.min),
+        max: getNumber(salary?.max),
+        currency: getString(salary?.currency),
+        period: getString(salary?.interval),
+      },
+      description || null
+    ),
+
+    raw: r,
+  };
+}
+
+export const leverAdapter: JobSourceAdapter<JobBoard> = {
+  source: "lever",
+  fetchJobs: fetchLeverJobs,
+  normalize: normalizeLeverJob,
+};
@@ -0,0 +1,25 @@
+import type { JobSource, NormalizedJobInsert } from "@/lib/jobs/normalize";
+
+export type BoardSource = Exclude<JobSource, "jsearch">;
+
+/**
+ * A company job board followed by a user (one row of public.job_boards).
+ * `board_token` is the slug in the board URL, e.g. "stripe" for
+ * boards.greenhouse.io/stripe or jobs.lever.co/stripe.
+ */
+export type JobBoard = {
+  source: BoardSource;
+  board_token: string;
+  company_name: string | null;
+};
+
+/**
+ * A job source knows how to fetch raw items for a query and normalize
+ * each one into a `jobs` row. `TQuery` is a query plus filters for
+ * aggregators (JSearch) and a `JobBoard` for company boards.
+ */
+export type JobSourceAdapter<TQuery> = {
+  source: JobSource;
+  fetchJobs(query: TQuery): Promise<unknown[]>;
+  normalize(item: unknown, query: TQuery): NormalizedJobInsert | null;
+};
@@ -0,0 +1,509 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { collapseNearDuplicates, mergeWithStoredDuplicates } from "@/lib/jobs/dedupe";
+import { closeUnseenJobs, loadFreshnessSettings, markJobsSeen, probeUnseenJobs } from "@/lib/jobs/freshness";
+import { scoreJobMatch } from "@/lib/jobs/match";
+import { dedupeNormalizedJobs, type NormalizedJobInsert } from "@/lib/jobs/normalize";
+import { loadJSearchBudget } from "@/lib/jobs/quota";
+import {
+  listSavedSearches,
+  markSavedSearchesRun,
+  matchesSavedSearch,
+  savedSearchToJSearch,
+  tagJobsWithSearches,
+  type SavedSearch,
+} from "@/lib/jobs/savedSearches";
+import {
+  upsertJobs,
+  type FailedJobReport,
+  type JobUpsertRow,
+  type NewJobReport,
+  type UpdatedJobReport,
+} from "@/lib/jobs/upsert";
+import { BOARD_ADAPTERS, createJSearchAdapter, type JSearchSearch, type JobBoard } from "@/lib/jobs/sources";
+import { queueDigestJobs } from "@/lib/notifications/digest";
+import { emitWebhookEvents, loadWebhookJobs } from "@/lib/webhooks/deliver";
+import { defaultVariant, loadResumeVariants, variantForJob, variantForRole, type ResumeVariant } from "@/lib/resumes/variants";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+type JobBoardRow = JobBoard & {
+  id: string;
+};
+
+export type BoardSyncError = {
+  board_id: string;
+  source: string;
+  board_token: string;
+  error: string;
+};
+
+export type RoleSyncError = {
+  role: string;
+  query: string;
+  error: string;
+};
+
+export type SavedSearchSyncError = {
+  saved_search_id: string;
+  name: string;
+  query: string;
+  error: string;
+};
+
+export type SavedSearchRun = {
+  saved_search_id: string;
+  name: string;
+  query: string;
+  fetched: number;
+  /** Results left after the search's own filters. */
+  kept: number;
+};
+
+/**
+ * What a run covers: everything (role queries, company boards and enabled
+ * saved searches), or saved searches only: every enabled one, or the given
+ * ids whether enabled or not.
+ */
+export type SyncScope = { kind: "all" } | { kind: "saved_searches"; ids?: string[] };
+
+export type RoleVariant = {
+  role: string;
+  resume_id: string;
+  label: string;
+};
+
+export type SyncStats = {
+  user_id: string;
+  roles_used: string[];
+  /** Which resume variant each role was searched and scored with. */
+  role_variants: RoleVariant[];
+  role_errors: RoleSyncError[];
+  roles_skipped: string[];
+  jsearch_budget_remaining: number;
+  boards_used: number;
+  board_errors: BoardSyncError[];
+  saved_searches_run: SavedSearchRun[];
+  saved_search_errors: SavedSearchSyncError[];
+  saved_searches_skipped: string[];
+  fetched_items: number;
+  normalized_items: number;
+  deduped_items: number;
+  collapsed_items: number;
+  merged_into_existing: number;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  /** Jobs marked closed this run: unseen past the window, or a dead apply link. */
+  closed: number;
+  new_jobs: NewJobReport[];
+  updated_jobs: UpdatedJobReport[];
+  failed_jobs: FailedJobReport[];
+};
+
+/**
+ * `status` is the HTTP status a route should answer with on failure.
+ */
+export type SyncOutcome = ({ ok: true } & SyncStats) | { ok: false; status: number; error: string };
+
+/**
+ * Per-user sync schedule + watermark (one row of public.job_sync_settings).
+ * `interval_hours` null means the user opted out of scheduled syncs.
+ */
+export type SyncSettingsRow = {
+  user_id: string;
+  interval_hours: number | null;
+  last_synced_at: string | null;
+  last_sync_ok: boolean | null;
+  last_sync_error: string | null;
+};
+
+export const DEFAULT_SYNC_INTERVAL_HOURS = 24;
+
+const DEFAULT_MAX_ROLES = 6;
+
+function pickRoles(raw: string[] | null): string[] {
+  const roles = (raw ?? [])
+    .map((r) => (typeof r === "string" ? r.trim() : ""))
+    .filter((r) => r.length > 0);
+
+  // The daily JSearch budget is the real limit; this only trims noise.
+  const max = Number(process.env.JSEARCH_MAX_ROLES ?? "");
+  return Array.from(new Set(roles)).slice(0, Number.isInteger(max) && max > 0 ? max : DEFAULT_MAX_ROLES);
+}
+
+function buildSearch(role: string, locationPref: string | null, remoteIntent: string | null): JSearchSearch {
+  const loc = (locationPref ?? "").trim();
+
+  const remote = (remoteIntent ?? "").toLowerCase();
+  const wantsRemote = remote.includes("remote");
+
+  // Remote-only users get JSearch's remote filter. Still include location
+  // if it exists (some remote roles are location-tied).
+  return {
+    query: loc ? `${role} in ${loc}` : role,
+    remote_jobs_only: wantsRemote || undefined,
+  };
+}
+
+/**
+ * The id half of the (source, external_job_id) upsert identity.
+ * Jobs without a source id are keyed by their apply URL.
+ */
+function toExternalJobId(job: { external_job_id: string | null; apply_url: string | null }): string {
+  return job.external_job_id ?? `url:${job.apply_url}`;
+}
+
+function identityOf(job: { source: string; external_job_id: string | null; apply_url: string | null }): string {
+  return `${job.source}::${toExternalJobId(job)}`;
+}
+
+/**
+ * Board sources whose followed boards all fetched this run. Only these can
+ * close jobs for not being returned: a board lists every open posting,
+ * while JSearch returns a capped, ranked page per query, so its jobs are
+ * only closed by apply link checks.
+ */
+function fullyCheckedSources(boards: JobBoardRow[], boardErrors: BoardSyncError[]): string[] {
+  return Array.from(new Set(boards.map((b) => b.source))).filter(
+    (source) => !boardErrors.some((e) => e.source === source)
+  );
+}
+
+async function runSync(admin: SupabaseClient, userId: string, scope: SyncScope): Promise<SyncOutcome> {
+  const full = scope.kind === "all";
+  const startedAt = new Date();
+
+  // 1) Load the resume variants, followed company boards and saved searches for this user
+  let variants: ResumeVariant[];
+  let searches: SavedSearch[];
+  try {
+    variants = await loadResumeVariants(admin, userId);
+    searches = full
+      ? await listSavedSearches(admin, userId, { enabledOnly: true })
+      : await listSavedSearches(admin, userId, { ids: scope.ids, enabledOnly: !scope.ids });
+  } catch (err: unknown) {
+    return { ok: false, status: 500, error: getErrorMessage(err) };
+  }
+
+  let boards: JobBoardRow[] = [];
+  if (full) {
+    const { data: boardRows, error: boardsErr } = await admin
+      .from("job_boards")
+      .select("id, source, board_token, company_name")
+      .eq("user_id", userId)
+      .eq("enabled", true)
+      .returns<JobBoardRow[]>();
+
+    if (boardsErr) {
+      return { ok: false, status: 500, error: boardsErr.message };
+    }
+
+    boards = boardRows ?? [];
+  }
+
+  const fallback = defaultVariant(variants);
+
+  if (!full && searches.length === 0) {
+    return { ok: false, status: 404, error: "No saved searches found" };
+  }
+
+  if (!fallback && boards.length === 0 && searches.length === 0) {
+    return { ok: false, status: 404, error: "No resume profile found for user" };
+  }
+
+  // Roles bound to a variant come first, then the default profile's roles.
+  const parsed = variants.filter((v) => v.profile);
+  const roles = full
+    ? pickRoles([...parsed.flatMap((v) => v.target_roles), ...(fallback?.profile?.roles ?? [])])
+    : [];
+  if (full && roles.length === 0 && boards.length === 0 && searches.length === 0) {
+    return { ok: false, status: 400, error: "Profile roles[] is empty" };
+  }
+
+  // 2) Fetch jobs from every enabled source
+  let fetchedItems = 0;
+  const normalized: NormalizedJobInsert[] = [];
+  // Jobs found by a role query are scored with that role's variant.
+  const variantByJob = new Map<string, ResumeVariant>();
+
+  const budget = await loadJSearchBudget(admin, userId);
+  const jsearch = createJSearchAdapter({ budget });
+
+  // One failed role (after retries) shouldn't abort the others.
+  const roleErrors: RoleSyncError[] = [];
+  const rolesSkipped: string[] = [];
+  const roleVariants: RoleVariant[] = [];
+
+  for (const role of roles) {
+    if (budget.remaining() <= 0) {
+      rolesSkipped.push(role);
+      continue;
+    }
+
+    const variant = variantForRole(variants, role);
+    const profile = variant?.profile ?? null;
+    if (variant) roleVariants.push({ role, resume_id: variant.resume_id, label: variant.label });
+
+    const search = buildSearch(role, profile?.location_preference ?? null, profile?.remote_intent ?? null);
+
+    let items: unknown[];
+    try {
+      items = await jsearch.fetchJobs(search);
+    } catch (err: unknown) {
+      roleErrors.push({ role, query: search.query, error: getErrorMessage(err) });
+      continue;
+    }
+
+    fetchedItems += items.length;
+    for (const it of items) {
+      const job = jsearch.normalize(it, search);
+      if (!job) continue;
+      normalized.push(job);
+      const key = identityOf(job);
+      if (variant && !variantByJob.has(key)) variantByJob.set(key, variant);
+    }
+  }
+
+  // Saved searches share the JSearch budget with role queries. Their
+  // results are filtered by the search's own settings and tagged with it.
+  const searchErrors: SavedSearchSyncError[] = [];
+  const searchesSkipped: string[] = [];
+  const searchesRun: SavedSearchRun[] = [];
+  const searchTags = new Map<string, Set<string>>();
+
+  for (const search of searches) {
+    if (budget.remaining() <= 0) {
+      searchesSkipped.push(search.id);
+      continue;
+    }
+
+    const request = savedSearchToJSearch(search);
+
+    let items: unknown[];
+    try {
+      items = await jsearch.fetchJobs(request);
+    } catch (err: unknown) {
+      searchErrors.push({
+        saved_search_id: search.id,
+        name: search.name,
+        query: request.query,
+        error: getErrorMessage(err),
+      });
+      continue;
+    }
+
+    fetchedItems += items.length;
+    let kept = 0;
+    for (const it of items) {
+      const job = jsearch.normalize(it, request);
+      if (!job || !matchesSavedSearch(job, search)) continue;
+      normalized.push(job);
+      kept += 1;
+
+      const key = identityOf(job);
+      const tags = searchTags.get(key) ?? new Set<string>();
+      tags.add(search.id);
+      searchTags.set(key, tags);
+    }
+
+    searchesRun.push({
+      saved_search_id: search.id,
+      name: search.name,
+      query: request.query,
+      fetched: items.length,
+      kept,
+    });
+  }
+
+  // A broken or renamed board shouldn't block the rest of the sync.
+  const boardErrors: BoardSyncError[] = [];
+
+  for (const board of boards) {
+    const adapter = BOARD_ADAPTERS[board.source];
+    if (!adapter) continue;
+
+    let items: unknown[];
+    try {
+      items = await adapter.fetchJobs(board);
+    } catch (err: unknown) {
+      boardErrors.push({
+        board_id: board.id,
+        source: board.source,
+        board_token: board.board_token,
+        error: getErrorMessage(err),
+      });
+      continue;
+    }
+
+    fetchedItems += items.length;
+    for (const it of items) {
+      const job = adapter.normalize(it, board);
+      if (job) normalized.push(job);
+    }
+  }
+
+  // 3) Dedupe: exact source ids first, then syndicated copies across
+  // queries/sources, then copies of jobs we already stored.
+  const deduped = dedupeNormalizedJobs(normalized);
+  const { jobs: collapsed, collapsed_into: collapsedInto } = collapseNearDuplicates(deduped, identityOf);
+  const {
+    jobs: fresh,
+    absorbed_ids: absorbedIds,
+    absorbed_into: absorbedInto,
+  } = await mergeWithStoredDuplicates(
+    admin,
+    userId,
+    collapsed,
+    identityOf
+  );
+
+  // 4) Upsert on (user_id, source, external_job_id)
+  const rows: JobUpsertRow[] = fresh.map((j) => {
+    const variant = variantByJob.get(identityOf(j)) ?? variantForJob(variants, j.title);
+    const match = variant?.profile ? scoreJobMatch(j, variant.profile) : null;
+
+    return {
+      ...j,
+      user_id: userId,
+      external_job_id: toExternalJobId(j),
+      match_score: match?.score ?? null,
+      match_breakdown: match?.breakdown ?? null,
+      match_resume_id: match ? (variant?.resume_id ?? null) : null,
+    };
+  });
+
+  const report = await upsertJobs(admin, userId, rows);
+
+  // A tagged copy may have been folded into another copy in this batch
+  // and/or into a stored job; the tag follows it to the job that was kept.
+  const tagsByJobId = new Map<string, Set<string>>();
+  for (const [key, searchIds] of searchTags) {
+    const survivor = collapsedInto.get(key) ?? key;
+    const jobId = report.job_ids.get(survivor) ?? absorbedInto.get(survivor);
+    if (!jobId) continue;
+
+    const tags = tagsByJobId.get(jobId) ?? new Set<string>();
+    for (const id of searchIds) tags.add(id);
+    tagsByJobId.set(jobId, tags);
+  }
+
+  // The jobs are already in; a missing tag only hides which search found one.
+  try {
+    await tagJobsWithSearches(admin, userId, tagsByJobId);
+    await markSavedSearchesRun(admin, userId, searchesRun.map((r) => r.saved_search_id));
+  } catch (err: unknown) {
+    console.error(`Saved search tagging failed for ${userId}: ${getErrorMessage(err)}`);
+  }
+
+  // 5) Freshness: everything returned is seen now. Full runs also close
+  // jobs their company board stopped listing and, if enabled, check the
+  // apply links of jobs this run didn't return. Neither is worth failing the sync.
+  let closed = 0;
+  try {
+    await markJobsSeen(admin, userId, Array.from(new Set([...report.job_ids.values(), ...absorbedIds])), startedAt);
+
+    if (full) {
+      const settings = await loadFreshnessSettings(admin, userId);
+
+      if (settings.close_after_days) {
+        const sources = fullyCheckedSources(boards, boardErrors);
+        closed += await closeUnseenJobs(admin, userId, sources, settings.close_after_days, startedAt);
+      }
+      if (settings.probe_apply_urls) {
+        closed += await probeUnseenJobs(admin, userId, startedAt);
+      }
+    }
+  } catch (err: unknown) {
+    console.error(`Job freshness update failed for ${userId}: ${getErrorMessage(err)}`);
+  }
+
+  return {
+    ok: true,
+    user_id: userId,
+    roles_used: roles,
+    role_variants: roleVariants,
+    role_errors: roleErrors,
+    roles_skipped: rolesSkipped,
+    jsearch_budget_remaining: budget.remaining(),
+    boards_used: boards.length,
+    board_errors: boardErrors,
+    saved_searches_run: searchesRun,
+    saved_search_errors: searchErrors,
+    saved_searches_skipped: searchesSkipped,
+    fetched_items: fetchedItems,
+    normalized_items: normalized.length,
+    deduped_items: deduped.length,
+    collapsed_items: deduped.length - collapsed.length,
+    merged_into_existing: collapsed.length - fresh.length,
+    inserted: report.new_jobs.length,
+    updated: report.updated_jobs.length,
+    unchanged: report.unchanged,
+    failed: report.failed_jobs.length,
+    closed,
+    new_jobs: report.new_jobs,
+    updated_jobs: report.updated_jobs,
+    failed_jobs: report.failed_jobs,
+  };
+}
+
+/**
+ * Fetch, normalize, dedupe and insert jobs for one user. Full runs are
+ * recorded in job_sync_settings; saved-search-only runs don't move the
+ * schedule. Never throws; failures come back as `ok: false`.
+ */
+export async function syncJobsForUser(
+  admin: SupabaseClient,
+  userId: string,
+  scope: SyncScope = { kind: "all" }
+): Promise<SyncOutcome> {
+  let outcome: SyncOutcome;
+  try {
+    outcome = await runSync(admin, userId, scope);
+  } catch (err: unknown) {
+    outcome = { ok: false, status: 500, error: getErrorMessage(err) };
+  }
+
+  // New jobs wait for the user's next email digest; missing one isn't worth failing the sync.
+  if (outcome.ok && outcome.new_jobs.length > 0) {
+    const newJobIds = outcome.new_jobs.map((j) => j.id);
+
+    try {
+      await queueDigestJobs(admin, userId, newJobIds);
+    } catch (err: unknown) {
+      console.error(`digest queue failed for ${userId}: ${getErrorMessage(err)}`);
+    }
+
+    // Same for webhooks: failed sends are retried on their own schedule.
+    try {
+      const jobs = await loadWebhookJobs(admin, userId, newJobIds);
+      await emitWebhookEvents(admin, userId, [
+        { type: "job.synced", data: { inserted: outcome.inserted, updated: outcome.updated, jobs } },
+        ...jobs.map((job) => ({ type: "job.matched" as const, data: { job, previous_match_score: null } })),
+      ]);
+    } catch (err: unknown) {
+      console.error(`webhooks failed for ${userId}: ${getErrorMessage(err)}`);
+    }
+  }
+
+  if (scope.kind !== "all") return outcome;
+
+  const { error } = await admin.from("job_sync_settings").upsert(
+    {
+      user_id: userId,
+      last_synced_at: new Date().toISOString(),
+      last_sync_ok: outcome.ok,
+      last_sync_error: outcome.ok ? null : outcome.error,
+    },
+    { onConflict: "user_id" }
+  );
+
+  // The jobs are already in; a failed watermark write only means an early re-run.
+  if (error) console.error(`job_sync_settings upsert failed for ${userId}: ${error.message}`);
+
+  return outcome;
+}
@@ -0,0 +1,233 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { DedupedJob } from "@/lib/jobs/dedupe";
+import type { MatchBreakdown } from "@/lib/jobs/match";
+
+/**
+ * One public.jobs row as written by sync. `external_job_id` is always set
+ * here since it is part of the upsert identity.
+ */
+export type JobUpsertRow = Omit<DedupedJob, "external_job_id"> & {
+  user_id: string;
+  external_job_id: string;
+  match_score: number | null;
+  match_breakdown: MatchBreakdown | null;
+  match_resume_id: string | null;
+  updated_at?: string;
+};
+
+export type NewJobReport = {
+  id: string;
+  source: string;
+  external_job_id: string;
+  title: string;
+};
+
+export type UpdatedJobReport = NewJobReport & {
+  changed_fields: string[];
+};
+
+export type FailedJobReport = {
+  source: string;
+  external_job_id: string;
+  title: string;
+  error: string;
+  code: string | null;
+};
+
+export type UpsertReport = {
+  new_jobs: NewJobReport[];
+  updated_jobs: UpdatedJobReport[];
+  unchanged: number;
+  failed_jobs: FailedJobReport[];
+  /** Stored job id by "source::external_job_id", for every row that didn't fail. */
+  job_ids: Map<string, string>;
+};
+
+// Columns we compare against the stored row to decide whether a job changed.
+// Everything in the payload is written on upsert; these just drive reporting.
+const TRACKED_FIELDS = [
+  "title",
+  "apply_url",
+  "company_name",
+  "location_text",
+  "is_remote",
+  "remote_type",
+  "employment_type",
+  "description",
+  "posted_at",
+  "salary_min",
+  "salary_max",
+  "salary_currency",
+  "salary_period",
+  "alternate_apply_urls",
+] as const;
+
+const BATCH_SIZE = 100;
+
+type ExistingJobRow = {
+  id: string;
+  source: string;
+  external_job_id: string;
+} & Record<(typeof TRACKED_FIELDS)[number], unknown>;
+
+function identityKey(source: string, externalJobId: string) {
+  return `${source}::${externalJobId}`;
+}
+
+function sameValue(field: string, a: unknown, b: unknown): boolean {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return (a ?? null) === (b ?? null);
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  if (field === "posted_at") {
+    return new Date(String(a)).getTime() === new Date(String(b)).getTime();
+  }
+  if (typeof a === "number" || typeof b === "number") {
+    return Number(a) === Number(b);
+  }
+  return a === b;
+}
+
+function chunk<T>(arr: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
+  return out;
+}
+
+function errorCode(error: unknown): string | null {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" ? code : null;
+}
+
+async function loadExisting(
+  admin: SupabaseClient,
+  userId: string,
+  rows: JobUpsertRow[]
+): Promise<Map<string, ExistingJobRow>> {
+  const existing = new Map<string, ExistingJobRow>();
+  const columns = ["id", "source", "external_job_id", ...TRACKED_FIELDS].join(", ");
+
+  for (const part of chunk(rows, BATCH_SIZE)) {
+    const { data, error } = await admin
+      .from("jobs")
+      .select(columns)
+      .eq("user_id", userId)
+      .in(
+        "external_job_id",
+        part.map((r) => r.external_job_id)
+      )
+      .returns<ExistingJobRow[]>();
+
+    if (error) throw new Error(error.message);
+
+    for (const row of data ?? []) {
+      existing.set(identityKey(row.source, row.external_job_id), row);
+    }
+  }
+
+  return existing;
+}
+
+async function writeBatch(
+  admin: SupabaseClient,
+  rows: JobUpsertRow[]
+): Promise<{ ids: Map<string, string>; failed: FailedJobReport[] }> {
+  const ids = new Map<string, string>();
+  const failed: FailedJobReport[] = [];
+
+  const { data, error } = await admin
+    .from("jobs")
+    .upsert(rows, { onConflict: "user_id,source,external_job_id" })
+    .select("id, source, external_job_id")
+    .returns<Array<{ id: string; source: string; external_job_id: string }>>();
+
+  if (!error) {
+    for (const r of data ?? []) ids.set(identityKey(r.source, r.external_job_id), r.id);
+    return { ids, failed };
+  }
+
+  // One bad row fails the whole statement; retry row by row to find it.
+  for (const row of rows) {
+    const { data: one, error: oneErr } = await admin
+      .from("jobs")
+      .upsert(row, { onConflict: "user_id,source,external_job_id" })
+      .select("id")
+      .single<{ id: string }>();
+
+    if (oneErr || !one) {
+      failed.push({
+        source: row.source,
+        external_job_id: row.external_job_id,
+        title: row.title,
+        error: oneErr?.message ?? "Upsert returned no row",
+        code: errorCode(oneErr),
+      });
+      continue;
+    }
+
+    ids.set(identityKey(row.source, row.external_job_id), one.id);
+  }
+
+  return { ids, failed };
+}
+
+/**
+ * Upsert jobs for one user on (user_id, source, external_job_id), in batches.
+ * Jobs we already have are refreshed only if a tracked field changed;
+ * the report says which rows were new, updated or failed (with the DB error).
+ */
+export async function upsertJobs(
+  admin: SupabaseClient,
+  userId: string,
+  rows: JobUpsertRow[]
+): Promise<UpsertReport> {
+  const report: UpsertReport = { new_jobs: [], updated_jobs: [], unchanged: 0, failed_jobs: [], job_ids: new Map() };
+  if (rows.length === 0) return report;
+
+  const existing = await loadExisting(admin, userId, rows);
+
+  const toWrite: JobUpsertRow[] = [];
+  const changedFields = new Map<string, string[]>();
+
+  for (const row of rows) {
+    const key = identityKey(row.source, row.external_job_id);
+    const prev = existing.get(key);
+
+    if (!prev) {
+      toWrite.push(row);
+      continue;
+    }
+
+    const changed = TRACKED_FIELDS.filter((f) => !sameValue(f, prev[f], row[f]));
+    if (changed.length === 0) {
+      report.unchanged += 1;
+      report.job_ids.set(key, prev.id);
+      continue;
+    }
+
+    changedFields.set(key, changed);
+    toWrite.push({ ...row, updated_at: new Date().toISOString() });
+  }
+
+  for (const part of chunk(toWrite, BATCH_SIZE)) {
+    const { ids, failed } = await writeBatch(admin, part);
+    report.failed_jobs.push(...failed);
+
+    for (const row of part) {
+      const key = identityKey(row.source, row.external_job_id);
+      const id = ids.get(key);
+      if (!id) continue;
+      report.job_ids.set(key, id);
+
+      const base = { id, source: row.source, external_job_id: row.external_job_id, title: row.title };
+      const changed = changedFields.get(key);
+      if (changed) report.updated_jobs.push({ ...base, changed_fields: changed });
+      else report.new_jobs.push(base);
+    }
+  }
+
+  return report;
+}
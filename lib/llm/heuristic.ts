@@ -0,0 +1,14 @@
+import type { LlmProvider } from "@/lib/llm/types";
+
+/**
+ * Runs each task's built-in heuristic instead of calling a model.
+ */
+export function createHeuristicProvider(): LlmProvider {
+  return {
+    name: "heuristic",
+    model: null,
+    async extract(task) {
+      return task.heuristic(task.input);
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import { createHeuristicProvider } from "@/lib/llm/heuristic";
+import { createOpenAIProvider } from "@/lib/llm/openai";
+import type { LlmProvider, LlmProviderName } from "@/lib/llm/types";
+
+export { createHeuristicProvider } from "@/lib/llm/heuristic";
+export { createOpenAIProvider } from "@/lib/llm/openai";
+export type { ExtractionTask, LlmProvider, LlmProviderName } from "@/lib/llm/types";
+
+const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+
+function getEnv(name: string): string {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function isProviderName(v: string): v is LlmProviderName {
+  return v === "openai" || v === "openai-compatible" || v === "heuristic";
+}
+
+/**
+ * Provider from config:
+ * - LLM_PROVIDER: openai | openai-compatible | heuristic. Defaults to
+ *   openai when OPENAI_API_KEY is set, otherwise heuristic.
+ * - LLM_MODEL: model name (default gpt-4o-mini for openai; required for
+ *   openai-compatible).
+ * - LLM_BASE_URL / LLM_API_KEY: the OpenAI-compatible server (Ollama,
+ *   llama.cpp); the key is optional since most local servers ignore it.
+ */
+export function getLlmProvider(): LlmProvider {
+  const name = process.env.LLM_PROVIDER?.trim().toLowerCase() || (process.env.OPENAI_API_KEY ? "openai" : "heuristic");
+  if (!isProviderName(name)) {
+    throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+  }
+
+  switch (name) {
+    case "openai":
+      return createOpenAIProvider({
+        apiKey: getEnv("OPENAI_API_KEY"),
+        model: process.env.LLM_MODEL || DEFAULT_OPENAI_MODEL,
+      });
+    case "openai-compatible":
+      return createOpenAIProvider({
+        name,
+        apiKey: process.env.LLM_API_KEY || "local",
+        baseURL: getEnv("LLM_BASE_URL"),
+        model: getEnv("LLM_MODEL"),
+      });
+    case "heuristic":
+      return createHeuristicProvider();
+  }
+}
@@ -0,0 +1,54 @@
+import OpenAI from "openai";
+import { zodResponseFormat } from "openai/helpers/zod";
+import { z } from "zod";
+
+import type { LlmProvider, LlmProviderName } from "@/lib/llm/types";
+
+export type OpenAIProviderOptions = {
+  name?: Extract<LlmProviderName, "openai" | "openai-compatible">;
+  apiKey: string;
+  model: string;
+  /** OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama. */
+  baseURL?: string;
+};
+
+/**
+ * Structured extraction through the chat completions API with a strict
+ * JSON-schema response format. Local servers don't all honor
+ * `response_format`, so for those the schema is also spelled out in the prompt.
+ */
+export function createOpenAIProvider(opts: OpenAIProviderOptions): LlmProvider {
+  const name = opts.name ?? "openai";
+  const client = new OpenAI({ apiKey: opts.apiKey, baseURL: opts.baseURL });
+
+  return {
+    name,
+    model: opts.model,
+    async extract(task) {
+      const schemaHint =
+        name === "openai-compatible"
+          ? `\n\nRespond with JSON matching this schema:\n${JSON.stringify(z.toJSONSchema(task.schema))}`
+          : "";
+
+      const completion = await client.chat.completions.create({
+        model: opts.model,
+        temperature: task.temperature ?? 0,
+        response_format: zodResponseFormat(task.schema, task.name),
+        messages: [
+          { role: "system", content: task.instructions + schemaHint },
+          { role: "user", content: task.input },
+        ],
+      });
+
+      const message = completion.choices[0]?.message;
+      const raw = message?.content;
+      if (!raw) throw new Error(message?.refusal ?? `${name} returned no content`);
+
+      try {
+        return JSON.parse(raw) as unknown;
+      } catch {
+        throw new Error(`Invalid JSON from ${name}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import type { z } from "zod";
+
+export type LlmProviderName = "openai" | "openai-compatible" | "heuristic";
+
+/**
+ * One structured-output job: turn `input` into JSON matching `schema`.
+ * `heuristic` is the no-LLM answer, used by the heuristic provider so every
+ * task still works offline.
+ */
+export type ExtractionTask<T> = {
+  name: string;
+  schema: z.ZodType<T>;
+  instructions: string;
+  input: string;
+  heuristic: (input: string) => T;
+  /** Defaults to 0; raise it for writing tasks that should vary between runs. */
+  temperature?: number;
+};
+
+/**
+ * A backend for structured extraction. Providers return the raw parsed
+ * JSON; callers validate it against the task schema themselves so bad
+ * output can be reported field by field.
+ */
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string | null;
+  extract<T>(task: ExtractionTask<T>): Promise<unknown>;
+}
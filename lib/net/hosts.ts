@@ -0,0 +1,32 @@
+import net from "node:net";
+
+/**
+ * Whether a URL hostname or address is loopback, link-local, reserved or
+ * on a private network. Names are not resolved here, so only literal IPs
+ * and reserved suffixes count; requestPublicUrl also checks the addresses
+ * a name resolves to.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const h = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (h === "localhost" || h.endsWith(".localhost") || h.endsWith(".local") || h.endsWith(".internal")) return true;
+
+  if (net.isIPv4(h)) {
+    const [a, b] = h.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    );
+  }
+
+  if (net.isIPv6(h)) {
+    return h === "::" || h === "::1" || /^f[cd]/.test(h) || h.startsWith("fe80") || h.startsWith("::ffff:");
+  }
+
+  return false;
+}
@@ -0,0 +1,100 @@
+import dns from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import type net from "node:net";
+
+import { isPrivateHost } from "@/lib/net/hosts";
+
+export type PublicRequestInit = {
+  method: "GET" | "HEAD" | "POST";
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs: number;
+  /** Bytes of the response body to read; 0 (the default) reads none. */
+  maxBodyBytes?: number;
+  /** Skip the address checks (local development only). */
+  allowPrivate?: boolean;
+};
+
+export type PublicResponse = {
+  status: number;
+  location: string | null;
+  body: string;
+};
+
+/**
+ * dns.lookup that fails when any address a name resolves to is private,
+ * so a public-looking name (or one rebound after it was saved) can't
+ * reach an internal host. The connection uses the checked addresses.
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+
+    const blocked = addresses.find((a) => isPrivateHost(a.address));
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(`${hostname} does not resolve to a public address`), "");
+    }
+
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * One HTTP(S) request to a user- or third-party-supplied URL. Literal and
+ * resolved addresses are both checked against isPrivateHost, redirects are
+ * not followed, and at most `maxBodyBytes` of the body is read. Rejects
+ * on refused addresses, network errors and timeouts.
+ */
+export function requestPublicUrl(url: URL, init: PublicRequestInit): Promise<PublicResponse> {
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return Promise.reject(new Error("Only http and https URLs can be requested"));
+  }
+  if (!init.allowPrivate && isPrivateHost(url.hostname)) {
+    return Promise.reject(new Error(`${url.hostname} is not a public address`));
+  }
+
+  const send = url.protocol === "https:" ? https.request : http.request;
+  const maxBodyBytes = init.maxBodyBytes ?? 0;
+  const headers = { ...init.headers };
+  if (init.body !== undefined) headers["Content-Length"] = String(Buffer.byteLength(init.body));
+
+  return new Promise((resolve, reject) => {
+    const req = send(
+      url,
+      {
+        method: init.method,
+        headers,
+        lookup: init.allowPrivate ? undefined : publicLookup,
+        signal: AbortSignal.timeout(init.timeoutMs),
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        const finish = () => {
+          res.destroy();
+          resolve({
+            status: res.statusCode ?? 0,
+            location: res.headers.location ?? null,
+            body: Buffer.concat(chunks).subarray(0, maxBodyBytes).toString("utf8"),
+          });
+        };
+
+        if (maxBodyBytes === 0) return finish();
+
+        res.on("data", (chunk: Buffer) => {
+          chunks.push(chunk);
+          size += chunk.length;
+          if (size >= maxBodyBytes) finish();
+        });
+        res.on("end", finish);
+        res.on("error", reject);
+      }
+    );
+
+    req.on("error", reject);
+    req.end(init.body);
+  });
+}
@@ -0,0 +1,198 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { renderDigestEmail, type DigestJob } from "@/lib/notifications/digestEmail";
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  isDigestDue,
+  type NotificationSettings,
+} from "@/lib/notifications/settings";
+import type { MailTransport } from "@/lib/notifications/types";
+
+/**
+ * One row of public.notification_settings.
+ */
+export type NotificationSettingsRow = NotificationSettings & {
+  user_id: string;
+  unsubscribe_token: string;
+};
+
+export const NOTIFICATION_SETTINGS_COLUMNS =
+  "user_id, digest_frequency, digest_min_score, unsubscribe_token, last_digest_sent_at";
+
+const DIGEST_JOB_COLUMNS =
+  "id, title, company_name, location_text, is_remote, apply_url, match_score, salary_currency, salary_annual_min, salary_annual_max";
+
+// Keep the email short; the rest are a click away on the dashboard.
+const MAX_DIGEST_JOBS = 20;
+
+// Keeps `.in()` filters well under URL length limits.
+const JOB_ID_CHUNK = 100;
+
+export type DigestResult = {
+  user_id: string;
+  /** `no_email`: phone or OAuth-only account with nowhere to send to. */
+  status: "sent" | "not_due" | "empty" | "off" | "no_email";
+  jobs: number;
+};
+
+/**
+ * The user's settings row, created with defaults on first use so there is
+ * always an unsubscribe token to link to.
+ */
+export async function ensureNotificationSettings(
+  admin: SupabaseClient,
+  userId: string
+): Promise<NotificationSettingsRow> {
+  const { error: insertErr } = await admin
+    .from("notification_settings")
+    .upsert({ user_id: userId }, { onConflict: "user_id", ignoreDuplicates: true });
+
+  if (insertErr) throw new Error(insertErr.message);
+
+  const { data, error } = await admin
+    .from("notification_settings")
+    .select(NOTIFICATION_SETTINGS_COLUMNS)
+    .eq("user_id", userId)
+    .single<NotificationSettingsRow>();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/**
+ * Queue jobs a sync just inserted for the user's next digest. Nothing is
+ * queued while digests are off.
+ */
+export async function queueDigestJobs(admin: SupabaseClient, userId: string, jobIds: string[]): Promise<number> {
+  if (jobIds.length === 0) return 0;
+
+  const { data: settings, error: settingsErr } = await admin
+    .from("notification_settings")
+    .select("digest_frequency")
+    .eq("user_id", userId)
+    .maybeSingle<Pick<NotificationSettings, "digest_frequency">>();
+
+  if (settingsErr) throw new Error(settingsErr.message);
+  if ((settings ?? DEFAULT_NOTIFICATION_SETTINGS).digest_frequency === "off") return 0;
+
+  const { error } = await admin
+    .from("digest_jobs")
+    .upsert(
+      jobIds.map((jobId) => ({ user_id: userId, job_id: jobId })),
+      { onConflict: "user_id,job_id", ignoreDuplicates: true }
+    );
+
+  if (error) throw new Error(error.message);
+  return jobIds.length;
+}
+
+/**
+ * Drop everything queued for the user, e.g. when digests are turned off;
+ * the digest cron no longer visits users whose digests are off.
+ */
+export async function clearDigestQueue(admin: SupabaseClient, userId: string) {
+  const { error } = await admin.from("digest_jobs").delete().eq("user_id", userId);
+  if (error) throw new Error(error.message);
+}
+
+async function clearQueuedJobs(admin: SupabaseClient, userId: string, jobIds: string[]) {
+  for (let i = 0; i < jobIds.length; i += JOB_ID_CHUNK) {
+    const { error } = await admin
+      .from("digest_jobs")
+      .delete()
+      .eq("user_id", userId)
+      .in("job_id", jobIds.slice(i, i + JOB_ID_CHUNK));
+
+    if (error) throw new Error(error.message);
+  }
+}
+
+/**
+ * Send the user's digest if one is due: queued jobs at or above their
+ * score threshold, best match first. The queue is cleared either way once
+ * a digest is due, so below-threshold jobs don't pile up, and for users
+ * without an email address, who would otherwise head the due list forever.
+ */
+export async function sendDigestIfDue(
+  admin: SupabaseClient,
+  transport: MailTransport,
+  userId: string,
+  opts: { appUrl: string; now?: Date }
+): Promise<DigestResult> {
+  const now = opts.now ?? new Date();
+  const settings = await ensureNotificationSettings(admin, userId);
+
+  const { data: queued, error: queueErr } = await admin
+    .from("digest_jobs")
+    .select(`job_id, jobs(${DIGEST_JOB_COLUMNS})`)
+    .eq("user_id", userId)
+    .returns<Array<{ job_id: string; jobs: DigestJob | null }>>();
+
+  if (queueErr) throw new Error(queueErr.message);
+
+  const queuedIds = (queued ?? []).map((q) => q.job_id);
+
+  if (settings.digest_frequency === "off") {
+    await clearQueuedJobs(admin, userId, queuedIds);
+    return { user_id: userId, status: "off", jobs: 0 };
+  }
+
+  if (!isDigestDue(settings, now)) {
+    return { user_id: userId, status: "not_due", jobs: 0 };
+  }
+
+  const min = settings.digest_min_score;
+  const matching = (queued ?? [])
+    .flatMap((q) => (q.jobs ? [q.jobs] : []))
+    .filter((j) => (j.match_score === null ? min === 0 : j.match_score >= min))
+    .sort((a, b) => (b.match_score ?? -1) - (a.match_score ?? -1));
+
+  if (matching.length === 0) {
+    await clearQueuedJobs(admin, userId, queuedIds);
+    return { user_id: userId, status: "empty", jobs: 0 };
+  }
+
+  const { data: userData, error: userErr } = await admin.auth.admin.getUserById(userId);
+  if (userErr) throw new Error(userErr.message);
+  const email = userData.user?.email;
+  if (!email) {
+    await clearQueuedJobs(admin, userId, queuedIds);
+    return { user_id: userId, status: "no_email", jobs: 0 };
+  }
+
+  const unsubscribeUrl = `${opts.appUrl}/api/notifications/unsubscribe?token=${settings.unsubscribe_token}`;
+  const rendered = renderDigestEmail({
+    jobs: matching.slice(0, MAX_DIGEST_JOBS),
+    total: matching.length,
+    frequency: settings.digest_frequency,
+    dashboardUrl: `${opts.appUrl}/dashboard`,
+    unsubscribeUrl,
+  });
+
+  await transport.send({
+    to: email,
+    ...rendered,
+    headers: {
+      "List-Unsubscribe": `<${unsubscribeUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  });
+
+  // Record the send first: if it isn't recorded, the next run mails the same digest again.
+  const { error: sentErr } = await admin
+    .from("notification_settings")
+    .update({ last_digest_sent_at: now.toISOString() })
+    .eq("user_id", userId);
+
+  if (sentErr) throw new Error(sentErr.message);
+
+  // Only what was loaded above; jobs queued by a sync since then wait for the next digest.
+  // The mail is out, so a failed delete only means these jobs show up again next time.
+  try {
+    await clearQueuedJobs(admin, userId, queuedIds);
+  } catch (err: unknown) {
+    console.error(`Clearing the digest queue failed for ${userId}: ${err instanceof Error ? err.message : "Unknown error"}`);
+  }
+
+  return { user_id: userId, status: "sent", jobs: matching.length };
+}
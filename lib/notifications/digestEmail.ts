@@ -0,0 +1,116 @@
+import type { DigestFrequency } from "@/lib/notifications/settings";
+
+export type DigestJob = {
+  id: string;
+  title: string;
+  company_name: string | null;
+  location_text: string | null;
+  is_remote: boolean;
+  apply_url: string | null;
+  match_score: number | null;
+  salary_currency: string | null;
+  salary_annual_min: number | null;
+  salary_annual_max: number | null;
+};
+
+export type DigestEmailInput = {
+  jobs: DigestJob[];
+  /** All matching jobs, including any left out of `jobs`. */
+  total: number;
+  frequency: Exclude<DigestFrequency, "off">;
+  dashboardUrl: string;
+  unsubscribeUrl: string;
+};
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatSalary(job: DigestJob): string | null {
+  const lo = job.salary_annual_min ?? job.salary_annual_max;
+  const hi = job.salary_annual_max ?? job.salary_annual_min;
+  if (lo === null || hi === null) return null;
+
+  const fmt = (n: number) => {
+    try {
+      return new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency: job.salary_currency ?? "USD",
+        maximumFractionDigits: 0,
+      }).format(n);
+    } catch {
+      return `${job.salary_currency ?? ""} ${Math.round(n).toLocaleString("en-US")}`.trim();
+    }
+  };
+
+  return `${lo === hi ? fmt(lo) : `${fmt(lo)}–${fmt(hi)}`}/yr`;
+}
+
+function details(job: DigestJob): string[] {
+  return [
+    job.company_name ?? "Unknown company",
+    job.location_text ?? (job.is_remote ? null : "Unknown location"),
+    job.is_remote ? "Remote" : null,
+    formatSalary(job),
+    job.match_score !== null ? `${job.match_score}% match` : null,
+  ].filter((d): d is string => Boolean(d));
+}
+
+function subjectFor({ total, frequency }: DigestEmailInput): string {
+  const period = frequency === "daily" ? "today" : "this week";
+  return `${total} new matching ${total === 1 ? "job" : "jobs"} ${period}`;
+}
+
+/**
+ * The digest as subject, HTML and plain text. Inline styles only, since
+ * most mail clients drop <style> blocks.
+ */
+export function renderDigestEmail(input: DigestEmailInput): { subject: string; html: string; text: string } {
+  const { jobs, total, dashboardUrl, unsubscribeUrl } = input;
+  const more = total - jobs.length;
+  const subject = subjectFor(input);
+
+  const text = [
+    subject,
+    "",
+    ...jobs.flatMap((j) => [`${j.title}`, `  ${details(j).join(" · ")}`, ...(j.apply_url ? [`  ${j.apply_url}`] : []), ""]),
+    more > 0 ? `…and ${more} more on your dashboard: ${dashboardUrl}` : `Open your dashboard: ${dashboardUrl}`,
+    "",
+    `Unsubscribe from these emails: ${unsubscribeUrl}`,
+  ].join("\n");
+
+  const items = jobs
+    .map((j) => {
+      const title = escapeHtml(j.title);
+      const heading = j.apply_url
+        ? `<a href="${escapeHtml(j.apply_url)}" style="color:#111827;font-weight:600;text-decoration:none">${title}</a>`
+        : `<span style="color:#111827;font-weight:600">${title}</span>`;
+      return (
+        `<tr><td style="padding:12px 0;border-bottom:1px solid #e5e7eb">${heading}` +
+        `<div style="color:#4b5563;font-size:14px;margin-top:4px">${escapeHtml(details(j).join(" · "))}</div></td></tr>`
+      );
+    })
+    .join("");
+
+  const footer =
+    more > 0
+      ? `…and ${more} more on <a href="${escapeHtml(dashboardUrl)}" style="color:#2563eb">your dashboard</a>.`
+      : `<a href="${escapeHtml(dashboardUrl)}" style="color:#2563eb">Open your dashboard</a>`;
+
+  const html =
+    `<!doctype html><html><body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif">` +
+    `<table role="presentation" width="100%" style="max-width:600px;margin:0 auto;background:#ffffff;padding:24px;border-radius:8px">` +
+    `<tr><td><h1 style="font-size:20px;color:#111827;margin:0 0 8px">${escapeHtml(subject)}</h1></td></tr>` +
+    items +
+    `<tr><td style="padding-top:16px;font-size:14px">${footer}</td></tr>` +
+    `<tr><td style="padding-top:24px;font-size:12px;color:#6b7280">` +
+    `You get this because email digests are on. <a href="${escapeHtml(unsubscribeUrl)}" style="color:#6b7280">Unsubscribe</a>` +
+    `</td></tr></table></body></html>`;
+
+  return { subject, html, text };
+}
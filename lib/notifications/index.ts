@@ -0,0 +1,51 @@
+import { createLogTransport } from "@/lib/notifications/log";
+import { createSmtpTransport } from "@/lib/notifications/smtp";
+import type { MailTransport, MailTransportName } from "@/lib/notifications/types";
+
+export { createLogTransport } from "@/lib/notifications/log";
+export { createSmtpTransport, type SmtpConfig } from "@/lib/notifications/smtp";
+export type { EmailMessage, MailTransport, MailTransportName } from "@/lib/notifications/types";
+
+function getEnv(name: string): string {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env var: ${name}`);
+  return v;
+}
+
+function isTransportName(v: string): v is MailTransportName {
+  return v === "smtp" || v === "log";
+}
+
+/**
+ * Transport from config:
+ * - MAIL_TRANSPORT: smtp | log. Defaults to smtp when SMTP_HOST is set,
+ *   otherwise log (messages are printed, not sent).
+ * - SMTP_HOST / SMTP_PORT: the server; the port defaults to 465 with
+ *   SMTP_SECURE=true and 587 otherwise. For a local mail catcher
+ *   (Mailpit, MailHog) use SMTP_HOST=localhost SMTP_PORT=1025.
+ * - SMTP_USER / SMTP_PASS: optional credentials; only sent over TLS.
+ * - MAIL_FROM: the sender, e.g. "Joblio <digest@example.com>".
+ */
+export function getMailTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT?.trim().toLowerCase() || (process.env.SMTP_HOST ? "smtp" : "log");
+  if (!isTransportName(name)) {
+    throw new Error(`Unknown MAIL_TRANSPORT: ${name}`);
+  }
+
+  switch (name) {
+    case "smtp": {
+      const secure = process.env.SMTP_SECURE === "true";
+      const port = Number(process.env.SMTP_PORT ?? "");
+      return createSmtpTransport({
+        host: getEnv("SMTP_HOST"),
+        port: Number.isInteger(port) && port > 0 ? port : secure ? 465 : 587,
+        secure,
+        user: process.env.SMTP_USER || undefined,
+        pass: process.env.SMTP_PASS || undefined,
+        from: getEnv("MAIL_FROM"),
+      });
+    }
+    case "log":
+      return createLogTransport();
+  }
+}
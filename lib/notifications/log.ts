@@ -0,0 +1,14 @@
+import type { MailTransport } from "@/lib/notifications/types";
+
+/**
+ * Writes messages to the server log instead of sending them. Used when no
+ * SMTP server is configured.
+ */
+export function createLogTransport(): MailTransport {
+  return {
+    name: "log",
+    async send(message) {
+      console.info(`[mail] to=${message.to} subject=${JSON.stringify(message.subject)}\n${message.text}`);
+    },
+  };
+}
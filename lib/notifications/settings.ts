@@ -0,0 +1,48 @@
+export const DIGEST_FREQUENCIES = ["off", "daily", "weekly"] as const;
+
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number];
+
+export const DIGEST_FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  off: "Off",
+  daily: "Daily",
+  weekly: "Weekly",
+};
+
+const DIGEST_INTERVAL_HOURS: Record<Exclude<DigestFrequency, "off">, number> = {
+  daily: 24,
+  weekly: 168,
+};
+
+/**
+ * The user-facing part of public.notification_settings.
+ */
+export type NotificationSettings = {
+  digest_frequency: DigestFrequency;
+  /** Only jobs scoring at least this go into the digest; 0 includes unscored jobs. */
+  digest_min_score: number;
+  last_digest_sent_at: string | null;
+};
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  digest_frequency: "daily",
+  digest_min_score: 60,
+  last_digest_sent_at: null,
+};
+
+export function isDigestFrequency(v: unknown): v is DigestFrequency {
+  return typeof v === "string" && (DIGEST_FREQUENCIES as readonly string[]).includes(v);
+}
+
+/**
+ * Whether a digest may go out: the frequency's interval has passed since
+ * the last one.
+ */
+export function isDigestDue(settings: NotificationSettings, now: Date): boolean {
+  if (settings.digest_frequency === "off") return false;
+  if (!settings.last_digest_sent_at) return true;
+
+  const last = new Date(settings.last_digest_sent_at).getTime();
+  if (Number.isNaN(last)) return true;
+
+  return now.getTime() - last >= DIGEST_INTERVAL_HOURS[settings.digest_frequency] * 60 * 60 * 1000;
+}
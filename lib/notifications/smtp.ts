@@ -0,0 +1,260 @@
+import { randomUUID } from "node:crypto";
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+
+import type { EmailMessage, MailTransport } from "@/lib/notifications/types";
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  /** Implicit TLS (usually port 465). Otherwise STARTTLS is used when offered. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  /** "Joblio <digest@example.com>" or a bare address. */
+  from: string;
+  /** Connect and per-reply timeout (default 15s). */
+  timeoutMs?: number;
+};
+
+type SmtpReply = { code: number; lines: string[] };
+
+type SmtpConnection = {
+  read(): Promise<SmtpReply>;
+  write(data: string): void;
+  startTls(): Promise<void>;
+  encrypted(): boolean;
+  close(): void;
+};
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+function connect(config: SmtpConfig): Promise<SmtpConnection> {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  let socket: net.Socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+    : net.connect({ host: config.host, port: config.port });
+
+  let buffer = "";
+  let pending: string[] = [];
+  const replies: SmtpReply[] = [];
+  let failure: Error | null = null;
+  let waiter: { resolve: (r: SmtpReply) => void; reject: (e: Error) => void } | null = null;
+
+  function settle(item: SmtpReply | Error) {
+    const w = waiter;
+    waiter = null;
+    if (item instanceof Error) {
+      failure ??= item;
+      w?.reject(item);
+    } else if (w) {
+      w.resolve(item);
+    } else {
+      replies.push(item);
+    }
+  }
+
+  // Replies are "250-first\r\n250-more\r\n250 last"; the space marks the end.
+  function onData(chunk: Buffer) {
+    buffer += chunk.toString("utf8");
+    let i: number;
+    while ((i = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, i).replace(/\r$/, "");
+      buffer = buffer.slice(i + 1);
+      pending.push(line.slice(4));
+      if (line[3] !== "-") {
+        settle({ code: Number(line.slice(0, 3)), lines: pending });
+        pending = [];
+      }
+    }
+  }
+  const onError = (err: Error) => settle(err);
+  const onClose = () => settle(new Error("SMTP connection closed"));
+  const onTimeout = () => socket.destroy(new Error("SMTP server timed out"));
+
+  function attach(s: net.Socket) {
+    s.setTimeout(timeoutMs);
+    s.on("data", onData);
+    s.on("error", onError);
+    s.on("close", onClose);
+    s.on("timeout", onTimeout);
+  }
+
+  function detach(s: net.Socket) {
+    s.off("data", onData);
+    s.off("error", onError);
+    s.off("close", onClose);
+    s.off("timeout", onTimeout);
+  }
+
+  const connection: SmtpConnection = {
+    read() {
+      const next = replies.shift();
+      if (next) return Promise.resolve(next);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => {
+        waiter = { resolve, reject };
+      });
+    },
+    write(data) {
+      socket.write(data);
+    },
+    startTls() {
+      detach(socket);
+      const plain = socket;
+      return new Promise((resolve, reject) => {
+        const secured = tls.connect({ socket: plain, servername: config.host }, () => {
+          secured.off("error", reject);
+          socket = secured;
+          attach(secured);
+          resolve();
+        });
+        secured.once("error", reject);
+      });
+    },
+    encrypted() {
+      return socket instanceof tls.TLSSocket;
+    },
+    close() {
+      socket.end();
+    },
+  };
+
+  return new Promise((resolve, reject) => {
+    const ready = config.secure ? "secureConnect" : "connect";
+    const fail = (err: Error) => reject(err);
+    const timedOut = () => socket.destroy(new Error(`SMTP connect to ${config.host}:${config.port} timed out`));
+    socket.setTimeout(timeoutMs);
+    socket.once("timeout", timedOut);
+    socket.once("error", fail);
+    socket.once(ready, () => {
+      socket.off("error", fail);
+      socket.off("timeout", timedOut);
+      attach(socket);
+      resolve(connection);
+    });
+  });
+}
+
+async function command(conn: SmtpConnection, line: string, expect: number[]): Promise<SmtpReply> {
+  if (line) conn.write(`${line}\r\n`);
+  const reply = await conn.read();
+  if (!expect.includes(reply.code)) {
+    // Only the verb: AUTH lines carry credentials.
+    const verb = line.split(" ")[0] || "greeting";
+    throw new Error(`SMTP ${verb} failed (${reply.code}): ${reply.lines.join(" ")}`);
+  }
+  return reply;
+}
+
+function addressOf(mailbox: string): string {
+  const m = mailbox.match(/<([^>]+)>/);
+  return (m ? m[1] : mailbox).trim();
+}
+
+function headerValue(v: string): string {
+  const clean = v.replace(/[\r\n]+/g, " ");
+  // RFC 2047 for anything outside printable ASCII.
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean, "utf8").toString("base64")}?=`;
+}
+
+function base64Lines(text: string): string {
+  return (Buffer.from(text, "utf8").toString("base64").match(/.{1,76}/g) ?? []).join("\r\n");
+}
+
+/**
+ * A multipart/alternative message with base64 bodies, so long lines and
+ * leading dots never need special handling.
+ */
+function buildMessage(from: string, message: EmailMessage): string {
+  const boundary = `joblio-${randomUUID()}`;
+  const domain = addressOf(from).split("@")[1] || os.hostname();
+
+  const headers: Record<string, string> = {
+    From: from,
+    To: message.to,
+    Subject: message.subject,
+    Date: new Date().toUTCString(),
+    "Message-ID": `<${randomUUID()}@${domain}>`,
+    "MIME-Version": "1.0",
+    ...message.headers,
+    "Content-Type": `multipart/alternative; boundary="${boundary}"`,
+  };
+
+  return [
+    ...Object.entries(headers).map(([k, v]) => `${k}: ${headerValue(v)}`),
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+async function authenticate(conn: SmtpConnection, extensions: string[], user: string, pass: string) {
+  const auth = extensions.find((e) => e.startsWith("AUTH")) ?? "";
+  if (auth.includes("PLAIN")) {
+    await command(conn, `AUTH PLAIN ${Buffer.from(`\0${user}\0${pass}`).toString("base64")}`, [235]);
+    return;
+  }
+  if (auth.includes("LOGIN")) {
+    await command(conn, "AUTH LOGIN", [334]);
+    await command(conn, Buffer.from(user).toString("base64"), [334]);
+    await command(conn, Buffer.from(pass).toString("base64"), [235]);
+    return;
+  }
+  throw new Error("SMTP server offers no supported AUTH mechanism (PLAIN, LOGIN)");
+}
+
+/**
+ * Sends each message over its own SMTP connection: EHLO, STARTTLS when
+ * offered, AUTH when credentials are set, then one recipient. Works with
+ * local mail catchers (Mailpit, MailHog) as well as real relays.
+ */
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  return {
+    name: "smtp",
+    async send(message) {
+      const conn = await connect(config);
+      try {
+        await command(conn, "", [220]);
+        let ehlo = await command(conn, `EHLO ${os.hostname()}`, [250]);
+
+        if (!conn.encrypted() && ehlo.lines.some((l) => l.toUpperCase() === "STARTTLS")) {
+          await command(conn, "STARTTLS", [220]);
+          await conn.startTls();
+          ehlo = await command(conn, `EHLO ${os.hostname()}`, [250]);
+        }
+
+        if (config.user) {
+          if (!conn.encrypted()) {
+            throw new Error("SMTP server does not support TLS; refusing to send credentials in clear text");
+          }
+          const extensions = ehlo.lines.slice(1).map((l) => l.toUpperCase());
+          await authenticate(conn, extensions, config.user, config.pass ?? "");
+        }
+
+        await command(conn, `MAIL FROM:<${addressOf(config.from)}>`, [250]);
+        await command(conn, `RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+        await command(conn, "DATA", [354]);
+
+        const body = buildMessage(config.from, message).replace(/^\./gm, "..");
+        await command(conn, `${body}\r\n.`, [250]);
+
+        await command(conn, "QUIT", [221]).catch(() => undefined);
+      } finally {
+        conn.close();
+      }
+    },
+  };
+}
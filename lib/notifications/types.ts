@@ -0,0 +1,19 @@
+export type MailTransportName = "smtp" | "log";
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  /** Extra headers, e.g. List-Unsubscribe. */
+  headers?: Record<string, string>;
+};
+
+/**
+ * A way to deliver email. `send` resolves once the message is accepted
+ * for delivery and throws otherwise.
+ */
+export interface MailTransport {
+  name: MailTransportName;
+  send(message: EmailMessage): Promise<void>;
+}
@@ -0,0 +1,65 @@
+import type { ResumeProfile } from "@/lib/resume/profile";
+
+export type ProfileField = keyof ResumeProfile;
+
+export type ProfileFieldDiff =
+  | { field: ProfileField; kind: "value"; from: unknown; to: unknown }
+  | { field: ProfileField; kind: "list"; added: unknown[]; removed: unknown[] };
+
+const PROFILE_FIELDS: ProfileField[] = [
+  "roles",
+  "skills",
+  "seniority",
+  "location_preference",
+  "visa_or_work_auth",
+  "remote_intent",
+  "years_experience",
+  "work_history",
+  "education",
+  "certifications",
+  "languages",
+  "links",
+];
+
+// Strings compare case-insensitively ("Python" vs "python" isn't a change);
+// objects by their JSON.
+function itemKey(item: unknown): string {
+  return typeof item === "string" ? item.trim().toLowerCase() : JSON.stringify(item);
+}
+
+function diffList(from: unknown[], to: unknown[]): { added: unknown[]; removed: unknown[] } {
+  const fromKeys = new Set(from.map(itemKey));
+  const toKeys = new Set(to.map(itemKey));
+  return {
+    added: to.filter((x) => !fromKeys.has(itemKey(x))),
+    removed: from.filter((x) => !toKeys.has(itemKey(x))),
+  };
+}
+
+/**
+ * Field-by-field changes going from one profile version to another.
+ * List fields report added/removed items; others report old and new values.
+ * Unchanged fields are omitted.
+ */
+export function diffProfiles(
+  from: Partial<ResumeProfile>,
+  to: Partial<ResumeProfile>
+): ProfileFieldDiff[] {
+  const out: ProfileFieldDiff[] = [];
+
+  for (const field of PROFILE_FIELDS) {
+    // A blank string and a missing value both mean "not stated".
+    const a = from[field] === "" ? null : (from[field] ?? null);
+    const b = to[field] === "" ? null : (to[field] ?? null);
+
+    if (Array.isArray(a) || Array.isArray(b)) {
+      const { added, removed } = diffList(Array.isArray(a) ? a : [], Array.isArray(b) ? b : []);
+      if (added.length || removed.length) out.push({ field, kind: "list", added, removed });
+      continue;
+    }
+
+    if (a !== b) out.push({ field, kind: "value", from: a, to: b });
+  }
+
+  return out;
+}
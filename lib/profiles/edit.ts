@@ -0,0 +1,56 @@
+import { z } from "zod";
+
+import { toFieldErrors, type ProfileFieldError, type ResumeProfile } from "@/lib/resume/profile";
+import { REMOTE_INTENT_OPTIONS, SENIORITY_OPTIONS } from "@/lib/resume/profileOptions";
+
+export const EDITABLE_PROFILE_FIELDS = [
+  "roles",
+  "skills",
+  "seniority",
+  "location_preference",
+  "remote_intent",
+] as const;
+
+export type EditableProfileField = (typeof EDITABLE_PROFILE_FIELDS)[number];
+
+const ListItems = z.array(z.string().trim().min(1).max(80)).max(50);
+
+/**
+ * A PATCH body: any subset of the editable fields, plus `reset` to stop
+ * treating fields as user overrides (the next re-parse replaces them).
+ */
+export const ProfileEditSchema = z
+  .object({
+    roles: ListItems,
+    skills: ListItems,
+    seniority: z.union([z.enum(SENIORITY_OPTIONS), z.literal("")]),
+    location_preference: z.string().trim().max(120),
+    remote_intent: z.union([z.enum(REMOTE_INTENT_OPTIONS), z.literal("")]),
+    reset: z.array(z.enum(EDITABLE_PROFILE_FIELDS)),
+  })
+  .partial()
+  .strict();
+
+export type ProfileEdit = z.infer<typeof ProfileEditSchema>;
+
+export function validateProfileEdit(
+  value: unknown
+): { ok: true; edit: ProfileEdit } | { ok: false; errors: ProfileFieldError[] } {
+  const result = ProfileEditSchema.safeParse(value);
+  return result.success ? { ok: true, edit: result.data } : { ok: false, errors: toFieldErrors(result.error) };
+}
+
+/**
+ * Carry user overrides from an earlier version of a resume onto a fresh
+ * parse, so re-parsing doesn't undo the user's corrections.
+ */
+export function carryOverrides(
+  parsed: ResumeProfile,
+  previous: (Partial<ResumeProfile> & { overridden_fields: string[] | null }) | null
+): ResumeProfile & { overridden_fields: EditableProfileField[] } {
+  const fields = EDITABLE_PROFILE_FIELDS.filter((f) => previous?.overridden_fields?.includes(f));
+  const kept: Partial<ResumeProfile> = {};
+  for (const f of fields) Object.assign(kept, { [f]: previous?.[f] });
+
+  return { ...parsed, ...kept, overridden_fields: fields };
+}
@@ -0,0 +1,242 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  EDITABLE_PROFILE_FIELDS,
+  carryOverrides,
+  type EditableProfileField,
+  type ProfileEdit,
+} from "@/lib/profiles/edit";
+import type { ResumeProfile } from "@/lib/resume/profile";
+
+/**
+ * A public.resume_profiles row: one parsed version of one resume.
+ */
+export type ProfileVersion = ResumeProfile & {
+  id: string;
+  resume_id: string;
+  version: number;
+  is_active: boolean;
+  created_at: string;
+  /** Fields the user edited; kept across re-parses of the same resume. */
+  overridden_fields: EditableProfileField[];
+};
+
+export type ProfileVersionSummary = Pick<
+  ProfileVersion,
+  "id" | "resume_id" | "version" | "is_active" | "created_at" | "roles" | "seniority" | "years_experience"
+> & {
+  file_name: string | null;
+};
+
+export const PROFILE_COLUMNS =
+  "id, resume_id, version, is_active, created_at, overridden_fields, roles, skills, seniority, location_preference, visa_or_work_auth, remote_intent, work_history, years_experience, education, certifications, languages, links";
+
+const SUMMARY_COLUMNS = "id, resume_id, version, is_active, created_at, roles, seniority, years_experience";
+
+// Concurrent parses of the same resume can race for a version number.
+const MAX_INSERT_ATTEMPTS = 3;
+
+/**
+ * The user's active profile, or null if they haven't parsed a resume yet.
+ * `columns` defaults to the full profile.
+ */
+export async function loadActiveProfile<T = ProfileVersion>(
+  admin: SupabaseClient,
+  userId: string,
+  columns: string = PROFILE_COLUMNS
+): Promise<T | null> {
+  const { data, error } = await admin
+    .from("resume_profiles")
+    .select(columns)
+    .eq("user_id", userId)
+    .eq("is_active", true)
+    .maybeSingle<T>();
+
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+export async function loadProfileVersion(
+  admin: SupabaseClient,
+  userId: string,
+  profileId: string
+): Promise<ProfileVersion | null> {
+  const { data, error } = await admin
+    .from("resume_profiles")
+    .select(PROFILE_COLUMNS)
+    .eq("user_id", userId)
+    .eq("id", profileId)
+    .maybeSingle<ProfileVersion>();
+
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+/**
+ * All of the user's profile versions, newest first, with the file name of
+ * the resume each was parsed from.
+ */
+export async function listProfileVersions(admin: SupabaseClient, userId: string): Promise<ProfileVersionSummary[]> {
+  const { data, error } = await admin
+    .from("resume_profiles")
+    .select(SUMMARY_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .returns<Omit<ProfileVersionSummary, "file_name">[]>();
+
+  if (error) throw new Error(error.message);
+
+  const rows = data ?? [];
+  const resumeIds = Array.from(new Set(rows.map((r) => r.resume_id)));
+  if (resumeIds.length === 0) return [];
+
+  const { data: resumes, error: resumesErr } = await admin
+    .from("resumes")
+    .select("id, file_name")
+    .in("id", resumeIds)
+    .returns<Array<{ id: string; file_name: string | null }>>();
+
+  if (resumesErr) throw new Error(resumesErr.message);
+
+  const names = new Map((resumes ?? []).map((r) => [r.id, r.file_name]));
+  return rows.map((r) => ({ ...r, file_name: names.get(r.resume_id) ?? null }));
+}
+
+/**
+ * Make `profileId` the user's active profile. Returns false when the
+ * profile doesn't exist or belongs to someone else.
+ */
+export async function activateProfileVersion(
+  admin: SupabaseClient,
+  userId: string,
+  profileId: string
+): Promise<boolean> {
+  const { data, error } = await admin.rpc("activate_resume_profile", {
+    p_user_id: userId,
+    p_profile_id: profileId,
+  });
+
+  if (error) throw new Error(error.message);
+  return data === true;
+}
+
+/**
+ * Store a newly parsed profile as the next version of its resume. It
+ * becomes the active profile when the resume is the user's default;
+ * re-parsing another variant leaves the active profile alone. Fields the
+ * user overrode keep the user's values, taken from the resume's active
+ * version (the one the user has been editing) or else its latest. Callers
+ * check that `resumeId` is the user's.
+ */
+export async function createProfileVersion(
+  admin: SupabaseClient,
+  userId: string,
+  resumeId: string,
+  profile: ResumeProfile
+): Promise<ProfileVersion> {
+  const { data: base, error: baseErr } = await admin
+    .from("resume_profiles")
+    .select(`overridden_fields, ${EDITABLE_PROFILE_FIELDS.join(", ")}`)
+    .eq("user_id", userId)
+    .eq("resume_id", resumeId)
+    .order("is_active", { ascending: false })
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle<Partial<ResumeProfile> & { overridden_fields: string[] | null }>();
+
+  if (baseErr) throw new Error(baseErr.message);
+
+  for (let attempt = 1; ; attempt += 1) {
+    const { data: latest, error: latestErr } = await admin
+      .from("resume_profiles")
+      .select("version")
+      .eq("user_id", userId)
+      .eq("resume_id", resumeId)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle<{ version: number }>();
+
+    if (latestErr) throw new Error(latestErr.message);
+
+    const { data: row, error: insertErr } = await admin
+      .from("resume_profiles")
+      .insert({
+        user_id: userId,
+        resume_id: resumeId,
+        version: (latest?.version ?? 0) + 1,
+        is_active: false,
+        ...carryOverrides(profile, base),
+      })
+      .select(PROFILE_COLUMNS)
+      .single<ProfileVersion>();
+
+    if (insertErr?.code === "23505" && attempt < MAX_INSERT_ATTEMPTS) continue;
+    if (insertErr || !row) throw new Error(insertErr?.message ?? "Failed to save profile");
+
+    const { data: resume, error: resumeErr } = await admin
+      .from("resumes")
+      .select("is_default")
+      .eq("user_id", userId)
+      .eq("id", resumeId)
+      .maybeSingle<{ is_default: boolean }>();
+
+    if (resumeErr) throw new Error(resumeErr.message);
+    if (!resume?.is_default) return row;
+
+    await activateProfileVersion(admin, userId, row.id);
+    return { ...row, is_active: true };
+  }
+}
+
+function dedupeCaseless(items: string[]): string[] {
+  const seen = new Set<string>();
+  return items.filter((s) => {
+    const k = s.toLowerCase();
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * Apply user edits to one profile version. Edited fields are recorded in
+ * `overridden_fields`; returns null when the profile isn't the user's.
+ */
+export async function updateProfileVersion(
+  admin: SupabaseClient,
+  userId: string,
+  profileId: string,
+  edit: ProfileEdit
+): Promise<ProfileVersion | null> {
+  const { data: current, error: loadErr } = await admin
+    .from("resume_profiles")
+    .select("overridden_fields")
+    .eq("user_id", userId)
+    .eq("id", profileId)
+    .maybeSingle<{ overridden_fields: string[] | null }>();
+
+  if (loadErr) throw new Error(loadErr.message);
+  if (!current) return null;
+
+  const patch: Partial<ResumeProfile> = {};
+  for (const field of EDITABLE_PROFILE_FIELDS) {
+    const value = edit[field];
+    if (value === undefined) continue;
+    Object.assign(patch, { [field]: Array.isArray(value) ? dedupeCaseless(value) : value });
+  }
+
+  const overridden = new Set(current.overridden_fields ?? []);
+  for (const field of edit.reset ?? []) overridden.delete(field);
+  for (const field of Object.keys(patch)) overridden.add(field);
+
+  const { data, error } = await admin
+    .from("resume_profiles")
+    .update({ ...patch, overridden_fields: EDITABLE_PROFILE_FIELDS.filter((f) => overridden.has(f)) })
+    .eq("user_id", userId)
+    .eq("id", profileId)
+    .select(PROFILE_COLUMNS)
+    .single<ProfileVersion>();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
@@ -0,0 +1,5 @@
+/**
+ * Upload types the dashboard offers. The server detects the format from the
+ * file signature (lib/resume/extractResumeText.ts); this only drives the picker.
+ */
+export const RESUME_ACCEPT = ".pdf,.docx,.rtf,.txt,.md,.markdown";
@@ -0,0 +1,118 @@
+import { inflateRawSync } from "node:zlib";
+
+import type { ExtractResult } from "@/lib/resume/extractPdfText";
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+// A resume's XML parts inflate to well under this; anything larger is a zip bomb.
+const MAX_ENTRY_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Read one entry out of a ZIP archive (DOCX is a ZIP of XML parts).
+ * Only stored (0) and deflated (8) entries are supported, which is all Word writes.
+ * Returns null when the entry is missing, the archive is malformed or the
+ * entry would inflate past MAX_ENTRY_BYTES.
+ */
+export function readZipEntry(buffer: Buffer, name: string): Buffer | null {
+  // End-of-central-directory record sits in the last 22 + up to 64K comment bytes.
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i -= 1) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+
+  const entries = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  for (let n = 0; n < entries; n += 1) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE) return null;
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLen = buffer.readUInt16LE(offset + 28);
+    const extraLen = buffer.readUInt16LE(offset + 30);
+    const commentLen = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const nameEnd = offset + 46 + nameLen;
+    if (nameEnd > buffer.length) return null;
+    const entryName = buffer.toString("utf8", offset + 46, nameEnd);
+
+    offset = nameEnd + extraLen + commentLen;
+    if (entryName !== name) continue;
+
+    if (uncompressedSize > MAX_ENTRY_BYTES || localOffset + 30 > buffer.length) return null;
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) return null;
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    if (dataStart + compressedSize > buffer.length) return null;
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) return data;
+    if (method !== 8) return null;
+
+    // The declared size can lie; the cap is what stops a bomb.
+    try {
+      return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_BYTES });
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+function decodeXmlEntities(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, h: string) => String.fromCodePoint(parseInt(h, 16)))
+    .replace(/&#(\d+);/g, (_, d: string) => String.fromCodePoint(parseInt(d, 10)))
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Flatten word/document.xml to text: one line per paragraph, tabs and
+ * breaks kept, list items prefixed with "- ".
+ */
+function documentXmlToText(xml: string): string {
+  const body = xml.replace(/<w:(?:del|instrText)\b[\s\S]*?<\/w:(?:del|instrText)>/g, "");
+  const paragraphs = body.match(/<w:p[\s>][\s\S]*?<\/w:p>/g) ?? [];
+
+  const lines = paragraphs.map((p) => {
+    const isListItem = /<w:numPr\b/.test(p);
+    const text = p
+      .replace(/<w:tab\/>/g, "\t")
+      .replace(/<w:(?:br|cr)\b[^>]*\/>/g, "\n")
+      .replace(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>/g, (_, t: string) => `\u0000${t}\u0000`)
+      .replace(/<[^>]+>/g, "")
+      .split("\u0000")
+      .join("");
+
+    const line = decodeXmlEntities(text).trim();
+    return line && isListItem ? `- ${line}` : line;
+  });
+
+  return lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+export async function extractDocxTextFromBuffer(buffer: Buffer): Promise<ExtractResult> {
+  const doc = readZipEntry(buffer, "word/document.xml");
+  if (!doc) throw new Error("DOCX is corrupt or missing word/document.xml");
+
+  const text = documentXmlToText(doc.toString("utf8"));
+
+  // Word records the page count it last rendered in docProps/app.xml.
+  const app = readZipEntry(buffer, "docProps/app.xml")?.toString("utf8") ?? "";
+  const pages = Number(app.match(/<Pages>(\d+)<\/Pages>/)?.[1]);
+  const pageCount = Number.isFinite(pages) && pages > 0 ? pages : 1;
+
+  return { text, pageCount };
+}
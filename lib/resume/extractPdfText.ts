@@ -1,22 +1,32 @@
 import { PdfReader } from "pdfreader";
 
-type ExtractResult = {
+import { pageToLines, removeRunningHeaders, type PdfPage } from "@/lib/resume/pdfLayout";
+
+export type ExtractResult = {
   text: string;
   pageCount: number;
 };
 
 type PdfItem =
-  | { page?: number }
+  | { page?: number; width?: number }
   | { text?: string }
-  | { x?: number; y?: number; text?: string };
+  | { x?: number; y?: number; w?: number; text?: string };
 
 export async function extractPdfTextFromBuffer(buffer: Buffer): Promise<ExtractResult> {
-  const pages = new Map<number, Array<{ y: number; x: number; text: string }>>();
+  const pages = new Map<number, PdfPage>();
+  let currentPage = 1;
 
   const reader = new PdfReader();
 
+  // pdfreader parses the Buffer's whole ArrayBuffer from byte 0, so a slice
+  // of Node's shared pool (small files from readFile) is copied out first.
+  const data =
+    buffer.byteOffset === 0 && buffer.byteLength === buffer.buffer.byteLength
+      ? buffer
+      : Buffer.from(new Uint8Array(buffer).buffer);
+
   await new Promise<void>((resolve, reject) => {
-    reader.parseBuffer(buffer, (err: unknown, item: PdfItem | null) => {
+    reader.parseBuffer(data, (err: unknown, item: PdfItem | null) => {
       if (err) {
         reject(err);
         return;
@@ -27,46 +37,37 @@ export async function extractPdfTextFromBuffer(buffer: Buffer): Promise<ExtractR
         return;
       }
 
-      const page = (item as { page?: number }).page;
-      if (typeof page === "number") {
-        if (!pages.has(page)) pages.set(page, []);
+      const pageItem = item as { page?: number; width?: number };
+      if (typeof pageItem.page === "number") {
+        currentPage = pageItem.page;
+        if (!pages.has(currentPage)) {
+          pages.set(currentPage, {
+            width: typeof pageItem.width === "number" ? pageItem.width : null,
+            items: [],
+          });
+        }
         return;
       }
 
-      const it = item as { x?: number; y?: number; text?: string };
+      const it = item as { x?: number; y?: number; w?: number; text?: string };
       if (typeof it.text === "string" && typeof it.x === "number" && typeof it.y === "number") {
-        const currentPage = Math.max(1, pages.size); // pdfreader sets page markers in order
-        const arr = pages.get(currentPage) ?? [];
-        arr.push({ x: it.x, y: it.y, text: it.text });
-        pages.set(currentPage, arr);
+        const page = pages.get(currentPage) ?? { width: null, items: [] };
+        page.items.push({ x: it.x, y: it.y, w: typeof it.w === "number" ? it.w : 0, text: it.text });
+        pages.set(currentPage, page);
       }
     });
   });
 
   const pageNums = Array.from(pages.keys()).sort((a, b) => a - b);
-  const parts: string[] = [];
-
-  for (const p of pageNums) {
-    const items = pages.get(p) ?? [];
-    items.sort((a, b) => (a.y === b.y ? a.x - b.x : a.y - b.y));
-
-    let lastY: number | null = null;
-    let line: string[] = [];
-
-    for (const it of items) {
-      if (lastY !== null && Math.abs(it.y - lastY) > 0.25) {
-        parts.push(line.join(" ").trim());
-        line = [];
-      }
-      line.push(it.text);
-      lastY = it.y;
-    }
 
-    if (line.length) parts.push(line.join(" ").trim());
-    parts.push(""); // page break
-  }
+  // Per page: reading order across columns, then strip running headers/footers.
+  const pageLines = removeRunningHeaders(pageNums.map((p) => pageToLines(pages.get(p) ?? { width: null, items: [] })));
 
-  const text = parts.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+  const text = pageLines
+    .map((lines) => lines.join("\n"))
+    .join("\n\n") // page break
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
   const pageCount = pageNums.length;
 
   return { text, pageCount };
@@ -0,0 +1,30 @@
+import type { ExtractResult } from "@/lib/resume/extractPdfText";
+
+/**
+ * Strip Markdown syntax down to readable text, keeping headings and list
+ * items on their own lines so section detection still works.
+ */
+export function markdownToText(md: string): string {
+  return md
+    .replace(/```[\s\S]*?```/g, (block) => block.replace(/```\w*/g, ""))
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, "$1 ($2)")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^\s*[*+]\s+/gm, "- ")
+    .replace(/^\s*>\s?/gm, "")
+    .replace(/^(?:-{3,}|\*{3,}|_{3,})\s*$/gm, "")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, "$1$2")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export async function extractPlainTextFromBuffer(
+  buffer: Buffer,
+  opts: { markdown?: boolean } = {}
+): Promise<ExtractResult> {
+  let text = buffer.toString("utf8").replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  if (opts.markdown) text = markdownToText(text);
+  return { text: text.replace(/\n{3,}/g, "\n\n").trim(), pageCount: 1 };
+}
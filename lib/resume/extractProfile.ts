@@ -0,0 +1,47 @@
+import type { ExtractionTask, LlmProvider } from "@/lib/llm";
+import { heuristicProfile } from "@/lib/resume/heuristicProfile";
+import {
+  ParsedProfileSchema,
+  computeYearsOfExperience,
+  validateParsedProfile,
+  type ParsedProfile,
+  type ProfileFieldError,
+  type ResumeProfile,
+} from "@/lib/resume/profile";
+
+const PROFILE_INSTRUCTIONS =
+  "You extract structured job candidate data from the resume text you are given. " +
+  "Use YYYY-MM (or YYYY when only the year is given) for dates and null for anything the resume doesn't state.";
+
+export function profileExtractionTask(text: string): ExtractionTask<ParsedProfile> {
+  return {
+    name: "resume_profile",
+    schema: ParsedProfileSchema,
+    instructions: PROFILE_INSTRUCTIONS,
+    input: text,
+    heuristic: heuristicProfile,
+  };
+}
+
+/**
+ * Extract a profile with the given provider and validate it. Provider
+ * failures throw; output that doesn't match the schema comes back as
+ * field errors.
+ */
+export async function extractProfile(
+  provider: LlmProvider,
+  text: string
+): Promise<{ ok: true; profile: ResumeProfile } | { ok: false; errors: ProfileFieldError[] }> {
+  const raw = await provider.extract(profileExtractionTask(text));
+
+  const validated = validateParsedProfile(raw);
+  if (!validated.ok) return validated;
+
+  return {
+    ok: true,
+    profile: {
+      ...validated.profile,
+      years_experience: computeYearsOfExperience(validated.profile.work_history),
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { extractDocxTextFromBuffer, readZipEntry } from "@/lib/resume/extractDocxText";
+import { extractPdfTextFromBuffer, type ExtractResult } from "@/lib/resume/extractPdfText";
+import { extractPlainTextFromBuffer } from "@/lib/resume/extractPlainText";
+import { extractRtfTextFromBuffer } from "@/lib/resume/extractRtfText";
+
+export type ResumeFormat = "pdf" | "docx" | "rtf" | "markdown" | "text";
+
+export type ResumeExtractResult = ExtractResult & {
+  format: ResumeFormat;
+};
+
+function startsWith(buffer: Buffer, sig: string): boolean {
+  return buffer.subarray(0, sig.length).toString("latin1") === sig;
+}
+
+function looksLikeText(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, 8192);
+  if (sample.includes(0)) return false;
+  // Invalid UTF-8 decodes to U+FFFD; a few are fine, lots means binary.
+  const decoded = sample.toString("utf8");
+  const bad = decoded.split("\uFFFD").length - 1;
+  return bad <= Math.max(2, decoded.length / 100);
+}
+
+function looksLikeMarkdown(text: string): boolean {
+  return /^#{1,6}\s+\S/m.test(text) || /\*\*[^*\n]+\*\*/.test(text) || /\[[^\]]+\]\([^)]+\)/.test(text);
+}
+
+/**
+ * Identify a resume by its leading bytes rather than the client-supplied
+ * MIME type or extension. `fileName` only separates Markdown from text.
+ * Returns null for anything we can't read (e.g. legacy .doc).
+ */
+export function detectResumeFormat(buffer: Buffer, fileName?: string | null): ResumeFormat | null {
+  if (startsWith(buffer, "%PDF-")) return "pdf";
+  if (startsWith(buffer, "{\\rtf")) return "rtf";
+
+  if (startsWith(buffer, "PK\u0003\u0004")) {
+    return readZipEntry(buffer, "word/document.xml") ? "docx" : null;
+  }
+
+  if (!looksLikeText(buffer)) return null;
+
+  const name = (fileName ?? "").toLowerCase();
+  if (name.endsWith(".md") || name.endsWith(".markdown")) return "markdown";
+  return looksLikeMarkdown(buffer.subarray(0, 8192).toString("utf8")) ? "markdown" : "text";
+}
+
+export const UNSUPPORTED_RESUME_MESSAGE = "Unsupported resume format. Upload a PDF, DOCX, RTF, TXT or Markdown file.";
+
+/**
+ * Extract text in whatever format `detectResumeFormat` finds. Throws for
+ * unsupported files; routes that take uploads check the format first.
+ */
+export async function extractResumeTextFromBuffer(
+  buffer: Buffer,
+  fileName?: string | null
+): Promise<ResumeExtractResult> {
+  const format = detectResumeFormat(buffer, fileName);
+
+  let result: ExtractResult;
+  switch (format) {
+    case "pdf":
+      result = await extractPdfTextFromBuffer(buffer);
+      break;
+    case "docx":
+      result = await extractDocxTextFromBuffer(buffer);
+      break;
+    case "rtf":
+      result = await extractRtfTextFromBuffer(buffer);
+      break;
+    case "markdown":
+      result = await extractPlainTextFromBuffer(buffer, { markdown: true });
+      break;
+    case "text":
+      result = await extractPlainTextFromBuffer(buffer);
+      break;
+    default:
+      throw new Error(UNSUPPORTED_RESUME_MESSAGE);
+  }
+
+  return { ...result, format };
+}
@@ -0,0 +1,139 @@
+import type { ExtractResult } from "@/lib/resume/extractPdfText";
+
+// Destination groups that hold metadata, not document text.
+const SKIP_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "info",
+  "pict",
+  "header",
+  "footer",
+  "headerl",
+  "headerr",
+  "footerl",
+  "footerr",
+  "listtable",
+  "listoverridetable",
+  "rsidtbl",
+  "generator",
+  "themedata",
+  "colorschememapping",
+  "latentstyles",
+  "datastore",
+  "xmlnstbl",
+]);
+
+/**
+ * Minimal RTF-to-text: walks groups and control words, keeping paragraph
+ * and line breaks, tabs, \'hh and \uN escapes. Formatting is dropped.
+ */
+export function rtfToText(rtf: string): string {
+  const out: string[] = [];
+  // Per-group state: whether text is skipped, and how many chars follow \uN.
+  const stack: Array<{ skip: boolean; uc: number }> = [];
+  let skip = false;
+  let uc = 1;
+  let pendingSkipChars = 0;
+
+  let i = 0;
+  while (i < rtf.length) {
+    const ch = rtf[i];
+
+    if (ch === "{") {
+      stack.push({ skip, uc });
+      i += 1;
+      // {\*\destination ...} is an ignorable destination.
+      if (rtf.startsWith("\\*", i)) skip = true;
+      continue;
+    }
+
+    if (ch === "}") {
+      const prev = stack.pop();
+      if (prev) {
+        skip = prev.skip;
+        uc = prev.uc;
+      }
+      i += 1;
+      continue;
+    }
+
+    if (ch === "\\") {
+      const next = rtf[i + 1];
+
+      if (next === "'") {
+        const code = parseInt(rtf.slice(i + 2, i + 4), 16);
+        i += 4;
+        if (pendingSkipChars > 0) {
+          pendingSkipChars -= 1;
+          continue;
+        }
+        if (!skip && Number.isFinite(code)) out.push(String.fromCharCode(code));
+        continue;
+      }
+
+      if (next === "\\" || next === "{" || next === "}") {
+        if (!skip) out.push(next);
+        i += 2;
+        continue;
+      }
+
+      if (next === "~") {
+        if (!skip) out.push(" ");
+        i += 2;
+        continue;
+      }
+
+      const m = /^([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(i + 1, i + 40));
+      if (!m) {
+        i += 2;
+        continue;
+      }
+
+      const word = m[1];
+      const param = m[2] !== undefined ? Number(m[2]) : null;
+      i += 1 + m[0].length;
+
+      if (SKIP_DESTINATIONS.has(word)) {
+        skip = true;
+        continue;
+      }
+      if (skip) continue;
+
+      if (word === "par" || word === "line" || word === "sect" || word === "row") out.push("\n");
+      else if (word === "tab" || word === "cell") out.push("\t");
+      else if (word === "uc" && param !== null) uc = param;
+      else if (word === "u" && param !== null) {
+        out.push(String.fromCharCode(param < 0 ? param + 65536 : param));
+        pendingSkipChars = uc;
+      }
+      continue;
+    }
+
+    if (ch === "\r" || ch === "\n") {
+      i += 1;
+      continue;
+    }
+
+    if (pendingSkipChars > 0) {
+      pendingSkipChars -= 1;
+      i += 1;
+      continue;
+    }
+
+    if (!skip) out.push(ch);
+    i += 1;
+  }
+
+  return out
+    .join("")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export async function extractRtfTextFromBuffer(buffer: Buffer): Promise<ExtractResult> {
+  // RTF is 7-bit ASCII; non-ASCII text comes through the escapes above.
+  const text = rtfToText(buffer.toString("latin1"));
+  return { text, pageCount: 1 };
+}
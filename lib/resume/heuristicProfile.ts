@@ -0,0 +1,152 @@
+import { seniorityLevel } from "@/lib/jobs/match";
+import type { ParsedProfile } from "@/lib/resume/profile";
+import { KNOWN_SKILLS } from "@/lib/resume/knownSkills";
+import { SENIORITY_OPTIONS } from "@/lib/resume/profileOptions";
+import { segmentResume, type ResumeSection } from "@/lib/resume/sections";
+
+const DEGREE_RE = /\b(ph\.?d|doctorate|master'?s?|m\.?s\.?c?|m\.?a|mba|bachelor'?s?|b\.?s\.?c?|b\.?a|b\.?eng|associate'?s?)\b\.?/i;
+const INSTITUTION_RE = /\b(university|college|institute|school|academy|polytechnic)\b/i;
+const YEAR_RE = /\b(19|20)\d{2}\b/g;
+const URL_RE = /\b(?:https?:\/\/|www\.)?(?:[a-z0-9-]+\.)+[a-z]{2,}(?:\/[^\s,;|)]*)?/gi;
+const EMAIL_RE = /\S+@\S+\.\S+/g;
+const CITY_RE = /\b([A-Z][a-zA-Z.'-]+(?: [A-Z][a-zA-Z.'-]+)*,\s*(?:[A-Z]{2}|[A-Z][a-z]+))\b/;
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function hasTerm(text: string, term: string): boolean {
+  return new RegExp(`(^|[^a-z0-9+#.])${escapeRegExp(term)}(?=$|[^a-z0-9+#]|\\.(?![a-z0-9]))`, "i").test(text);
+}
+
+function uniqueCaseless(items: string[]): string[] {
+  const seen = new Set<string>();
+  return items.filter((s) => {
+    const k = s.toLowerCase();
+    if (!s || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+function sectionText(sections: ResumeSection[], kind: ResumeSection["kind"]): string {
+  return sections
+    .filter((s) => s.kind === kind)
+    .map((s) => s.text)
+    .join("\n");
+}
+
+function listItems(text: string, maxLength = 40): string[] {
+  return text
+    .split(/[\n,;|•·]+/)
+    .map((s) => s.replace(/^[-*–\s]+/, "").replace(/^[A-Za-z ]{2,30}:\s*/, "").trim())
+    .filter((s) => s.length > 0 && s.length <= maxLength);
+}
+
+function parseEducation(text: string): ParsedProfile["education"] {
+  return text
+    .split("\n")
+    .map((l) => l.trim())
+    .filter((l) => INSTITUTION_RE.test(l) || DEGREE_RE.test(l))
+    .map((line) => {
+      const parts = line.split(/\s*[,|–—]\s*|\s+-\s+/);
+      const institution = parts.find((p) => INSTITUTION_RE.test(p)) ?? parts[0];
+      const degreePart = parts.find((p) => p !== institution && DEGREE_RE.test(p)) ?? null;
+      const years = line.match(YEAR_RE);
+      const degree = degreePart?.match(DEGREE_RE)?.[0] ?? null;
+      const field = degreePart
+        ?.replace(DEGREE_RE, "")
+        .replace(/^\s*(in|of)\s+/i, "")
+        .replace(YEAR_RE, "")
+        .trim();
+
+      return {
+        institution: institution.replace(YEAR_RE, "").trim(),
+        degree,
+        field_of_study: field || null,
+        graduation_year: years ? Number(years[years.length - 1]) : null,
+      };
+    });
+}
+
+function parseLanguages(sections: ResumeSection[]): ParsedProfile["languages"] {
+  const text = sections
+    .filter((s) => /^languages?$/i.test(s.heading ?? ""))
+    .map((s) => s.text)
+    .join("\n");
+
+  return listItems(text).map((item) => {
+    const m = item.match(/^([^(\-–:]+?)\s*(?:[(\-–:]\s*([^)]+)\)?)?$/);
+    return { language: (m?.[1] ?? item).trim(), proficiency: m?.[2]?.trim() || null };
+  });
+}
+
+function parseLinks(text: string): ParsedProfile["links"] {
+  // Require a scheme, "www." or a path so "Node.js" isn't read as a domain.
+  const urls = (text.replace(EMAIL_RE, " ").match(URL_RE) ?? []).filter((u) => /^(https?:\/\/|www\.)|\//i.test(u));
+
+  return uniqueCaseless(urls).map((url) => {
+    const label = /linkedin\./i.test(url)
+      ? "LinkedIn"
+      : /github\./i.test(url)
+        ? "GitHub"
+        : /gitlab\./i.test(url)
+          ? "GitLab"
+          : "Website";
+    return { label, url: /^https?:\/\//i.test(url) ? url : `https://${url}` };
+  });
+}
+
+/**
+ * Build a profile from the resume text alone: sections and experience
+ * entries from the segmenter, skills from the skills section plus a list
+ * of common technologies, seniority from the most recent title. Much
+ * rougher than a model, but deterministic and offline.
+ */
+export function heuristicProfile(text: string): ParsedProfile {
+  const { sections, experience } = segmentResume(text);
+
+  const roles = uniqueCaseless(experience.map((e) => e.title ?? "").filter(Boolean)).slice(0, 3);
+
+  const skillsText = sectionText(sections, "skills");
+  const skills = uniqueCaseless([
+    ...listItems(skillsText),
+    ...KNOWN_SKILLS.filter((s) => hasTerm(text, s)),
+  ]).slice(0, 40);
+
+  const latestTitle = experience.find((e) => e.is_current)?.title ?? experience[0]?.title ?? null;
+  const level = seniorityLevel(latestTitle);
+  const seniority = level === null ? "" : SENIORITY_OPTIONS[level];
+
+  const contact = sectionText(sections, "contact");
+  const location = contact.match(CITY_RE)?.[1] ?? "";
+
+  const remote = /\b(open to remote|remote[- ]first|fully remote|remote only|prefer(?:s|ring)? remote)\b/i.exec(text);
+  const workAuth = /\b(us citizen|u\.s\. citizen|green card|permanent resident|authori[sz]ed to work[^.\n]*|requires? (?:visa )?sponsorship|h-?1b)\b/i.exec(text);
+
+  return {
+    roles,
+    skills,
+    seniority,
+    location_preference: location,
+    visa_or_work_auth: workAuth?.[0] ?? "",
+    remote_intent: remote ? "remote" : "",
+    work_history: experience
+      .filter((e) => e.title || e.company)
+      .map((e) => ({
+        employer: e.company ?? "",
+        title: e.title ?? "",
+        start_date: e.start_date,
+        end_date: e.end_date,
+        is_current: e.is_current,
+      })),
+    education: parseEducation(sectionText(sections, "education")),
+    certifications: listItems(sectionText(sections, "certifications"), 100).map((name) => ({
+      name,
+      issuer: null,
+      year: null,
+    })),
+    languages: parseLanguages(sections),
+    links: parseLinks(contact || text),
+  };
+}
@@ -0,0 +1,100 @@
+// Skills recognized anywhere in the text, in addition to the skills
+// section. Matched case-insensitively on word boundaries; ambiguous
+// English words ("Go", "Excel", "Spring") are left out.
+export const KNOWN_SKILLS = [
+  "JavaScript",
+  "TypeScript",
+  "Python",
+  "Java",
+  "Golang",
+  "Rust",
+  "Ruby",
+  "PHP",
+  "C#",
+  "C++",
+  "Kotlin",
+  "Swift",
+  "Scala",
+  "SQL",
+  "PostgreSQL",
+  "MySQL",
+  "MongoDB",
+  "Redis",
+  "GraphQL",
+  "React",
+  "Next.js",
+  "Vue",
+  "Angular",
+  "Node.js",
+  "Django",
+  "Flask",
+  "Ruby on Rails",
+  "Spring Boot",
+  ".NET",
+  "AWS",
+  "GCP",
+  "Azure",
+  "Docker",
+  "Kubernetes",
+  "Terraform",
+  "Kafka",
+  "Spark",
+  "Airflow",
+  "pandas",
+  "PyTorch",
+  "TensorFlow",
+  "Figma",
+  "Tableau",
+  "Git",
+  "Linux",
+];
+
+// Non-tool keywords job postings ask for.
+export const KNOWN_KEYWORDS = [
+  "REST",
+  "gRPC",
+  "microservices",
+  "distributed systems",
+  "CI/CD",
+  "unit testing",
+  "TDD",
+  "Agile",
+  "Scrum",
+  "ETL",
+  "data pipelines",
+  "data modeling",
+  "machine learning",
+  "deep learning",
+  "NLP",
+  "computer vision",
+  "A/B testing",
+  "observability",
+  "security",
+  "accessibility",
+  "system design",
+  "mentoring",
+  "stakeholder management",
+];
+
+/**
+ * Spellings that name the same thing, canonical name first. Used to count
+ * "Postgres" on a resume as partial coverage of "PostgreSQL".
+ */
+export const SKILL_ALIASES: string[][] = [
+  ["PostgreSQL", "Postgres"],
+  ["Kubernetes", "K8s"],
+  ["JavaScript", "JS", "ECMAScript"],
+  ["TypeScript", "TS"],
+  ["Node.js", "Node", "NodeJS"],
+  ["React", "React.js", "ReactJS"],
+  ["Vue", "Vue.js"],
+  ["Next.js", "NextJS"],
+  ["GCP", "Google Cloud"],
+  ["AWS", "Amazon Web Services"],
+  ["Azure", "Microsoft Azure"],
+  ["CI/CD", "continuous integration", "continuous delivery"],
+  ["machine learning", "ML"],
+  ["NLP", "natural language processing"],
+  ["Ruby on Rails", "Rails"],
+  ["MongoDB", "Mongo"],
+];
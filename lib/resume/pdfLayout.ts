@@ -0,0 +1,191 @@
+/**
+ * Positioned text item from pdfreader, in its page units (~4.5 per inch).
+ */
+export type PdfTextItem = {
+  x: number;
+  y: number;
+  w: number;
+  text: string;
+};
+
+export type PdfPage = {
+  width: number | null;
+  items: PdfTextItem[];
+};
+
+// Items whose y differs by less than this are on the same line.
+const LINE_TOLERANCE = 0.25;
+
+// Gutter search: resolution, the band of the page a gutter may sit in,
+// and the narrowest whitespace that counts as a column gap.
+const BIN_SIZE = 0.1;
+const GUTTER_MIN_X = 0.15;
+const GUTTER_MAX_X = 0.85;
+const MIN_GUTTER_WIDTH = 0.8;
+
+// Each side of a gutter must hold at least this share of the page's items.
+const MIN_COLUMN_SHARE = 0.15;
+
+// pdfreader reports x in page units of 16 pt each, but w in points.
+const POINTS_PER_UNIT = 16;
+
+// pdfreader doesn't always report widths; rough average glyph width fallback.
+const FALLBACK_CHAR_WIDTH = 0.35;
+
+type Gutter = { start: number; end: number };
+
+function itemWidth(it: PdfTextItem): number {
+  return it.w > 0 ? it.w / POINTS_PER_UNIT : it.text.length * FALLBACK_CHAR_WIDTH;
+}
+
+/**
+ * Find the widest vertical strip of whitespace in the middle of the page
+ * that splits the items into two substantial columns. A few items may cross
+ * it (full-width headings); those are emitted between column bands.
+ */
+export function findGutter(page: PdfPage): Gutter | null {
+  const items = page.items;
+  if (items.length < 6) return null;
+
+  const width = page.width ?? Math.max(...items.map((it) => it.x + itemWidth(it)));
+  if (!(width > 0)) return null;
+
+  const bins = Math.ceil(width / BIN_SIZE) + 1;
+  const coverage = new Array<number>(bins).fill(0);
+
+  for (const it of items) {
+    const from = Math.max(0, Math.floor(it.x / BIN_SIZE));
+    const to = Math.min(bins - 1, Math.ceil((it.x + itemWidth(it)) / BIN_SIZE));
+    for (let b = from; b <= to; b += 1) coverage[b] += 1;
+  }
+
+  // Tolerate a handful of spanning items (name banner, section rules).
+  const maxCrossing = Math.max(1, Math.floor(items.length * 0.03));
+  const lo = Math.floor((width * GUTTER_MIN_X) / BIN_SIZE);
+  const hi = Math.ceil((width * GUTTER_MAX_X) / BIN_SIZE);
+
+  const gutters: Gutter[] = [];
+  let runStart = -1;
+
+  for (let b = lo; b <= hi + 1; b += 1) {
+    const open = b <= hi && coverage[b] <= maxCrossing;
+    if (open && runStart < 0) runStart = b;
+    if (!open && runStart >= 0) {
+      const g = { start: runStart * BIN_SIZE, end: b * BIN_SIZE };
+      if (g.end - g.start >= MIN_GUTTER_WIDTH) gutters.push(g);
+      runStart = -1;
+    }
+  }
+
+  // Widest first, but an empty margin beside a narrow column is wide too:
+  // only a strip with enough items on both sides is a gutter.
+  const minSide = items.length * MIN_COLUMN_SHARE;
+  gutters.sort((a, b) => b.end - b.start - (a.end - a.start));
+
+  return (
+    gutters.find((g) => {
+      const left = items.filter((it) => it.x + itemWidth(it) <= g.start + BIN_SIZE).length;
+      const right = items.filter((it) => it.x >= g.end - BIN_SIZE).length;
+      return left >= minSide && right >= minSide;
+    }) ?? null
+  );
+}
+
+/**
+ * Group items into text lines (top to bottom, left to right).
+ */
+function toLines(items: PdfTextItem[]): Array<{ y: number; text: string }> {
+  const sorted = [...items].sort((a, b) => (Math.abs(a.y - b.y) <= LINE_TOLERANCE ? a.x - b.x : a.y - b.y));
+
+  const lines: Array<{ y: number; parts: string[] }> = [];
+  for (const it of sorted) {
+    const last = lines[lines.length - 1];
+    if (last && Math.abs(it.y - last.y) <= LINE_TOLERANCE) last.parts.push(it.text);
+    else lines.push({ y: it.y, parts: [it.text] });
+  }
+
+  return lines.map((l) => ({ y: l.y, text: l.parts.join(" ").trim() })).filter((l) => l.text);
+}
+
+/**
+ * Lines of one page in reading order. Two-column and sidebar layouts are
+ * read column by column; lines that span the gutter (a full-width heading
+ * or name banner) break the page into bands, each read left then right.
+ */
+export function pageToLines(page: PdfPage): string[] {
+  const gutter = findGutter(page);
+  if (!gutter) return toLines(page.items).map((l) => l.text);
+
+  const left: PdfTextItem[] = [];
+  const right: PdfTextItem[] = [];
+  const spanning: PdfTextItem[] = [];
+
+  for (const it of page.items) {
+    if (it.x + itemWidth(it) <= gutter.start + BIN_SIZE) left.push(it);
+    else if (it.x >= gutter.end - BIN_SIZE) right.push(it);
+    else spanning.push(it);
+  }
+
+  const spanLines = toLines(spanning);
+  const leftLines = toLines(left);
+  const rightLines = toLines(right);
+
+  const out: string[] = [];
+  let li = 0;
+  let ri = 0;
+
+  // Spanning lines act as band separators.
+  for (const s of [...spanLines, { y: Number.POSITIVE_INFINITY, text: "" }]) {
+    while (li < leftLines.length && leftLines[li].y < s.y - LINE_TOLERANCE) out.push(leftLines[li++].text);
+    while (ri < rightLines.length && rightLines[ri].y < s.y - LINE_TOLERANCE) out.push(rightLines[ri++].text);
+    if (s.text) out.push(s.text);
+  }
+
+  return out;
+}
+
+// Lines looked at for repeated headers/footers at each end of a page.
+const EDGE_LINES = 3;
+
+function edgeKey(line: string): string {
+  // "Page 2 of 3" and "Page 3 of 3" should compare equal.
+  return line.toLowerCase().replace(/\d+/g, "#").replace(/\s+/g, " ").trim();
+}
+
+function isPageNumber(line: string): boolean {
+  return /^(page\s*)?\d+(\s*(of|\/)\s*\d+)?$/i.test(line.trim());
+}
+
+/**
+ * Drop lines repeated at the top or bottom of most pages (running headers,
+ * footers, "Page N of M") and bare page numbers. Page 1 keeps its copy:
+ * a repeated header is usually the name and contact line.
+ */
+export function removeRunningHeaders(pages: string[][]): string[][] {
+  const edgeCounts = new Map<string, number>();
+
+  // Headers and footers are counted separately so a line that happens to
+  // open one page and close another isn't mistaken for either.
+  if (pages.length >= 2) {
+    for (const lines of pages) {
+      const top = lines.slice(0, EDGE_LINES).map((l) => `top:${edgeKey(l)}`);
+      const bottom = lines.slice(-EDGE_LINES).map((l) => `bottom:${edgeKey(l)}`);
+      for (const k of new Set([...top, ...bottom])) edgeCounts.set(k, (edgeCounts.get(k) ?? 0) + 1);
+    }
+  }
+
+  const threshold = Math.max(2, Math.ceil(pages.length / 2));
+  const repeated = (key: string) => (edgeCounts.get(key) ?? 0) >= threshold;
+
+  return pages.map((lines, page) =>
+    lines.filter((line, i) => {
+      const atTop = i < EDGE_LINES;
+      const atBottom = i >= lines.length - EDGE_LINES;
+      if (!atTop && !atBottom) return true;
+      if (isPageNumber(line)) return false;
+      if (page === 0) return true;
+      if (atTop && repeated(`top:${edgeKey(line)}`)) return false;
+      return !(atBottom && repeated(`bottom:${edgeKey(line)}`));
+    })
+  );
+}
@@ -0,0 +1,129 @@
+import { z } from "zod";
+
+// "2021-03" or "2021"
+const PartialDate = z.string().regex(/^\d{4}(-(0[1-9]|1[0-2]))?$/, "Expected YYYY-MM or YYYY");
+
+export const WorkHistoryEntrySchema = z.object({
+  employer: z.string(),
+  title: z.string(),
+  start_date: PartialDate.nullable(),
+  end_date: PartialDate.nullable(),
+  is_current: z.boolean(),
+});
+
+export const EducationEntrySchema = z.object({
+  institution: z.string(),
+  degree: z.string().nullable(),
+  field_of_study: z.string().nullable(),
+  graduation_year: z.number().int().min(1900).max(2100).nullable(),
+});
+
+export const CertificationSchema = z.object({
+  name: z.string(),
+  issuer: z.string().nullable(),
+  year: z.number().int().min(1900).max(2100).nullable(),
+});
+
+export const LanguageSchema = z.object({
+  language: z.string(),
+  proficiency: z.string().nullable(),
+});
+
+export const ProfileLinkSchema = z.object({
+  label: z.string(),
+  url: z.string(),
+});
+
+/**
+ * What the model is asked to return. Every field is required (nullable
+ * where the resume may not say) so it can be used as a strict JSON schema.
+ */
+export const ParsedProfileSchema = z.object({
+  roles: z.array(z.string()),
+  skills: z.array(z.string()),
+  seniority: z.string(),
+  location_preference: z.string(),
+  visa_or_work_auth: z.string(),
+  remote_intent: z.string(),
+  work_history: z.array(WorkHistoryEntrySchema),
+  education: z.array(EducationEntrySchema),
+  certifications: z.array(CertificationSchema),
+  languages: z.array(LanguageSchema),
+  links: z.array(ProfileLinkSchema),
+});
+
+export type WorkHistoryEntry = z.infer<typeof WorkHistoryEntrySchema>;
+export type ParsedProfile = z.infer<typeof ParsedProfileSchema>;
+
+/**
+ * A public.resume_profiles row's profile fields: the parsed profile plus
+ * values we derive ourselves rather than trust the model with.
+ */
+export type ResumeProfile = ParsedProfile & {
+  years_experience: number | null;
+};
+
+export type ProfileFieldError = {
+  path: string;
+  message: string;
+};
+
+/**
+ * Validate untrusted profile JSON. Errors carry a dotted path to the
+ * offending field ("work_history.0.start_date").
+ */
+export function validateParsedProfile(
+  value: unknown
+): { ok: true; profile: ParsedProfile } | { ok: false; errors: ProfileFieldError[] } {
+  const result = ParsedProfileSchema.safeParse(value);
+  if (result.success) return { ok: true, profile: result.data };
+
+  return { ok: false, errors: toFieldErrors(result.error) };
+}
+
+export function toFieldErrors(error: z.ZodError): ProfileFieldError[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.map(String).join(".") || "(root)",
+    message: issue.message,
+  }));
+}
+
+function toMonth(date: string, end: boolean): number {
+  const [y, m] = date.split("-").map(Number);
+  // A bare year covers the whole year at either end of a range.
+  return y * 12 + (m ? m - 1 : end ? 11 : 0);
+}
+
+/**
+ * Years of experience from work history, counting overlapping roles once.
+ * Entries without a start date are ignored; null when nothing is datable.
+ */
+export function computeYearsOfExperience(history: WorkHistoryEntry[], now = new Date()): number | null {
+  const nowMonth = now.getUTCFullYear() * 12 + now.getUTCMonth();
+
+  const spans = history
+    .filter((h) => h.start_date)
+    .map((h) => {
+      const start = toMonth(h.start_date as string, false);
+      const end = h.is_current || !h.end_date ? nowMonth : toMonth(h.end_date, true);
+      return [start, Math.min(end, nowMonth)] as const;
+    })
+    .filter(([start, end]) => end >= start)
+    .sort((a, b) => a[0] - b[0]);
+
+  if (spans.length === 0) return null;
+
+  let months = 0;
+  let [curStart, curEnd] = spans[0];
+  for (const [start, end] of spans.slice(1)) {
+    if (start <= curEnd + 1) {
+      curEnd = Math.max(curEnd, end);
+      continue;
+    }
+    months += curEnd - curStart + 1;
+    [curStart, curEnd] = [start, end];
+  }
+  months += curEnd - curStart + 1;
+
+  return Math.round((months / 12) * 10) / 10;
+}
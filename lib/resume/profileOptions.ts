@@ -0,0 +1,8 @@
+// Controlled values for the profile fields users pick from a list. The
+// model is free to return other text; these are what the editor offers.
+// Kept apart from profile.ts so the dashboard doesn't bundle zod.
+
+// Ordered to match seniorityLevel() (0 = intern .. 4 = staff).
+export const SENIORITY_OPTIONS = ["intern", "junior", "mid", "senior", "staff"] as const;
+
+export const REMOTE_INTENT_OPTIONS = ["remote", "hybrid", "onsite", "flexible"] as const;
@@ -0,0 +1,343 @@
+export type ResumeSectionKind =
+  | "contact"
+  | "summary"
+  | "experience"
+  | "education"
+  | "skills"
+  | "projects"
+  | "certifications"
+  | "other";
+
+export type ResumeSection = {
+  kind: ResumeSectionKind;
+  /** Heading as written in the resume; null for the untitled block at the top. */
+  heading: string | null;
+  text: string;
+};
+
+export type ExperienceEntry = {
+  title: string | null;
+  company: string | null;
+  location: string | null;
+  /** "YYYY-MM" or "YYYY" */
+  start_date: string | null;
+  /** null while `is_current` */
+  end_date: string | null;
+  is_current: boolean;
+  description: string;
+};
+
+export type ResumeStructure = {
+  sections: ResumeSection[];
+  experience: ExperienceEntry[];
+};
+
+const HEADING_ALIASES: Record<Exclude<ResumeSectionKind, "other">, string[]> = {
+  contact: ["contact", "contact information", "contact info", "contact details", "personal details", "personal information"],
+  summary: [
+    "summary",
+    "professional summary",
+    "career summary",
+    "executive summary",
+    "profile",
+    "professional profile",
+    "about",
+    "about me",
+    "objective",
+    "career objective",
+  ],
+  experience: [
+    "experience",
+    "work experience",
+    "professional experience",
+    "relevant experience",
+    "employment",
+    "employment history",
+    "work history",
+    "career history",
+  ],
+  education: ["education", "education and training", "academic background", "academic history"],
+  skills: [
+    "skills",
+    "technical skills",
+    "key skills",
+    "core skills",
+    "core competencies",
+    "competencies",
+    "technologies",
+    "tech stack",
+    "tools and technologies",
+    "expertise",
+  ],
+  projects: ["projects", "personal projects", "selected projects", "side projects", "key projects"],
+  certifications: [
+    "certifications",
+    "certificates",
+    "certification",
+    "licenses and certifications",
+    "licenses & certifications",
+    "certifications and licenses",
+  ],
+};
+
+const HEADING_KIND = new Map<string, ResumeSectionKind>(
+  Object.entries(HEADING_ALIASES).flatMap(([kind, aliases]) =>
+    aliases.map((a) => [a, kind as ResumeSectionKind] as const)
+  )
+);
+
+const BULLET_RE = /^\s*[-*•●▪◦‣·–]\s+/;
+
+const MONTHS: Record<string, string> = {
+  jan: "01",
+  feb: "02",
+  mar: "03",
+  apr: "04",
+  may: "05",
+  jun: "06",
+  jul: "07",
+  aug: "08",
+  sep: "09",
+  sept: "09",
+  oct: "10",
+  nov: "11",
+  dec: "12",
+};
+
+const MONTH_RE = String.raw`(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\.?`;
+const DATE_RE = String.raw`(?:${MONTH_RE}\s*,?\s*\d{4}|\d{1,2}\s*/\s*\d{4}|\d{4})`;
+const DATE_RANGE_RE = new RegExp(
+  String.raw`(?<start>${DATE_RE})\s*(?:-|–|—|to|until)\s*(?<end>${DATE_RE}|present|current|now|today)`,
+  "i"
+);
+
+// Words that mark a header part as a job title rather than a company name.
+const TITLE_WORDS =
+  /\b(engineer|developer|programmer|manager|analyst|designer|intern|lead|director|scientist|consultant|architect|specialist|coordinator|administrator|officer|head|vp|president|founder|associate|assistant|researcher|technician|strategist|owner|representative|executive|recruiter|accountant|editor|writer|teacher|instructor|sre|devops)\b/i;
+
+const LOCATION_RE = /^[A-Z][A-Za-z .'-]+,\s*(?:[A-Z]{2}|[A-Z][a-z]+(?: [A-Z][a-z]+)*)$/;
+const WORK_MODE_RE = /^(?:remote|hybrid)$/i;
+
+function headingKey(line: string): string {
+  return line
+    .replace(/^#+\s*/, "")
+    .replace(/[:\s]+$/, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * An all-caps short line with no digits ("VOLUNTEERING") reads as a
+ * heading even when we don't know the section.
+ */
+function looksLikeHeading(line: string): boolean {
+  const t = line.trim().replace(/:$/, "");
+  if (t.length < 3 || t.length > 40 || /\d/.test(t) || BULLET_RE.test(t)) return false;
+  if (t.split(/\s+/).length > 4) return false;
+  return /[A-Z]/.test(t) && t === t.toUpperCase();
+}
+
+type HeadingMatch = { kind: ResumeSectionKind; heading: string; rest: string };
+
+/** Where a candidate heading line sits. */
+type HeadingContext = {
+  current: ResumeSectionKind;
+  /** Non-blank lines in the current section so far. */
+  currentItems: number;
+  seenHeading: boolean;
+  prevBlank: boolean;
+  /** The next non-blank line, if any. */
+  next: string | undefined;
+};
+
+// Sections whose entries often carry their own "Tech stack: ..." lines.
+const ENTRY_SECTIONS: ResumeSectionKind[] = ["experience", "projects"];
+
+function matchHeading(line: string, ctx: HeadingContext): HeadingMatch | null {
+  const trimmed = line.trim();
+  const known = HEADING_KIND.get(headingKey(trimmed));
+  if (known) return { kind: known, heading: trimmed.replace(/^#+\s*/, "").replace(/:\s*$/, ""), rest: "" };
+
+  // "Skills: Python, Go, SQL", but not an indented line or one inside a job
+  // or project entry, where it describes that entry.
+  const inline =
+    !ENTRY_SECTIONS.includes(ctx.current) && !/^\s/.test(line) && trimmed.match(/^([A-Za-z &]{3,40}):\s*(\S.*)$/);
+  const inlineKind = inline ? HEADING_KIND.get(headingKey(inline[1])) : undefined;
+  if (inline && inlineKind) return { kind: inlineKind, heading: inline[1].trim(), rest: inline[2] };
+
+  // Unknown all-caps headings only count past the name/contact block, set
+  // off by a blank line, and not as one of a run of short all-caps lines
+  // ("AWS", "GCP", "CKA" in a skills list). A known section keeps at least
+  // its first two items.
+  if (
+    ctx.seenHeading &&
+    ctx.prevBlank &&
+    looksLikeHeading(trimmed) &&
+    ctx.next !== undefined &&
+    !looksLikeHeading(ctx.next.trim()) &&
+    (ctx.current === "other" || ctx.currentItems >= 2)
+  ) {
+    return { kind: "other", heading: trimmed.replace(/:$/, ""), rest: "" };
+  }
+
+  return null;
+}
+
+function normalizeDate(raw: string): string | null {
+  const t = raw.toLowerCase().replace(/\./g, "").trim();
+
+  const monthYear = t.match(/^([a-z]+)\s*,?\s*(\d{4})$/);
+  if (monthYear) {
+    const month = MONTHS[monthYear[1].slice(0, monthYear[1].startsWith("sept") ? 4 : 3)];
+    return month ? `${monthYear[2]}-${month}` : monthYear[2];
+  }
+
+  const numeric = t.match(/^(\d{1,2})\s*\/\s*(\d{4})$/);
+  if (numeric) {
+    const m = Number(numeric[1]);
+    return m >= 1 && m <= 12 ? `${numeric[2]}-${String(m).padStart(2, "0")}` : numeric[2];
+  }
+
+  return /^\d{4}$/.test(t) ? t : null;
+}
+
+function splitHeaderParts(text: string): string[] {
+  return text
+    .split(/\s+(?:\||—|–|-|@|at)\s+|\s*[|•·]\s*|,\s+(?=[A-Z][a-z]+,)/)
+    .map((p) => p.replace(/^[,\s]+|[,\s]+$/g, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Pull title/company/location out of the non-date text around an entry's
+ * date range. "Senior Engineer at Acme", "Acme | Senior Engineer",
+ * or the two on separate lines are all common.
+ */
+function parseEntryHeader(lines: string[]): Pick<ExperienceEntry, "title" | "company" | "location"> {
+  const parts = lines.flatMap((l) => {
+    // "Title at Company" reads title-first regardless of keywords.
+    const at = l.match(/^(.+?)\s+(?:at|@)\s+(.+)$/);
+    return at ? [at[1], ...splitHeaderParts(at[2])] : splitHeaderParts(l);
+  });
+
+  let location: string | null = null;
+  const rest: string[] = [];
+  for (const p of parts) {
+    if (!location && (WORK_MODE_RE.test(p) || LOCATION_RE.test(p))) location = p;
+    else rest.push(p);
+  }
+
+  const titleIdx = rest.findIndex((p) => TITLE_WORDS.test(p));
+  if (titleIdx >= 0) {
+    const company = rest.find((_, i) => i !== titleIdx) ?? null;
+    return { title: rest[titleIdx], company, location };
+  }
+
+  return { title: rest[0] ?? null, company: rest[1] ?? null, location };
+}
+
+// "Tech stack: React, Node" belongs to the entry above, not the next header.
+const LABELED_LINE_RE = /^\s*[A-Za-z &]{3,40}:\s/;
+
+function isEntryHeaderLine(line: string): boolean {
+  return Boolean(line.trim()) && !BULLET_RE.test(line) && !LABELED_LINE_RE.test(line) && line.trim().length <= 100;
+}
+
+/**
+ * Split an experience section into entries anchored on date ranges.
+ * Header text is taken from the date line itself plus up to two plain
+ * (non-bullet) lines directly above it, or the line below when the dates
+ * come first; everything after is the entry's description.
+ */
+export function parseExperienceEntries(text: string): ExperienceEntry[] {
+  const lines = text.split("\n");
+  const anchors: Array<{ headerStart: number; bodyStart: number; entry: Omit<ExperienceEntry, "description"> }> = [];
+
+  let floor = 0;
+  lines.forEach((line, i) => {
+    const m = line.match(DATE_RANGE_RE);
+    if (!m || i < floor) return;
+
+    const header: string[] = [];
+    let headerStart = i;
+
+    for (let j = i - 1; j >= floor && header.length < 2 && isEntryHeaderLine(lines[j]); j -= 1) {
+      header.unshift(lines[j].trim());
+      headerStart = j;
+    }
+
+    const residual = line.replace(m[0], " ").replace(/[(),|–—-]\s*$/, "").replace(/\s+/g, " ").trim();
+    if (residual) header.push(residual);
+
+    let bodyStart = i + 1;
+    const next = lines[bodyStart];
+    if (header.length < 2 && next !== undefined && isEntryHeaderLine(next) && !DATE_RANGE_RE.test(next)) {
+      header.push(next.trim());
+      bodyStart += 1;
+    }
+
+    floor = bodyStart;
+
+    const endRaw = m.groups?.end ?? "";
+    const isCurrent = /^(present|current|now|today)$/i.test(endRaw);
+
+    anchors.push({
+      headerStart,
+      bodyStart,
+      entry: {
+        ...parseEntryHeader(header),
+        start_date: normalizeDate(m.groups?.start ?? ""),
+        end_date: isCurrent ? null : normalizeDate(endRaw),
+        is_current: isCurrent,
+      },
+    });
+  });
+
+  // Descriptions run until the next entry's header.
+  return anchors.map((a, k) => {
+    const to = k + 1 < anchors.length ? anchors[k + 1].headerStart : lines.length;
+    return { ...a.entry, description: lines.slice(a.bodyStart, to).join("\n").trim() };
+  });
+}
+
+/**
+ * Split extracted resume text into sections by heading. Headings are
+ * recognized from a list of common names (and standalone all-caps short
+ * lines once a known section has started); text before the first heading is the
+ * contact block. Experience entries are parsed out of experience sections.
+ */
+export function segmentResume(text: string): ResumeStructure {
+  const sections: Array<{ kind: ResumeSectionKind; heading: string | null; lines: string[] }> = [];
+  let current: (typeof sections)[number] = { kind: "contact", heading: null, lines: [] };
+  sections.push(current);
+
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+
+  lines.forEach((line, i) => {
+    const heading = line.trim()
+      ? matchHeading(line, {
+          current: current.kind,
+          currentItems: current.lines.filter((l) => l.trim()).length,
+          seenHeading: sections.length > 1,
+          prevBlank: i === 0 || !lines[i - 1].trim(),
+          next: lines.slice(i + 1).find((l) => l.trim()),
+        })
+      : null;
+    if (heading) {
+      current = { kind: heading.kind, heading: heading.heading, lines: heading.rest ? [heading.rest] : [] };
+      sections.push(current);
+      return;
+    }
+    current.lines.push(line);
+  });
+
+  const out: ResumeSection[] = sections
+    .map((s) => ({ kind: s.kind, heading: s.heading, text: s.lines.join("\n").replace(/\n{3,}/g, "\n\n").trim() }))
+    .filter((s) => s.text || s.heading);
+
+  return {
+    sections: out,
+    experience: out.filter((s) => s.kind === "experience").flatMap((s) => parseExperienceEntries(s.text)),
+  };
+}
@@ -0,0 +1,36 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { loadProfileVersion, type ProfileVersion } from "@/lib/profiles/versions";
+import { loadResume } from "@/lib/resumes/library";
+import { loadResumeText } from "@/lib/resumes/text";
+import { loadResumeVariants, variantForJob } from "@/lib/resumes/variants";
+
+export type ResumeForJob = {
+  resume_id: string;
+  profile: ProfileVersion;
+  resumeText: string;
+};
+
+/**
+ * The resume a job is matched against (the active profile unless a
+ * variant targets the role), with its parsed profile and its text.
+ * Null when nothing has been parsed yet.
+ */
+export async function loadResumeForJob(
+  admin: SupabaseClient,
+  userId: string,
+  jobTitle: string
+): Promise<ResumeForJob | null> {
+  const variant = variantForJob(await loadResumeVariants(admin, userId), jobTitle);
+  if (!variant?.profile_id) return null;
+
+  const profile = await loadProfileVersion(admin, userId, variant.profile_id);
+  const resume = await loadResume(admin, userId, variant.resume_id);
+  if (!profile || !resume) return null;
+
+  return {
+    resume_id: resume.id,
+    profile,
+    resumeText: await loadResumeText(admin, resume),
+  };
+}
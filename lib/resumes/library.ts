@@ -0,0 +1,161 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * A public.resumes row as shown in the resume library.
+ * `label` falls back to the file name when the user hasn't named it.
+ */
+export type ResumeRow = {
+  id: string;
+  file_path: string;
+  file_name: string;
+  label: string | null;
+  is_default: boolean;
+  target_roles: string[];
+  created_at: string;
+};
+
+export type ResumeSummary = Omit<ResumeRow, "file_path"> & {
+  latest_version: number | null;
+};
+
+export const RESUME_COLUMNS = "id, file_path, file_name, label, is_default, target_roles, created_at";
+
+export function resumeLabel(r: Pick<ResumeRow, "label" | "file_name">): string {
+  return r.label?.trim() || r.file_name;
+}
+
+/**
+ * Storage keys are stored with or without the bucket prefix.
+ */
+export function normalizeStoragePath(filePath: string) {
+  return filePath.startsWith("resumes/") ? filePath.slice("resumes/".length) : filePath;
+}
+
+export async function loadResume(admin: SupabaseClient, userId: string, resumeId: string): Promise<ResumeRow | null> {
+  const { data, error } = await admin
+    .from("resumes")
+    .select(RESUME_COLUMNS)
+    .eq("user_id", userId)
+    .eq("id", resumeId)
+    .maybeSingle<ResumeRow>();
+
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+/**
+ * The user's default resume, falling back to the newest upload.
+ */
+export async function loadDefaultResume(admin: SupabaseClient, userId: string): Promise<ResumeRow | null> {
+  const { data, error } = await admin
+    .from("resumes")
+    .select(RESUME_COLUMNS)
+    .eq("user_id", userId)
+    .order("is_default", { ascending: false })
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle<ResumeRow>();
+
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+/**
+ * All of the user's resumes, default first, then newest first, with the
+ * latest parsed profile version of each.
+ */
+export async function listResumes(admin: SupabaseClient, userId: string): Promise<ResumeSummary[]> {
+  const { data, error } = await admin
+    .from("resumes")
+    .select(RESUME_COLUMNS)
+    .eq("user_id", userId)
+    .order("is_default", { ascending: false })
+    .order("created_at", { ascending: false })
+    .returns<ResumeRow[]>();
+
+  if (error) throw new Error(error.message);
+
+  const { data: versions, error: versionsErr } = await admin
+    .from("resume_profiles")
+    .select("resume_id, version")
+    .eq("user_id", userId)
+    .returns<Array<{ resume_id: string; version: number }>>();
+
+  if (versionsErr) throw new Error(versionsErr.message);
+
+  const latest = new Map<string, number>();
+  for (const v of versions ?? []) latest.set(v.resume_id, Math.max(latest.get(v.resume_id) ?? 0, v.version));
+
+  return (data ?? []).map((r) => ({
+    id: r.id,
+    file_name: r.file_name,
+    label: r.label,
+    is_default: r.is_default,
+    target_roles: r.target_roles ?? [],
+    created_at: r.created_at,
+    latest_version: latest.get(r.id) ?? null,
+  }));
+}
+
+/**
+ * Make a resume the default; its latest profile version becomes the
+ * active profile. Returns false when the resume isn't the user's.
+ */
+export async function setDefaultResume(admin: SupabaseClient, userId: string, resumeId: string): Promise<boolean> {
+  const { data, error } = await admin.rpc("set_default_resume", {
+    p_user_id: userId,
+    p_resume_id: resumeId,
+  });
+
+  if (error) throw new Error(error.message);
+  return data === true;
+}
+
+export async function updateResume(
+  admin: SupabaseClient,
+  userId: string,
+  resumeId: string,
+  patch: { label?: string | null; target_roles?: string[] }
+): Promise<ResumeRow | null> {
+  const { data, error } = await admin
+    .from("resumes")
+    .update(patch)
+    .eq("user_id", userId)
+    .eq("id", resumeId)
+    .select(RESUME_COLUMNS)
+    .maybeSingle<ResumeRow>();
+
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+/**
+ * Delete a resume, its parsed profiles and the stored file. If it was the
+ * default, the newest remaining resume takes over.
+ */
+export async function deleteResume(admin: SupabaseClient, userId: string, resumeId: string): Promise<boolean> {
+  const resume = await loadResume(admin, userId, resumeId);
+  if (!resume) return false;
+
+  const { error: profilesErr } = await admin
+    .from("resume_profiles")
+    .delete()
+    .eq("user_id", userId)
+    .eq("resume_id", resumeId);
+
+  if (profilesErr) throw new Error(profilesErr.message);
+
+  const { error: deleteErr } = await admin.from("resumes").delete().eq("user_id", userId).eq("id", resumeId);
+  if (deleteErr) throw new Error(deleteErr.message);
+
+  // The row is gone either way; a leftover file only costs storage.
+  const { error: storageErr } = await admin.storage.from("resumes").remove([normalizeStoragePath(resume.file_path)]);
+  if (storageErr) console.error(`Failed to remove resume file ${resume.file_path}: ${storageErr.message}`);
+
+  if (resume.is_default) {
+    const next = await loadDefaultResume(admin, userId);
+    if (next) await setDefaultResume(admin, userId, next.id);
+  }
+
+  return true;
+}
@@ -0,0 +1,18 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { extractResumeTextFromBuffer } from "@/lib/resume/extractResumeText";
+import { normalizeStoragePath, type ResumeRow } from "@/lib/resumes/library";
+
+/**
+ * Download a stored resume and extract its text.
+ */
+export async function loadResumeText(
+  admin: SupabaseClient,
+  resume: Pick<ResumeRow, "file_path" | "file_name">
+): Promise<string> {
+  const { data: file, error } = await admin.storage.from("resumes").download(normalizeStoragePath(resume.file_path));
+  if (error || !file) throw new Error(error?.message ?? "Failed to download resume");
+
+  const { text } = await extractResumeTextFromBuffer(Buffer.from(await file.arrayBuffer()), resume.file_name);
+  return text;
+}
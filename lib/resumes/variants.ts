@@ -0,0 +1,105 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { MATCH_PROFILE_COLUMNS, containsTerm, type MatchProfile } from "@/lib/jobs/match";
+import { RESUME_COLUMNS, resumeLabel, type ResumeRow } from "@/lib/resumes/library";
+
+/**
+ * One resume with the profile used when it's matched against jobs:
+ * the active profile for the default resume, the latest parsed version
+ * for the others. `profile` is null until the resume has been parsed.
+ */
+export type ResumeVariant = {
+  resume_id: string;
+  label: string;
+  is_default: boolean;
+  target_roles: string[];
+  /** The resume_profiles row `profile` was read from. */
+  profile_id: string | null;
+  profile: MatchProfile | null;
+};
+
+type VariantProfileRow = MatchProfile & {
+  id: string;
+  resume_id: string;
+  version: number;
+  is_active: boolean;
+};
+
+export async function loadResumeVariants(admin: SupabaseClient, userId: string): Promise<ResumeVariant[]> {
+  const { data: resumes, error } = await admin
+    .from("resumes")
+    .select(RESUME_COLUMNS)
+    .eq("user_id", userId)
+    .order("is_default", { ascending: false })
+    .order("created_at", { ascending: false })
+    .returns<ResumeRow[]>();
+
+  if (error) throw new Error(error.message);
+
+  const { data: profiles, error: profilesErr } = await admin
+    .from("resume_profiles")
+    .select(`id, resume_id, version, is_active, ${MATCH_PROFILE_COLUMNS}`)
+    .eq("user_id", userId)
+    .order("version", { ascending: false })
+    .returns<VariantProfileRow[]>();
+
+  if (profilesErr) throw new Error(profilesErr.message);
+
+  // Active wins, otherwise the highest version (rows come newest first).
+  const byResume = new Map<string, VariantProfileRow>();
+  for (const p of profiles ?? []) {
+    const seen = byResume.get(p.resume_id);
+    if (!seen || (p.is_active && !seen.is_active)) byResume.set(p.resume_id, p);
+  }
+
+  return (resumes ?? []).map((r) => {
+    const p = byResume.get(r.id);
+    return {
+      resume_id: r.id,
+      label: resumeLabel(r),
+      is_default: r.is_default,
+      target_roles: r.target_roles ?? [],
+      profile_id: p?.id ?? null,
+      profile: p
+        ? {
+            roles: p.roles,
+            skills: p.skills,
+            seniority: p.seniority,
+            location_preference: p.location_preference,
+            remote_intent: p.remote_intent,
+          }
+        : null,
+    };
+  });
+}
+
+export function defaultVariant(variants: ResumeVariant[]): ResumeVariant | null {
+  return variants.find((v) => v.is_default && v.profile) ?? variants.find((v) => v.profile) ?? null;
+}
+
+/**
+ * The variant bound to `role`, or the default when none is.
+ */
+export function variantForRole(variants: ResumeVariant[], role: string): ResumeVariant | null {
+  const r = role.trim().toLowerCase();
+  const bound = variants.find((v) => v.profile && v.target_roles.some((t) => t.trim().toLowerCase() === r));
+  return bound ?? defaultVariant(variants);
+}
+
+/**
+ * The variant for a job we can't tie to a role query (company boards,
+ * rescoring): the one with the longest target role found in the job
+ * title, or the default.
+ */
+export function variantForJob(variants: ResumeVariant[], title: string): ResumeVariant | null {
+  let best: { variant: ResumeVariant; length: number } | null = null;
+
+  for (const v of variants) {
+    if (!v.profile) continue;
+    for (const t of v.target_roles) {
+      if (containsTerm(title, t) && (!best || t.length > best.length)) best = { variant: v, length: t.length };
+    }
+  }
+
+  return best?.variant ?? defaultVariant(variants);
+}
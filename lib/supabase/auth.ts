@@ -0,0 +1,24 @@
+import type { User } from "@supabase/supabase-js";
+
+import { createSupabaseAdmin } from "@/lib/supabase/admin";
+
+function getBearerTokenFromHeader(authHeader: string | null) {
+  if (!authHeader) return null;
+  const m = authHeader.match(/^Bearer\s+(.+)$/i);
+  return m?.[1]?.trim() || null;
+}
+
+/**
+ * Resolve the signed-in user from the `Authorization: Bearer <access token>`
+ * header the dashboard sends. Returns null when missing or invalid.
+ */
+export async function getUserFromRequest(req: Request): Promise<User | null> {
+  const token = getBearerTokenFromHeader(req.headers.get("authorization"));
+  if (!token) return null;
+
+  const admin = createSupabaseAdmin();
+  const { data, error } = await admin.auth.getUser(token);
+  if (error || !data?.user) return null;
+
+  return data.user;
+}
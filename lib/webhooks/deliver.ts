@@ -0,0 +1,296 @@
+import { createHmac, randomUUID } from "node:crypto";
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { requestPublicUrl } from "@/lib/net/publicRequest";
+import {
+  WEBHOOK_DELIVERY_COLUMNS,
+  listEnabledWebhookEndpointRows,
+  type WebhookEndpointRow,
+} from "@/lib/webhooks/endpoints";
+import type {
+  WebhookDelivery,
+  WebhookEventData,
+  WebhookEventType,
+  WebhookJob,
+  WebhookPayload,
+} from "@/lib/webhooks/events";
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return "Unknown error";
+}
+
+/**
+ * An event to fan out to a user's subscribed endpoints.
+ */
+export type WebhookEvent = {
+  [T in Exclude<WebhookEventType, "webhook.test">]: { type: T; data: WebhookEventData[T] };
+}[Exclude<WebhookEventType, "webhook.test">];
+
+type DeliveryRow = {
+  id: string;
+  endpoint_id: string;
+  payload: WebhookPayload;
+  attempts: number;
+};
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Joblio-Signature";
+
+export const WEBHOOK_JOB_COLUMNS = "id, title, company_name, location_text, is_remote, apply_url, match_score";
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+// Delay before each retry; a delivery gets one attempt more than this.
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 12 * 60 * 60_000];
+
+const MAX_PARALLEL_DELIVERIES = 4;
+
+// Keeps `.in("id", ...)` filters well inside URL length limits.
+const JOB_ID_CHUNK = 100;
+
+/**
+ * Hex HMAC-SHA256 of `${timestamp}.${body}` with the endpoint secret. Sent
+ * as `X-Joblio-Signature: t=<unix seconds>,v1=<hex>`; receivers recompute
+ * it over the raw body and reject stale timestamps.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function subscribed(endpoint: WebhookEndpointRow, event: WebhookEvent): boolean {
+  if (!endpoint.events.includes(event.type)) return false;
+  if (event.type !== "job.matched") return true;
+
+  // Fire once, when the job first reaches this endpoint's threshold.
+  const { job, previous_match_score: previous } = event.data;
+  const min = endpoint.min_match_score;
+  return job.match_score !== null && job.match_score >= min && (previous === null || previous < min);
+}
+
+async function runLimited<T>(items: T[], limit: number, fn: (item: T) => Promise<void>) {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next];
+      next += 1;
+      await fn(item);
+    }
+  });
+  await Promise.all(workers);
+}
+
+// Bytes of a failed response's body kept in `last_error`.
+const ERROR_BODY_BYTES = 300;
+
+/**
+ * POST one delivery and record the outcome. 2xx is success; anything else
+ * is retried with backoff until RETRY_DELAYS_MS runs out. Redirects are
+ * not followed, and endpoints that resolve to a private address are
+ * refused at send time. Response bodies are only logged from checked
+ * addresses.
+ */
+async function attemptDelivery(
+  admin: SupabaseClient,
+  endpoint: Pick<WebhookEndpointRow, "url" | "secret">,
+  delivery: DeliveryRow
+): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let statusCode: number | null = null;
+  let error: string | null = null;
+
+  const allowPrivate = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true";
+
+  try {
+    const r = await requestPublicUrl(new URL(endpoint.url), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Joblio-Webhooks/1.0",
+        "X-Joblio-Event": delivery.payload.type,
+        "X-Joblio-Delivery": delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: `t=${timestamp},v1=${signWebhookPayload(endpoint.secret, timestamp, body)}`,
+      },
+      body,
+      timeoutMs: DELIVERY_TIMEOUT_MS,
+      maxBodyBytes: allowPrivate ? 0 : ERROR_BODY_BYTES,
+      allowPrivate,
+    });
+    statusCode = r.status;
+    if (r.status < 200 || r.status >= 300) error = r.body ? `HTTP ${r.status}: ${r.body}` : `HTTP ${r.status}`;
+  } catch (err: unknown) {
+    error = getErrorMessage(err);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const now = Date.now();
+  const retryIn = error ? RETRY_DELAYS_MS[attempts - 1] : undefined;
+
+  const { data, error: updateErr } = await admin
+    .from("webhook_deliveries")
+    .update({
+      attempts,
+      status: !error ? "succeeded" : retryIn !== undefined ? "pending" : "failed",
+      next_attempt_at: retryIn !== undefined ? new Date(now + retryIn).toISOString() : null,
+      last_status_code: statusCode,
+      last_error: error,
+      delivered_at: error ? null : new Date(now).toISOString(),
+    })
+    .eq("id", delivery.id)
+    .select(WEBHOOK_DELIVERY_COLUMNS)
+    .single<WebhookDelivery>();
+
+  if (updateErr) throw new Error(updateErr.message);
+  return data;
+}
+
+async function createDeliveries(
+  admin: SupabaseClient,
+  userId: string,
+  rows: Array<{ endpoint: WebhookEndpointRow; payload: WebhookPayload }>
+): Promise<Array<{ endpoint: WebhookEndpointRow; delivery: DeliveryRow }>> {
+  if (rows.length === 0) return [];
+
+  const { data, error } = await admin
+    .from("webhook_deliveries")
+    .insert(
+      rows.map(({ endpoint, payload }) => ({
+        endpoint_id: endpoint.id,
+        user_id: userId,
+        event_id: payload.id,
+        event_type: payload.type,
+        payload,
+        next_attempt_at: new Date().toISOString(),
+      }))
+    )
+    .select("id, endpoint_id, payload, attempts")
+    .returns<DeliveryRow[]>();
+
+  if (error) throw new Error(error.message);
+
+  const endpoints = new Map(rows.map((r) => [r.endpoint.id, r.endpoint]));
+  return (data ?? []).flatMap((delivery) => {
+    const endpoint = endpoints.get(delivery.endpoint_id);
+    return endpoint ? [{ endpoint, delivery }] : [];
+  });
+}
+
+function toPayload<T extends WebhookEventType>(type: T, data: WebhookEventData[T]): WebhookPayload<T> {
+  return { id: randomUUID(), type, created_at: new Date().toISOString(), data };
+}
+
+/**
+ * Log and send events to every enabled endpoint of the user subscribed to
+ * them. Failed sends stay pending for retryDueWebhookDeliveries. Returns
+ * the number of deliveries created.
+ */
+export async function emitWebhookEvents(admin: SupabaseClient, userId: string, events: WebhookEvent[]): Promise<number> {
+  if (events.length === 0) return 0;
+
+  const endpoints = await listEnabledWebhookEndpointRows(admin, userId);
+  if (endpoints.length === 0) return 0;
+
+  const rows = events.flatMap((event) => {
+    const targets = endpoints.filter((e) => subscribed(e, event));
+    if (targets.length === 0) return [];
+    // Every endpoint sees the same event id, so receivers can dedupe.
+    const payload = toPayload(event.type, event.data) as WebhookPayload;
+    return targets.map((endpoint) => ({ endpoint, payload }));
+  });
+
+  const deliveries = await createDeliveries(admin, userId, rows);
+
+  await runLimited(deliveries, MAX_PARALLEL_DELIVERIES, async ({ endpoint, delivery }) => {
+    try {
+      await attemptDelivery(admin, endpoint, delivery);
+    } catch (err: unknown) {
+      console.error(`webhook delivery ${delivery.id} not recorded: ${getErrorMessage(err)}`);
+    }
+  });
+
+  return deliveries.length;
+}
+
+/**
+ * Send a `webhook.test` event to one endpoint now, whatever its
+ * subscriptions, and return the logged delivery.
+ */
+export async function sendTestWebhook(admin: SupabaseClient, endpoint: WebhookEndpointRow): Promise<WebhookDelivery> {
+  const payload = toPayload("webhook.test", { message: "Test event from Joblio" }) as WebhookPayload;
+  const [created] = await createDeliveries(admin, endpoint.user_id, [{ endpoint, payload }]);
+  if (!created) throw new Error("Failed to log test delivery");
+
+  return attemptDelivery(admin, endpoint, created.delivery);
+}
+
+/**
+ * Retry pending deliveries whose backoff has elapsed, oldest first.
+ * Deliveries to endpoints that were disabled since are marked failed.
+ */
+export async function retryDueWebhookDeliveries(
+  admin: SupabaseClient,
+  limit: number,
+  now = new Date()
+): Promise<{ attempted: number; succeeded: number; failed: number }> {
+  const { data, error } = await admin
+    .from("webhook_deliveries")
+    .select("id, endpoint_id, payload, attempts, webhook_endpoints(url, secret, enabled)")
+    .eq("status", "pending")
+    .lte("next_attempt_at", now.toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit)
+    .returns<Array<DeliveryRow & { webhook_endpoints: Pick<WebhookEndpointRow, "url" | "secret" | "enabled"> | null }>>();
+
+  if (error) throw new Error(error.message);
+
+  const stats = { attempted: 0, succeeded: 0, failed: 0 };
+
+  await runLimited(data ?? [], MAX_PARALLEL_DELIVERIES, async ({ webhook_endpoints: endpoint, ...delivery }) => {
+    if (!endpoint?.enabled) {
+      const { error: skipErr } = await admin
+        .from("webhook_deliveries")
+        .update({ status: "failed", next_attempt_at: null, last_error: "Endpoint disabled" })
+        .eq("id", delivery.id);
+      if (skipErr) console.error(`webhook delivery ${delivery.id} not updated: ${skipErr.message}`);
+      stats.failed += 1;
+      return;
+    }
+
+    stats.attempted += 1;
+    try {
+      const result = await attemptDelivery(admin, endpoint, delivery);
+      if (result.status === "succeeded") stats.succeeded += 1;
+      else if (result.status === "failed") stats.failed += 1;
+    } catch (err: unknown) {
+      console.error(`webhook delivery ${delivery.id} not recorded: ${getErrorMessage(err)}`);
+    }
+  });
+
+  return stats;
+}
+
+/**
+ * Jobs in the shape webhook payloads carry, in the order of `jobIds`.
+ */
+export async function loadWebhookJobs(admin: SupabaseClient, userId: string, jobIds: string[]): Promise<WebhookJob[]> {
+  const byId = new Map<string, WebhookJob>();
+
+  for (let i = 0; i < jobIds.length; i += JOB_ID_CHUNK) {
+    const { data, error } = await admin
+      .from("jobs")
+      .select(WEBHOOK_JOB_COLUMNS)
+      .eq("user_id", userId)
+      .in("id", jobIds.slice(i, i + JOB_ID_CHUNK))
+      .returns<WebhookJob[]>();
+
+    if (error) throw new Error(error.message);
+    for (const j of data ?? []) byId.set(j.id, j);
+  }
+
+  return jobIds.flatMap((id) => {
+    const job = byId.get(id);
+    return job ? [job] : [];
+  });
+}
@@ -0,0 +1,257 @@
+import { randomBytes } from "node:crypto";
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { isPrivateHost } from "@/lib/net/hosts";
+import {
+  WEBHOOK_EVENTS,
+  isWebhookEvent,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+} from "@/lib/webhooks/events";
+
+/**
+ * One row of public.webhook_endpoints, secret included. Server-side only.
+ */
+export type WebhookEndpointRow = WebhookEndpoint & {
+  user_id: string;
+  secret: string;
+};
+
+export type WebhookEndpointInput = Pick<WebhookEndpoint, "url" | "description" | "events" | "min_match_score" | "enabled">;
+
+export const WEBHOOK_ENDPOINT_COLUMNS = "id, url, description, events, min_match_score, enabled, created_at";
+
+const WEBHOOK_ENDPOINT_ROW_COLUMNS = `${WEBHOOK_ENDPOINT_COLUMNS}, user_id, secret`;
+
+export const WEBHOOK_DELIVERY_COLUMNS =
+  "id, event_id, event_type, status, attempts, next_attempt_at, last_status_code, last_error, created_at, delivered_at";
+
+const MAX_URL_LENGTH = 2000;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+function toEndpoint(row: WebhookEndpointRow): WebhookEndpoint {
+  return {
+    id: row.id,
+    url: row.url,
+    description: row.description,
+    events: row.events,
+    min_match_score: row.min_match_score,
+    enabled: row.enabled,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Endpoints must be plain http(s) URLs. Loopback and private-network
+ * hosts are rejected so the server can't be pointed at itself, unless
+ * WEBHOOK_ALLOW_PRIVATE_URLS=true (local development).
+ */
+export function validateWebhookUrl(raw: unknown): { ok: true; url: string } | { ok: false; error: string } {
+  if (typeof raw !== "string" || !raw.trim() || raw.length > MAX_URL_LENGTH) {
+    return { ok: false, error: `url must be 1-${MAX_URL_LENGTH} characters` };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return { ok: false, error: "url is not a valid URL" };
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return { ok: false, error: "url must use http or https" };
+  }
+  if (url.username || url.password) {
+    return { ok: false, error: "url must not contain credentials" };
+  }
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_URLS !== "true" && isPrivateHost(url.hostname)) {
+    return { ok: false, error: "url must point at a public host" };
+  }
+
+  return { ok: true, url: url.toString() };
+}
+
+/**
+ * Validate a create (`partial` false) or update (`partial` true) body.
+ * Unknown keys are ignored.
+ */
+export function parseWebhookEndpointInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): { ok: true; input: Partial<WebhookEndpointInput> } | { ok: false; error: string } {
+  const input: Partial<WebhookEndpointInput> = {};
+
+  if (body.url !== undefined || !partial) {
+    const checked = validateWebhookUrl(body.url);
+    if (!checked.ok) return checked;
+    input.url = checked.url;
+  }
+
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== "string") {
+      return { ok: false, error: "description must be a string" };
+    }
+    const description = body.description?.trim() || null;
+    if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+      return { ok: false, error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters` };
+    }
+    input.description = description;
+  }
+
+  if (body.events !== undefined || !partial) {
+    const events = body.events;
+    if (!Array.isArray(events) || events.length === 0 || !events.every(isWebhookEvent)) {
+      return { ok: false, error: `events must be a non-empty list of: ${WEBHOOK_EVENTS.join(", ")}` };
+    }
+    input.events = Array.from(new Set(events));
+  }
+
+  if (body.min_match_score !== undefined) {
+    const score = body.min_match_score;
+    if (!(typeof score === "number" && Number.isInteger(score) && score >= 0 && score <= 100)) {
+      return { ok: false, error: "min_match_score must be an integer between 0 and 100" };
+    }
+    input.min_match_score = score;
+  }
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== "boolean") return { ok: false, error: "enabled must be a boolean" };
+    input.enabled = body.enabled;
+  }
+
+  return { ok: true, input };
+}
+
+export async function listWebhookEndpoints(admin: SupabaseClient, userId: string): Promise<WebhookEndpoint[]> {
+  const { data, error } = await admin
+    .from("webhook_endpoints")
+    .select(WEBHOOK_ENDPOINT_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true })
+    .returns<WebhookEndpoint[]>();
+
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+/**
+ * An endpoint with its secret, or null when it isn't the user's.
+ */
+export async function loadWebhookEndpointRow(
+  admin: SupabaseClient,
+  userId: string,
+  endpointId: string
+): Promise<WebhookEndpointRow | null> {
+  const { data, error } = await admin
+    .from("webhook_endpoints")
+    .select(WEBHOOK_ENDPOINT_ROW_COLUMNS)
+    .eq("id", endpointId)
+    .eq("user_id", userId)
+    .maybeSingle<WebhookEndpointRow>();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/**
+ * Enabled endpoints of a user, secrets included, for delivery.
+ */
+export async function listEnabledWebhookEndpointRows(
+  admin: SupabaseClient,
+  userId: string
+): Promise<WebhookEndpointRow[]> {
+  const { data, error } = await admin
+    .from("webhook_endpoints")
+    .select(WEBHOOK_ENDPOINT_ROW_COLUMNS)
+    .eq("user_id", userId)
+    .eq("enabled", true)
+    .returns<WebhookEndpointRow[]>();
+
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+/**
+ * Create an endpoint with a fresh signing secret. The secret is returned
+ * once here; it isn't readable through the API afterwards.
+ */
+export async function createWebhookEndpoint(
+  admin: SupabaseClient,
+  userId: string,
+  input: Partial<WebhookEndpointInput>
+): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+  const { data, error } = await admin
+    .from("webhook_endpoints")
+    .insert({ ...input, user_id: userId, secret: generateSecret() })
+    .select(WEBHOOK_ENDPOINT_ROW_COLUMNS)
+    .single<WebhookEndpointRow>();
+
+  if (error) throw new Error(error.message);
+  return { endpoint: toEndpoint(data), secret: data.secret };
+}
+
+/**
+ * Update an endpoint, optionally replacing its secret (returned only
+ * then). Null when the endpoint isn't the user's.
+ */
+export async function updateWebhookEndpoint(
+  admin: SupabaseClient,
+  userId: string,
+  endpointId: string,
+  input: Partial<WebhookEndpointInput>,
+  rotateSecret: boolean
+): Promise<{ endpoint: WebhookEndpoint; secret: string | null } | null> {
+  const secret = rotateSecret ? generateSecret() : null;
+
+  const { data, error } = await admin
+    .from("webhook_endpoints")
+    .update({ ...input, ...(secret ? { secret } : {}), updated_at: new Date().toISOString() })
+    .eq("id", endpointId)
+    .eq("user_id", userId)
+    .select(WEBHOOK_ENDPOINT_ROW_COLUMNS)
+    .maybeSingle<WebhookEndpointRow>();
+
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+  return { endpoint: toEndpoint(data), secret };
+}
+
+export async function deleteWebhookEndpoint(admin: SupabaseClient, userId: string, endpointId: string): Promise<boolean> {
+  const { data, error } = await admin
+    .from("webhook_endpoints")
+    .delete()
+    .eq("id", endpointId)
+    .eq("user_id", userId)
+    .select("id")
+    .returns<Array<{ id: string }>>();
+
+  if (error) throw new Error(error.message);
+  return (data ?? []).length > 0;
+}
+
+/**
+ * The newest deliveries to one endpoint.
+ */
+export async function listWebhookDeliveries(
+  admin: SupabaseClient,
+  userId: string,
+  endpointId: string,
+  limit = 50
+): Promise<WebhookDelivery[]> {
+  const { data, error } = await admin
+    .from("webhook_deliveries")
+    .select(WEBHOOK_DELIVERY_COLUMNS)
+    .eq("user_id", userId)
+    .eq("endpoint_id", endpointId)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+    .returns<WebhookDelivery[]>();
+
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
@@ -0,0 +1,80 @@
+import type { ApplicationStatus } from "@/lib/applications/status";
+
+/**
+ * Events a webhook endpoint can subscribe to. `webhook.test` is sent only
+ * by the "send test event" action and needs no subscription.
+ */
+export const WEBHOOK_EVENTS = ["job.synced", "job.matched", "application.status_changed"] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number] | "webhook.test";
+
+export const WEBHOOK_EVENT_LABELS: Record<(typeof WEBHOOK_EVENTS)[number], string> = {
+  "job.synced": "Sync found new jobs",
+  "job.matched": "A job reached the match threshold",
+  "application.status_changed": "Application status changed",
+};
+
+export function isWebhookEvent(v: unknown): v is (typeof WEBHOOK_EVENTS)[number] {
+  return typeof v === "string" && (WEBHOOK_EVENTS as readonly string[]).includes(v);
+}
+
+export type WebhookJob = {
+  id: string;
+  title: string;
+  company_name: string | null;
+  location_text: string | null;
+  is_remote: boolean;
+  apply_url: string | null;
+  match_score: number | null;
+};
+
+export type WebhookEventData = {
+  "job.synced": { inserted: number; updated: number; jobs: WebhookJob[] };
+  "job.matched": { job: WebhookJob; previous_match_score: number | null };
+  "application.status_changed": {
+    job: WebhookJob;
+    from_status: ApplicationStatus | null;
+    to_status: ApplicationStatus;
+    note: string | null;
+  };
+  "webhook.test": { message: string };
+};
+
+/**
+ * The JSON body POSTed to endpoints.
+ */
+export type WebhookPayload<T extends WebhookEventType = WebhookEventType> = {
+  id: string;
+  type: T;
+  created_at: string;
+  data: WebhookEventData[T];
+};
+
+/**
+ * One endpoint as the dashboard sees it; the secret is only returned when
+ * it's created or rotated.
+ */
+export type WebhookEndpoint = {
+  id: string;
+  url: string;
+  description: string | null;
+  events: Array<(typeof WEBHOOK_EVENTS)[number]>;
+  min_match_score: number;
+  enabled: boolean;
+  created_at: string;
+};
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export type WebhookDelivery = {
+  id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+};
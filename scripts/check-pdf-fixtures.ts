@@ -0,0 +1,147 @@
+/**
+ * Extract the resume layout fixtures in scripts/fixtures and check the
+ * reading order, header/footer removal and which section lines land in.
+ * Exits non-zero on a mismatch.
+ *
+ *   npm run check:pdf-fixtures
+ *
+ * Regenerate the fixtures with `node scripts/make-pdf-fixtures.mjs`.
+ */
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { extractPdfTextFromBuffer } from "@/lib/resume/extractPdfText";
+import { segmentResume, type ResumeSectionKind } from "@/lib/resume/sections";
+
+type Fixture = {
+  file: string;
+  pages: number;
+  /** Lines that must appear, in this order. */
+  inOrder: string[];
+  /** Lines that must appear exactly once. */
+  once?: string[];
+  /** Text that must not appear anywhere. */
+  absent?: string[];
+  /** Lines that segmentResume must put in a section of that kind. */
+  sections?: Partial<Record<ResumeSectionKind, string[]>>;
+};
+
+const FIXTURES: Fixture[] = [
+  {
+    file: "single-column.pdf",
+    pages: 1,
+    inOrder: [
+      "Jane Doe",
+      "jane@example.com | +1 555 0100",
+      "SUMMARY",
+      "EXPERIENCE",
+      "Senior Engineer at Acme Corp, Jan 2020 - Present",
+      "- Built the card payments API in Go and PostgreSQL",
+      "SKILLS",
+    ],
+  },
+  {
+    file: "two-column.pdf",
+    pages: 1,
+    inOrder: [
+      "Jane Doe - Software Engineer",
+      "EXPERIENCE",
+      "Senior Engineer, Acme Corp",
+      "- Billing and invoicing services",
+      "PROJECTS",
+      "EDUCATION",
+      "BS Computer Science, 2016",
+      "SKILLS",
+    ],
+    // Interleaved rows, as a plain y-then-x sort would produce.
+    absent: ["EXPERIENCE PROJECTS", "Acme Corp ledgerkit"],
+  },
+  {
+    file: "sidebar-running-header.pdf",
+    pages: 2,
+    inOrder: [
+      "Jane Doe | jane@example.com | +1 555 0100",
+      "SKILLS",
+      "Kafka",
+      "LANGUAGES",
+      "EXPERIENCE",
+      "Senior Engineer at Acme Corp",
+      "- Billing and invoicing services",
+      "CERTIFICATIONS",
+      "PROJECTS",
+      "rate-limiter middleware for Go services",
+    ],
+    // The contact header is kept on page 1 only.
+    once: ["Jane Doe | jane@example.com | +1 555 0100"],
+    absent: ["Page 1 of 2", "Page 2 of 2", "SKILLS EXPERIENCE"],
+    // Short all-caps items must not be read as headings.
+    sections: {
+      skills: ["AWS", "GCP", "SQL", "Go", "Kafka"],
+      certifications: ["AWS SA", "CKA", "CKAD"],
+    },
+  },
+];
+
+function check(fixture: Fixture, text: string, pageCount: number): string[] {
+  const problems: string[] = [];
+  const lines = text.split("\n").map((l) => l.trim());
+
+  if (pageCount !== fixture.pages) problems.push(`expected ${fixture.pages} pages, got ${pageCount}`);
+
+  let from = 0;
+  for (const expected of fixture.inOrder) {
+    const at = lines.indexOf(expected, from);
+    if (at < 0) {
+      problems.push(
+        lines.includes(expected) ? `"${expected}" is out of order` : `missing line "${expected}"`
+      );
+    } else {
+      from = at + 1;
+    }
+  }
+
+  for (const expected of fixture.once ?? []) {
+    const count = lines.filter((l) => l === expected).length;
+    if (count !== 1) problems.push(`"${expected}" appears ${count} times`);
+  }
+
+  for (const unwanted of fixture.absent ?? []) {
+    if (text.includes(unwanted)) problems.push(`unexpected "${unwanted}"`);
+  }
+
+  const { sections } = segmentResume(text);
+  for (const [kind, expected] of Object.entries(fixture.sections ?? {})) {
+    const sectionLines = sections
+      .filter((s) => s.kind === kind)
+      .flatMap((s) => s.text.split("\n").map((l) => l.trim()));
+    for (const line of expected ?? []) {
+      if (!sectionLines.includes(line)) problems.push(`"${line}" is not in the ${kind} section`);
+    }
+  }
+
+  return problems;
+}
+
+async function main() {
+  let failed = 0;
+
+  for (const fixture of FIXTURES) {
+    const buffer = readFileSync(join(import.meta.dirname, "fixtures", fixture.file));
+    const { text, pageCount } = await extractPdfTextFromBuffer(buffer);
+    const problems = check(fixture, text, pageCount);
+
+    if (problems.length === 0) {
+      console.log(`ok   ${fixture.file}`);
+      continue;
+    }
+
+    failed += 1;
+    console.log(`FAIL ${fixture.file}`);
+    for (const p of problems) console.log(`     ${p}`);
+    console.log(text.replace(/^/gm, "     | "));
+  }
+
+  if (failed > 0) process.exit(1);
+}
+
+main();
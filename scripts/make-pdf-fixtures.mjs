@@ -0,0 +1,137 @@
+// Writes the resume layout fixtures in scripts/fixtures used by
+// check-pdf-fixtures.ts. Run: node scripts/make-pdf-fixtures.mjs
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+const OUT = join(import.meta.dirname, "fixtures");
+
+const HEADER = "Jane Doe | jane@example.com | +1 555 0100";
+
+const pdfString = (s) => `(${s.replace(/[\\()]/g, (c) => `\\${c}`)})`;
+
+/**
+ * Minimal PDF: US Letter pages of Helvetica text items, each
+ * { x, y, size, text } in points from the bottom left.
+ */
+function buildPdf(pages) {
+  const objects = [];
+  const add = (body) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalog = add(null);
+  const pagesObj = add(null);
+  const font = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>");
+
+  const kids = pages.map((items) => {
+    const stream = items
+      .map((it) => `BT /F1 ${it.size ?? 10} Tf ${it.x} ${it.y} Td ${pdfString(it.text)} Tj ET`)
+      .join("\n");
+    const contents = add(`<< /Length ${Buffer.byteLength(stream)} >>\nstream\n${stream}\nendstream`);
+    return add(
+      `<< /Type /Page /Parent ${pagesObj} 0 R /MediaBox [0 0 612 792] /Contents ${contents} 0 R ` +
+        `/Resources << /Font << /F1 ${font} 0 R >> >> >>`
+    );
+  });
+
+  objects[catalog - 1] = `<< /Type /Catalog /Pages ${pagesObj} 0 R >>`;
+  objects[pagesObj - 1] = `<< /Type /Pages /Kids [${kids.map((k) => `${k} 0 R`).join(" ")}] /Count ${kids.length} >>`;
+
+  let out = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = Buffer.byteLength(out);
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = Buffer.byteLength(out);
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  out += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
+
+// Lines top-down from `y`, 16pt apart, all at `x`.
+function column(x, y, lines, size = 10) {
+  return lines.map((text, i) => ({ x, y: y - i * 16, size, text }));
+}
+
+const singleColumn = [
+  [
+    { x: 72, y: 740, size: 18, text: "Jane Doe" },
+    ...column(72, 716, [
+      "jane@example.com | +1 555 0100",
+      "SUMMARY",
+      "Backend engineer with eight years building payment systems.",
+      "EXPERIENCE",
+      "Senior Engineer at Acme Corp, Jan 2020 - Present",
+      "- Built the card payments API in Go and PostgreSQL",
+      "- Led the move from cron jobs to Kafka consumers",
+      "SKILLS",
+      "Go, Python, PostgreSQL, Kafka, Kubernetes",
+    ]),
+  ],
+];
+
+const twoColumnLeft = [
+  "EXPERIENCE",
+  "Senior Engineer, Acme Corp",
+  "Jan 2020 - Present",
+  "- Built the card payments API",
+  "- Led the Kafka migration",
+  "Engineer, Globex",
+  "2016 - 2019",
+  "- Billing and invoicing services",
+];
+const twoColumnRight = [
+  "PROJECTS",
+  "ledgerkit: double-entry library",
+  "rate-limiter for Go services",
+  "EDUCATION",
+  "BS Computer Science, 2016",
+  "State University",
+  "SKILLS",
+  "Go, Python, PostgreSQL",
+];
+const twoColumn = [
+  [
+    { x: 72, y: 740, size: 18, text: "Jane Doe - Software Engineer" },
+    ...column(50, 700, twoColumnLeft),
+    ...column(320, 700, twoColumnRight),
+  ],
+];
+
+// Narrow left sidebar, wide main column, two pages with a running header
+// and a page-number footer.
+const sidebar = [1, 2].map((page) => [
+  { x: 40, y: 760, size: 9, text: HEADER },
+  ...column(
+    40,
+    720,
+    page === 1
+      ? ["SKILLS", "AWS", "GCP", "SQL", "Go", "Kafka", "LANGUAGES", "English", "Spanish"]
+      : ["CERTIFICATIONS", "AWS SA", "CKA", "CKAD"]
+  ),
+  ...column(
+    220,
+    720,
+    page === 1
+      ? [
+          "EXPERIENCE",
+          "Senior Engineer at Acme Corp",
+          "Jan 2020 - Present",
+          "- Built the card payments API in Go",
+          "- Cut settlement time from hours to minutes",
+          "Engineer at Globex",
+          "2016 - 2019",
+          "- Billing and invoicing services",
+        ]
+      : ["PROJECTS", "ledgerkit: double-entry bookkeeping library", "rate-limiter middleware for Go services"]
+  ),
+  { x: 280, y: 40, size: 9, text: `Page ${page} of 2` },
+]);
+
+writeFileSync(join(OUT, "single-column.pdf"), buildPdf(singleColumn));
+writeFileSync(join(OUT, "two-column.pdf"), buildPdf(twoColumn));
+writeFileSync(join(OUT, "sidebar-running-header.pdf"), buildPdf(sidebar));
@@ -0,0 +1,21 @@
+-- Company job boards (Greenhouse / Lever / Ashby) followed per user.
+create table if not exists public.job_boards (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  source text not null check (source in ('greenhouse', 'lever', 'ashby')),
+  board_token text not null,
+  company_name text,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  unique (user_id, source, board_token)
+);
+
+alter table public.job_boards enable row level security;
+
+create policy "job_boards_owner" on public.job_boards
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- jobs.source was only ever 'jsearch'; widen any existing check.
+alter table public.jobs drop constraint if exists jobs_source_check;
+alter table public.jobs
+  add constraint jobs_source_check check (source in ('jsearch', 'greenhouse', 'lever', 'ashby'));
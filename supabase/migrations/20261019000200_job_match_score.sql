@@ -0,0 +1,7 @@
+-- Profile-to-job match score (0..100) with a per-factor breakdown.
+alter table public.jobs
+  add column if not exists match_score smallint,
+  add column if not exists match_breakdown jsonb;
+
+create index if not exists jobs_user_match_score_idx
+  on public.jobs (user_id, match_score desc nulls last);
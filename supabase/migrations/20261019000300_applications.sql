@@ -0,0 +1,35 @@
+-- Application pipeline: current stage per job + transition history.
+create table if not exists public.applications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  job_id uuid not null references public.jobs (id) on delete cascade,
+  status text not null check (
+    status in ('saved', 'applied', 'phone_screen', 'onsite', 'offer', 'rejected', 'withdrawn')
+  ),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, job_id)
+);
+
+create table if not exists public.application_events (
+  id uuid primary key default gen_random_uuid(),
+  application_id uuid not null references public.applications (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  job_id uuid not null references public.jobs (id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists application_events_job_idx
+  on public.application_events (job_id, created_at);
+
+alter table public.applications enable row level security;
+alter table public.application_events enable row level security;
+
+create policy "applications_owner" on public.applications
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "application_events_owner_read" on public.application_events
+  for select using (auth.uid() = user_id);
@@ -0,0 +1,14 @@
+-- Scheduled sync: per-user frequency and last-run watermark.
+-- interval_hours null = scheduled sync disabled for this user.
+create table if not exists public.job_sync_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  interval_hours integer default 24 check (interval_hours is null or interval_hours between 1 and 168),
+  last_synced_at timestamptz,
+  last_sync_ok boolean,
+  last_sync_error text
+);
+
+alter table public.job_sync_settings enable row level security;
+
+create policy "job_sync_settings_owner_read" on public.job_sync_settings
+  for select using (auth.uid() = user_id);
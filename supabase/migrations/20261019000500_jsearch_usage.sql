@@ -0,0 +1,27 @@
+-- Per-user, per-day (UTC) JSearch request counter for quota budgeting.
+create table if not exists public.jsearch_usage (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  day date not null,
+  requests integer not null default 0,
+  primary key (user_id, day)
+);
+
+alter table public.jsearch_usage enable row level security;
+
+create policy "jsearch_usage_owner_read" on public.jsearch_usage
+  for select using (auth.uid() = user_id);
+
+-- Atomically count one request and return the new total.
+create or replace function public.increment_jsearch_usage(p_user_id uuid, p_day date)
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.jsearch_usage (user_id, day, requests)
+  values (p_user_id, p_day, 1)
+  on conflict (user_id, day) do update set requests = public.jsearch_usage.requests + 1
+  returning requests;
+$$;
+
+revoke execute on function public.increment_jsearch_usage(uuid, date) from public, anon, authenticated;
@@ -0,0 +1,11 @@
+-- Sync upserts on (user_id, source, external_job_id) and refreshes changed rows.
+alter table public.jobs
+  add column if not exists updated_at timestamptz;
+
+-- Jobs without a source id are keyed by apply URL (see lib/jobs/sync.ts).
+update public.jobs
+  set external_job_id = 'url:' || apply_url
+  where external_job_id is null and apply_url is not null;
+
+create unique index if not exists jobs_user_source_external_job_id_key
+  on public.jobs (user_id, source, external_job_id);
@@ -0,0 +1,8 @@
+-- Cross-source duplicate detection: title/company/location fingerprint
+-- plus the apply links of copies collapsed into a job.
+alter table public.jobs
+  add column if not exists fingerprint text,
+  add column if not exists alternate_apply_urls text[] not null default '{}';
+
+create index if not exists jobs_user_fingerprint_idx
+  on public.jobs (user_id, fingerprint);
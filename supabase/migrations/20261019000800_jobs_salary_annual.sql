@@ -0,0 +1,36 @@
+-- Salary normalized to yearly amounts; salary_min/max/period stay as posted.
+alter table public.jobs
+  add column if not exists salary_annual_min numeric,
+  add column if not exists salary_annual_max numeric,
+  add column if not exists salary_source text check (salary_source in ('structured', 'description'));
+
+-- Backfill rows that already had structured figures, the way annualize() in
+-- lib/jobs/salary.ts does: the same period spellings, a period inferred
+-- from the larger figure when none is stated, and implausible yearly
+-- amounts left null.
+update public.jobs
+set
+  salary_annual_min = case when round(salary_min * f.per_year) between 1000 and 5000000
+    then round(salary_min * f.per_year) end,
+  salary_annual_max = case when round(salary_max * f.per_year) between 1000 and 5000000
+    then round(salary_max * f.per_year) end,
+  salary_source = 'structured'
+from (
+  select id,
+    case
+      when salary_period ~* 'hour|hr\M' then 2080
+      when salary_period ~* 'day|daily' then 260
+      when salary_period ~* 'week|wk\M' then 52
+      when salary_period ~* 'month|mo\M' then 12
+      when salary_period ~* 'year|yr\M|annum|annual|pa\M' then 1
+      when greatest(salary_min, salary_max) < 500 then 2080
+      when greatest(salary_min, salary_max) < 15000 then 12
+      else 1
+    end as per_year
+  from public.jobs
+  where salary_min is not null or salary_max is not null
+) f
+where public.jobs.id = f.id and public.jobs.salary_annual_max is null;
+
+create index if not exists jobs_user_salary_annual_max_idx
+  on public.jobs (user_id, salary_annual_max);
@@ -0,0 +1,10 @@
+-- Richer parsed profile: work history, education, certifications,
+-- languages and links as validated JSON arrays, plus years of experience
+-- computed from work history.
+alter table public.resume_profiles
+  add column if not exists work_history jsonb not null default '[]'::jsonb,
+  add column if not exists years_experience numeric(4, 1),
+  add column if not exists education jsonb not null default '[]'::jsonb,
+  add column if not exists certifications jsonb not null default '[]'::jsonb,
+  add column if not exists languages jsonb not null default '[]'::jsonb,
+  add column if not exists links jsonb not null default '[]'::jsonb;
@@ -0,0 +1,62 @@
+-- Profile versions: each parse of a resume adds a numbered version, and
+-- exactly one profile per user is active (the one sync and scoring use).
+alter table public.resume_profiles
+  add column if not exists version integer,
+  add column if not exists is_active boolean not null default false;
+
+-- Number existing rows per resume in creation order.
+with numbered as (
+  select id, row_number() over (partition by resume_id order by created_at, id) as v
+  from public.resume_profiles
+)
+update public.resume_profiles p
+set version = numbered.v
+from numbered
+where p.id = numbered.id and p.version is null;
+
+-- The latest parse per user was the one in use; keep it that way.
+update public.resume_profiles
+set is_active = true
+where id in (
+  select distinct on (user_id) id
+  from public.resume_profiles
+  order by user_id, created_at desc, id desc
+);
+
+alter table public.resume_profiles alter column version set not null;
+
+create unique index if not exists resume_profiles_resume_version_idx
+  on public.resume_profiles (resume_id, version);
+
+create unique index if not exists resume_profiles_one_active_idx
+  on public.resume_profiles (user_id) where is_active;
+
+-- Make one of the user's profiles active. Two statements so the partial
+-- unique index never sees two active rows. Returns false if the profile
+-- isn't the user's.
+create or replace function public.activate_resume_profile(p_user_id uuid, p_profile_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.resume_profiles where id = p_profile_id and user_id = p_user_id
+  ) then
+    return false;
+  end if;
+
+  update public.resume_profiles
+  set is_active = false
+  where user_id = p_user_id and is_active and id <> p_profile_id;
+
+  update public.resume_profiles
+  set is_active = true
+  where id = p_profile_id;
+
+  return true;
+end;
+$$;
+
+revoke execute on function public.activate_resume_profile(uuid, uuid) from public, anon, authenticated;
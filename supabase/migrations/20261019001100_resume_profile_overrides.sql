@@ -0,0 +1,4 @@
+-- Profile fields the user edited by hand. A re-parse of the same resume
+-- keeps these values instead of the model's.
+alter table public.resume_profiles
+  add column if not exists overridden_fields text[] not null default '{}';
@@ -0,0 +1,119 @@
+-- Resume variants: a user can keep several resumes (e.g. "backend" and
+-- "data engineering"), name them, pick a default, and bind each to the
+-- target roles it should be used for.
+alter table public.resumes
+  add column if not exists label text,
+  add column if not exists is_default boolean not null default false,
+  add column if not exists target_roles text[] not null default '{}';
+
+-- The newest upload was the one in use; make it the default.
+update public.resumes
+set is_default = true
+where id in (
+  select distinct on (user_id) id
+  from public.resumes
+  order by user_id, created_at desc, id desc
+)
+and not exists (
+  select 1 from public.resumes r2 where r2.user_id = public.resumes.user_id and r2.is_default
+);
+
+create unique index if not exists resumes_one_default_idx
+  on public.resumes (user_id) where is_default;
+
+-- A user's first upload becomes their default.
+create or replace function public.resumes_default_first()
+returns trigger
+language plpgsql
+as $$
+begin
+  if not exists (select 1 from public.resumes where user_id = new.user_id and is_default) then
+    new.is_default := true;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists resumes_default_first on public.resumes;
+create trigger resumes_default_first
+  before insert on public.resumes
+  for each row execute function public.resumes_default_first();
+
+-- Which resume variant a job was scored against.
+alter table public.jobs
+  add column if not exists match_resume_id uuid references public.resumes (id) on delete set null;
+
+-- The default resume and the active profile move together: making a
+-- resume the default activates its latest profile version, and activating
+-- a profile makes its resume the default.
+create or replace function public.set_default_resume(p_user_id uuid, p_resume_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_profile_id uuid;
+begin
+  if not exists (select 1 from public.resumes where id = p_resume_id and user_id = p_user_id) then
+    return false;
+  end if;
+
+  update public.resumes set is_default = false
+  where user_id = p_user_id and is_default and id <> p_resume_id;
+
+  update public.resumes set is_default = true where id = p_resume_id;
+
+  select id into v_profile_id
+  from public.resume_profiles
+  where resume_id = p_resume_id
+  order by version desc
+  limit 1;
+
+  if v_profile_id is not null then
+    update public.resume_profiles set is_active = false
+    where user_id = p_user_id and is_active and id <> v_profile_id;
+
+    update public.resume_profiles set is_active = true where id = v_profile_id;
+  end if;
+
+  return true;
+end;
+$$;
+
+create or replace function public.activate_resume_profile(p_user_id uuid, p_profile_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_resume_id uuid;
+begin
+  select resume_id into v_resume_id
+  from public.resume_profiles
+  where id = p_profile_id and user_id = p_user_id;
+
+  if not found then
+    return false;
+  end if;
+
+  update public.resume_profiles
+  set is_active = false
+  where user_id = p_user_id and is_active and id <> p_profile_id;
+
+  update public.resume_profiles
+  set is_active = true
+  where id = p_profile_id;
+
+  update public.resumes set is_default = false
+  where user_id = p_user_id and is_default and id <> v_resume_id;
+
+  update public.resumes set is_default = true where id = v_resume_id;
+
+  return true;
+end;
+$$;
+
+revoke execute on function public.set_default_resume(uuid, uuid) from public, anon, authenticated;
+revoke execute on function public.activate_resume_profile(uuid, uuid) from public, anon, authenticated;
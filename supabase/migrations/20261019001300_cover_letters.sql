@@ -0,0 +1,38 @@
+-- Cover letter drafts per job, with every past body kept as a revision.
+create table if not exists public.cover_letters (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  job_id uuid not null references public.jobs (id) on delete cascade,
+  resume_id uuid references public.resumes (id) on delete set null,
+  tone text not null check (tone in ('professional', 'friendly', 'enthusiastic')),
+  length text not null check (length in ('short', 'medium', 'long')),
+  body text not null,
+  provider text not null,
+  model text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists cover_letters_job_idx
+  on public.cover_letters (user_id, job_id, created_at desc);
+
+create table if not exists public.cover_letter_revisions (
+  id uuid primary key default gen_random_uuid(),
+  cover_letter_id uuid not null references public.cover_letters (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  body text not null,
+  source text not null check (source in ('generated', 'edited')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists cover_letter_revisions_letter_idx
+  on public.cover_letter_revisions (cover_letter_id, created_at);
+
+alter table public.cover_letters enable row level security;
+alter table public.cover_letter_revisions enable row level security;
+
+create policy "cover_letters_owner" on public.cover_letters
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "cover_letter_revisions_owner_read" on public.cover_letter_revisions
+  for select using (auth.uid() = user_id);
@@ -0,0 +1,41 @@
+-- User-defined JSearch queries run by sync alongside the profile's roles.
+create table if not exists public.saved_searches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  query text not null,
+  location text,
+  remote_only boolean not null default false,
+  employment_types text[] not null default '{}'
+    check (employment_types <@ array['FULLTIME', 'PARTTIME', 'CONTRACTOR', 'INTERN']),
+  posted_within_days integer check (posted_within_days in (1, 3, 7, 30)),
+  excluded_keywords text[] not null default '{}',
+  enabled boolean not null default true,
+  last_run_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists saved_searches_user_idx
+  on public.saved_searches (user_id, created_at);
+
+-- Which saved searches found each job.
+create table if not exists public.saved_search_jobs (
+  saved_search_id uuid not null references public.saved_searches (id) on delete cascade,
+  job_id uuid not null references public.jobs (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  found_at timestamptz not null default now(),
+  primary key (saved_search_id, job_id)
+);
+
+create index if not exists saved_search_jobs_job_idx
+  on public.saved_search_jobs (job_id);
+
+alter table public.saved_searches enable row level security;
+alter table public.saved_search_jobs enable row level security;
+
+create policy "saved_searches_owner" on public.saved_searches
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "saved_search_jobs_owner_read" on public.saved_search_jobs
+  for select using (auth.uid() = user_id);
@@ -0,0 +1,27 @@
+-- Email digests of new matching jobs: per-user frequency, score threshold
+-- and unsubscribe token. Users without a row get the defaults.
+create table if not exists public.notification_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  digest_frequency text not null default 'daily' check (digest_frequency in ('off', 'daily', 'weekly')),
+  digest_min_score integer not null default 60 check (digest_min_score between 0 and 100),
+  unsubscribe_token uuid not null unique default gen_random_uuid(),
+  last_digest_sent_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+-- Jobs inserted by sync since the user's last digest.
+create table if not exists public.digest_jobs (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  job_id uuid not null references public.jobs (id) on delete cascade,
+  queued_at timestamptz not null default now(),
+  primary key (user_id, job_id)
+);
+
+alter table public.notification_settings enable row level security;
+alter table public.digest_jobs enable row level security;
+
+create policy "notification_settings_owner_read" on public.notification_settings
+  for select using (auth.uid() = user_id);
+
+create policy "digest_jobs_owner_read" on public.digest_jobs
+  for select using (auth.uid() = user_id);
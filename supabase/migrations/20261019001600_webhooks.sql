@@ -0,0 +1,50 @@
+-- Outbound webhooks: per-user endpoints and a log of every delivery.
+create table if not exists public.webhook_endpoints (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  url text not null,
+  description text,
+  events text[] not null
+    check (cardinality(events) > 0 and events <@ array['job.synced', 'job.matched', 'application.status_changed']),
+  -- job.matched only fires for jobs scoring at least this.
+  min_match_score integer not null default 70 check (min_match_score between 0 and 100),
+  secret text not null,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists webhook_endpoints_user_idx
+  on public.webhook_endpoints (user_id, created_at);
+
+-- One row per event per endpoint; retried with backoff until it succeeds
+-- or runs out of attempts.
+create table if not exists public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  endpoint_id uuid not null references public.webhook_endpoints (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  event_id uuid not null,
+  event_type text not null,
+  payload jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'succeeded', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz,
+  last_status_code integer,
+  last_error text,
+  created_at timestamptz not null default now(),
+  delivered_at timestamptz
+);
+
+create index if not exists webhook_deliveries_endpoint_idx
+  on public.webhook_deliveries (endpoint_id, created_at desc);
+
+create index if not exists webhook_deliveries_retry_idx
+  on public.webhook_deliveries (next_attempt_at)
+  where status = 'pending';
+
+alter table public.webhook_endpoints enable row level security;
+alter table public.webhook_deliveries enable row level security;
+
+-- Reads go through the API so secrets never reach the browser directly.
+create policy "webhook_deliveries_owner_read" on public.webhook_deliveries
+  for select using (auth.uid() = user_id);
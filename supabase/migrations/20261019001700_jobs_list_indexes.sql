@@ -0,0 +1,7 @@
+-- Keyset pagination for GET /api/jobs: every sort orders by
+-- (<key> desc nulls last, id desc) within a user.
+create index if not exists jobs_user_created_at_idx
+  on public.jobs (user_id, created_at desc, id desc);
+
+create index if not exists jobs_user_posted_at_idx
+  on public.jobs (user_id, posted_at desc nulls last, id desc);
@@ -0,0 +1,26 @@
+-- Job freshness: when sync first and last saw each posting, and whether
+-- it looks closed (no longer listed by its company board for a while, or
+-- its apply link now 404s / bounces to a careers page).
+alter table public.jobs
+  add column if not exists first_seen_at timestamptz not null default now(),
+  add column if not exists last_seen_at timestamptz not null default now(),
+  add column if not exists closed_at timestamptz,
+  add column if not exists closed_reason text
+    check (closed_reason is null or closed_reason in ('not_seen', 'apply_url_gone', 'apply_url_redirect')),
+  add column if not exists apply_url_checked_at timestamptz;
+
+-- Existing rows: best guess from when they were stored and last changed.
+update public.jobs
+set first_seen_at = created_at,
+    last_seen_at = coalesce(updated_at, created_at);
+
+create index if not exists jobs_user_open_last_seen_idx
+  on public.jobs (user_id, source, last_seen_at)
+  where closed_at is null;
+
+-- Per-user window before unseen jobs count as closed (null = never), and
+-- whether sync may probe apply links.
+alter table public.job_sync_settings
+  add column if not exists close_after_days integer default 14
+    check (close_after_days is null or close_after_days between 1 and 365),
+  add column if not exists probe_apply_urls boolean not null default false;
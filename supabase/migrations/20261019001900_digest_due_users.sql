@@ -0,0 +1,31 @@
+-- Users with queued digest jobs whose digest is due, longest-waiting first,
+-- for the digest cron to page through. Intervals match
+-- DIGEST_INTERVAL_HOURS in lib/notifications/settings.ts; users without a
+-- settings row get the daily default.
+create or replace function public.digest_due_users(p_now timestamptz)
+returns table (user_id uuid)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select q.user_id
+  from (select distinct d.user_id from public.digest_jobs d) q
+  left join public.notification_settings s on s.user_id = q.user_id
+  where coalesce(s.digest_frequency, 'daily') <> 'off'
+    and (
+      s.last_digest_sent_at is null
+      or s.last_digest_sent_at <= p_now - case s.digest_frequency
+        when 'weekly' then interval '168 hours'
+        else interval '24 hours'
+      end
+    )
+  order by s.last_digest_sent_at asc nulls first, q.user_id;
+$$;
+
+revoke execute on function public.digest_due_users(timestamptz) from public, anon, authenticated;
+
+-- The cron used to clear these; turning digests off now does.
+delete from public.digest_jobs d
+using public.notification_settings s
+where s.user_id = d.user_id and s.digest_frequency = 'off';
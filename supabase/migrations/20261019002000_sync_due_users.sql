@@ -0,0 +1,27 @@
+-- Users with an active resume profile or an enabled saved search whose
+-- scheduled sync is due, never-synced first, then oldest watermark first,
+-- for the sync cron to page through. Users without a settings row get
+-- DEFAULT_SYNC_INTERVAL_HOURS (24) from lib/jobs/sync.ts.
+create or replace function public.sync_due_users(p_now timestamptz)
+returns table (user_id uuid)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select u.user_id
+  from (
+    select p.user_id from public.resume_profiles p where p.is_active
+    union
+    select s.user_id from public.saved_searches s where s.enabled
+  ) u
+  left join public.job_sync_settings st on st.user_id = u.user_id
+  where (st.user_id is null or coalesce(st.interval_hours, 0) > 0)
+    and (
+      st.last_synced_at is null
+      or st.last_synced_at <= p_now - make_interval(hours => coalesce(st.interval_hours, 24))
+    )
+  order by st.last_synced_at asc nulls first, u.user_id;
+$$;
+
+revoke execute on function public.sync_due_users(timestamptz) from public, anon, authenticated;